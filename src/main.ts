@@ -4,55 +4,183 @@
  */
 
 import {
+  applyPastedBlock,
+  CANONICAL_COLUMNS,
   extractGeneNames,
+  extractStatusWarnings,
+  FileProcessingResult,
   filterIgnoredRows,
+  findRunOverlap,
   generateSampleNames,
+  getMaxGeneRowCount,
+  MeltFileResult,
+  mergeRuns,
+  nextRunId,
+  splitRuns,
+  parseEfficiencyList,
+  parseQuantity,
+  parseSampleReplicates,
+  parseStandardList,
   setupFileInput,
+  setupMeltFileInput,
+  setupMultiFileInput,
+  splitPastedBlock,
   triggerFileSelect,
+  validateCalibratorList,
   validateControlList,
-  validateHousekeeper,
+  validateEfficiencyList,
+  validateHousekeepers,
   validateReplicaCount,
   validateSampleList,
+  validateSampleSheet,
+  validateStandardList,
 } from "./modules/input";
-import { generateAllOutputs } from "./modules/output";
-import { buildGeneDataWithGroups, processAllGenes } from "./modules/processing";
+import {
+  buildRdmlArchive,
+  buildSignificanceSummary,
+  downloadFile,
+  formatAbsoluteQuantitiesAsTsv,
+  generateAllOutputs,
+  sortSignificanceSummary,
+} from "./modules/output";
+import {
+  AbsoluteQuantificationResult,
+  analyzeReferenceStability,
+  applyCqCalling,
+  assignmentsFromSampleColumn,
+  buildCandidateMatrix,
+  buildGeneDataWithGroups,
+  calibrateAllGenes,
+  collectQcIssues,
+  countSampleSlots,
+  deriveAssignedSamples,
+  diagnoseGeneRows,
+  findSamplesAcrossRuns,
+  findUncalibratedGenes,
+  fitStandardCurves,
+  getSampleConditions,
+  getStabilityRanking,
+  getWellKey,
+  groupSamplesByCondition,
+  hasWellAssignments,
+  parseWellKey,
+  processAllGenes,
+  quantifyAllGenes,
+  ReferenceStabilityResult,
+  StandardCurveResult,
+} from "./modules/processing";
 import { switchTab } from "./modules/ui/components/tabs";
+import {
+  getCqCallingOptions,
+  renderAmplificationSection,
+  setupAmplificationHandlers,
+} from "./modules/ui/renderers/amplification-renderer";
+import {
+  renderMeltSection,
+  setupMeltHandlers,
+} from "./modules/ui/renderers/melt-renderer";
 import {
   clearError,
   displayFilename,
   displayValidationErrors,
+  getCalibratorList,
   getControlList,
+  getMaxCycle,
+  getMissingCqPolicy,
   getReplicaCount,
+  getReplicateLayout,
   getSampleList,
+  getStandardList,
+  highlightInputRows,
+  populateControlList,
   populateSampleList,
+  populateStandardList,
+  renderCalibratorWarning,
   renderHousekeeperPicker,
   renderHousekeeperTable,
   renderInputTable,
+  renderPlateList,
+  renderRunOverlap,
+  renderStatusRuleEditor,
   renderStatusWarnings,
+  setControlListFromSheet,
+  setSampleListsReadOnly,
   setupHousekeeperPickerHandlers,
+  setupPlateListHandlers,
+  setupStatusRuleHandlers,
   showError,
   updatePageTitle,
 } from "./modules/ui/renderers/input-renderer";
 import {
   clearOutputSection,
+  getMultipleTestingCorrection,
+  getSignificanceSortKey,
+  getSignificanceTest,
+  getTemplateVolume,
+  renderAbsoluteQuantification,
   renderIgnoredGenes,
   renderOutputSection,
+  renderSignificanceSummary,
+  setupAbsoluteQuantificationHandlers,
+  setupSignificanceSummaryHandlers,
 } from "./modules/ui/renderers/output-renderer";
+import {
+  getPlateRun,
+  renderPlateMap,
+  renderPlateRunPicker,
+  selectPlateSizeForData,
+  setupPlateMapHandlers,
+} from "./modules/ui/renderers/plate-map-renderer";
 import {
   clearProcessingSection,
   renderProcessingSection,
+  getDeltaCtCalibrator,
+  getExclusionReason,
+  getOutlierOptions,
+  getQuantificationOptions,
+  populateEfficiencyList,
+  renderCalibratorOptions,
+  renderQcSummary,
+  renderRowDiagnostics,
   setupProcessingTabHandlers,
+  setupReplicateExclusionHandlers,
+  setupRowDiagnosticsHandlers,
 } from "./modules/ui/renderers/processing-renderer";
+import {
+  getControlCondition,
+  getGroupingFactors,
+  getSampleSheet,
+  renderSampleSheet,
+  renderSampleSheetOptions,
+  setupSampleSheetHandlers,
+} from "./modules/ui/renderers/sample-sheet-renderer";
+import {
+  renderStandardCurves,
+  setupStandardCurveHandlers,
+} from "./modules/ui/renderers/standard-curve-renderer";
+import {
+  getStabilityCandidates,
+  getStabilityMethod,
+  getStabilityTopCount,
+  renderReferenceStability,
+  renderStabilityCandidates,
+  setupStabilityHandlers,
+} from "./modules/ui/renderers/stability-renderer";
 import { stateManager, subscribe } from "./modules/ui/state";
-import { ParsedTsvData, ValidationError } from "./types";
+import {
+  ManualExclusion,
+  ParsedTsvData,
+  PlateRun,
+  SampleSheet,
+  ValidationError,
+  WellAssignment,
+} from "./types";
 
 /**
  * Application Controller
  * Orchestrates all application logic
  */
 class App {
-  private debounceTimer: number | null = null;
-
   constructor() {
     this.init();
   }
@@ -79,6 +207,35 @@ class App {
       setupFileInput(fileInput, this.handleFileProcessed.bind(this));
     }
 
+    // Additional plates (run files) merged into the session
+    const addPlateBtn = document.getElementById("add-plate-btn");
+    const plateInput = document.getElementById(
+      "add-plate-input"
+    ) as HTMLInputElement;
+
+    if (addPlateBtn && plateInput) {
+      addPlateBtn.addEventListener("click", () =>
+        triggerFileSelect(plateInput)
+      );
+      setupMultiFileInput(plateInput, this.handlePlatesAdded.bind(this));
+    }
+
+    // Melt curves for a loaded plate
+    const meltBtn = document.getElementById("melt-btn");
+    const meltInput = document.getElementById("melt-input") as HTMLInputElement;
+
+    if (meltBtn && meltInput) {
+      meltBtn.addEventListener("click", () => triggerFileSelect(meltInput));
+      setupMeltFileInput(meltInput, this.handleMeltLoaded.bind(this));
+    }
+    setupMeltHandlers(() => renderMeltSection(stateManager.getState().rawData));
+
+    // Loaded plate list
+    setupPlateListHandlers(
+      this.handleRunRename.bind(this),
+      this.handleRunRemove.bind(this)
+    );
+
     // Replica count input
     const replicaInput = document.getElementById("replica-count");
     if (replicaInput) {
@@ -88,9 +245,41 @@ class App {
       );
     }
 
+    // Missing Cq policy
+    for (const id of ["missing-cq-policy", "max-cycle"]) {
+      document
+        .getElementById(id)
+        ?.addEventListener("change", this.handleMissingCqChange.bind(this));
+    }
+
+    // Status rules
+    setupStatusRuleHandlers((rules) => stateManager.setStatusRules(rules));
+
+    // Replicate layout select
+    const layoutSelect = document.getElementById("replicate-layout");
+    if (layoutSelect) {
+      layoutSelect.addEventListener(
+        "change",
+        this.handleReplicateLayoutChange.bind(this)
+      );
+    }
+
+    // Plate map editor
+    setupPlateMapHandlers(
+      this.handleWellAssignment.bind(this),
+      () => stateManager.resetWellAssignments(),
+      this.renderCurrentPlateMap.bind(this)
+    );
+
     // Housekeeper selection
     setupHousekeeperPickerHandlers(this.handleHousekeeperChange.bind(this));
 
+    // Reference gene stability
+    setupStabilityHandlers(
+      this.updateReferenceStability.bind(this),
+      this.handleUseTopReferences.bind(this)
+    );
+
     // Sample list input
     const sampleListInput = document.getElementById("sample-list");
     if (sampleListInput) {
@@ -109,8 +298,114 @@ class App {
       );
     }
 
+    // Inter-run calibrator list input
+    const calibratorListInput = document.getElementById("calibrator-list");
+    if (calibratorListInput) {
+      calibratorListInput.addEventListener(
+        "input",
+        this.debounce(this.handleCalibratorListChange.bind(this), 500)
+      );
+    }
+
+    // Sample sheet with experimental factors
+    setupSampleSheetHandlers(
+      this.debounce(this.handleSampleSheetEdit.bind(this), 500),
+      this.handleAddFactor.bind(this),
+      this.handleRemoveFactor.bind(this),
+      this.handleSampleSheetPaste.bind(this)
+    );
+
+    // Standard curve dilution series
+    const standardListInput = document.getElementById("standard-list");
+    if (standardListInput) {
+      standardListInput.addEventListener(
+        "input",
+        this.debounce(this.handleStandardListChange.bind(this), 500)
+      );
+    }
+    document
+      .getElementById("standards-from-samples-btn")
+      ?.addEventListener("click", this.handleStandardsFromSamples.bind(this));
+    setupStandardCurveHandlers(this.updateStandardCurves.bind(this));
+    setupAbsoluteQuantificationHandlers(
+      this.debounce(
+        () => stateManager.setTemplateVolume(getTemplateVolume()),
+        500
+      ),
+      this.handleAbsoluteExport.bind(this)
+    );
+
     // Processing tabs
     setupProcessingTabHandlers(this.handleTabChange.bind(this));
+
+    // Quantification method and per-gene efficiencies
+    document
+      .getElementById("quantification-method")
+      ?.addEventListener("change", this.handleQuantificationChange.bind(this));
+    document
+      .getElementById("deltact-calibrator")
+      ?.addEventListener("change", () =>
+        stateManager.setDeltaCtCalibrator(getDeltaCtCalibrator())
+      );
+    const efficiencyListInput = document.getElementById("efficiency-list");
+    if (efficiencyListInput) {
+      efficiencyListInput.addEventListener(
+        "input",
+        this.debounce(this.handleQuantificationChange.bind(this), 500)
+      );
+    }
+    document
+      .getElementById("efficiencies-from-standards-btn")
+      ?.addEventListener(
+        "click",
+        this.handleEfficienciesFromStandards.bind(this)
+      );
+
+    // Outlier detection
+    for (const id of [
+      "outlier-method",
+      "outlier-sd-threshold",
+      "outlier-auto-exclude",
+    ]) {
+      document
+        .getElementById(id)
+        ?.addEventListener(
+          "change",
+          this.handleOutlierOptionsChange.bind(this)
+        );
+    }
+
+    // Manual replicate exclusion
+    setupReplicateExclusionHandlers((measurementId) =>
+      stateManager.toggleManualExclusion(measurementId, getExclusionReason())
+    );
+    setupRowDiagnosticsHandlers(highlightInputRows);
+
+    // Cq calling from raw amplification curves
+    setupAmplificationHandlers(this.handleCqCallingChange.bind(this), () => {
+      const state = stateManager.getState();
+      renderAmplificationSection(state.rawData, state.config);
+    });
+
+    // Significance tests between the conditions
+    document
+      .getElementById("significance-test")
+      ?.addEventListener("change", () =>
+        stateManager.setSignificanceTest(getSignificanceTest())
+      );
+    setupSignificanceSummaryHandlers(
+      () =>
+        stateManager.setMultipleTestingCorrection(
+          getMultipleTestingCorrection()
+        ),
+      this.renderCrossGeneSummary.bind(this)
+    );
+
+    // RDML export
+    const rdmlButton = document.getElementById("export-rdml-btn");
+    if (rdmlButton) {
+      rdmlButton.addEventListener("click", this.handleRdmlExport.bind(this));
+    }
   }
 
   /**
@@ -127,26 +422,93 @@ class App {
 
         case "housekeeper-changed":
           if (state.rawData) {
-            renderHousekeeperTable(state.rawData, state.config.housekeeper);
+            renderHousekeeperTable(state.rawData, state.config.housekeepers);
           }
           this.runProcessing();
           break;
 
         case "samples-changed":
+          renderCalibratorOptions(
+            state.config.samples,
+            state.config.deltaCtCalibrator
+          );
+          renderSampleSheet(state.config.samples, state.config.sampleSheet);
+          this.renderSampleSheetOptions();
+          this.runProcessing();
+          break;
+
+        case "significance-changed":
+        case "correction-changed":
+          this.runOutput();
+          break;
+
+        case "sample-sheet-changed":
+          this.renderSampleSheetOptions();
+          this.runProcessing();
+          break;
+
+        case "standards-changed":
+          this.updateStandardCurves();
+          break;
+
+        case "quantification-changed":
+        case "calibrator-changed":
+          this.runProcessing();
+          break;
+
+        case "layout-changed":
+          this.regenerateSampleNames();
+          break;
+
+        case "missing-cq-changed":
+          this.runProcessing();
+          break;
+
+        case "cq-calling-changed":
+          if (state.rawData) {
+            this.renderStatusRules(state.rawData);
+            renderHousekeeperTable(state.rawData, state.config.housekeepers);
+          }
+          renderAmplificationSection(state.rawData, state.config);
+          this.renderCurrentPlateMap();
           this.runProcessing();
           break;
 
+        case "exclusions-changed":
+        case "outliers-changed":
+          this.runProcessing();
+          break;
+
+        case "status-rules-changed":
+          if (state.rawData) {
+            this.renderStatusRules(state.rawData);
+          }
+          this.runProcessing();
+          break;
+
+        case "plate-map-changed":
+          this.onPlateMapChanged();
+          break;
+
         case "processing-complete":
           renderProcessingSection(state.processingResults, state.activeGeneTab);
+          renderRowDiagnostics(
+            diagnoseGeneRows(state.geneDataMap, state.config),
+            state.config.replicateLayout
+          );
+          renderQcSummary(collectQcIssues(state.geneDataMap));
           this.runOutput();
           break;
 
         case "output-complete":
           renderOutputSection(state.outputResults);
-          // Show ignored genes (excluding housekeeper - that's expected)
+          this.renderCrossGeneSummary();
+          // Show ignored genes (excluding housekeepers - that's expected)
           const processedGenes = Array.from(state.outputResults.keys());
           const ignoredGenes = state.availableGenes.filter(
-            (g) => !processedGenes.includes(g) && g !== state.config.housekeeper
+            (g) =>
+              !processedGenes.includes(g) &&
+              !state.config.housekeepers.includes(g)
           );
           renderIgnoredGenes(ignoredGenes);
           break;
@@ -165,14 +527,9 @@ class App {
   }
 
   /**
-   * Handle file processing result
+   * Handle file processing result (replaces the loaded plates)
    */
-  private handleFileProcessed(result: {
-    success: boolean;
-    data?: ParsedTsvData;
-    error?: string;
-    filename?: string;
-  }): void {
+  private handleFileProcessed(result: FileProcessingResult): void {
     if (!result.success || !result.data) {
       showError("file-error", result.error ?? "Failed to process file");
       displayFilename("");
@@ -180,11 +537,190 @@ class App {
     }
 
     clearError("file-error");
-    displayFilename(result.filename ?? "");
+    this.loadRuns(this.createRuns(result, []), {});
+  }
+
+  /**
+   * Handle additional plates, merged with the loaded ones
+   */
+  private handlePlatesAdded(results: FileProcessingResult[]): void {
+    const state = stateManager.getState();
+    const runs = [...state.runs];
+    const errors: string[] = [];
+
+    for (const result of results) {
+      if (!result.success || !result.data) {
+        errors.push(
+          `${result.filename ?? "File"}: ${result.error ?? "Failed to process file"}`
+        );
+        continue;
+      }
+      runs.push(...this.createRuns(result, runs));
+    }
+
+    if (errors.length > 0) {
+      showError("file-error", errors.join("; "));
+    } else {
+      clearError("file-error");
+    }
+
+    if (runs.length > state.runs.length) {
+      this.loadRuns(
+        runs,
+        state.config.wellAssignments,
+        state.config.manualExclusions
+      );
+    }
+  }
+
+  /**
+   * Create the runs of a processed file: one, or one per run of a file
+   * that holds several (RDML)
+   * @param result Successful file processing result
+   * @param runs Runs already loaded (for unique run IDs)
+   * @returns New runs
+   */
+  private createRuns(
+    result: FileProcessingResult,
+    runs: PlateRun[]
+  ): PlateRun[] {
+    const created: PlateRun[] = [];
+
+    for (const data of splitRuns(result.data!)) {
+      created.push({
+        id: nextRunId([...runs, ...created]),
+        filename: result.filename ?? "",
+        formatLabel: result.formatLabel ?? "",
+        data,
+      });
+    }
+
+    return created;
+  }
+
+  /**
+   * Merge the runs and load them into state
+   * @param runs Runs in plate order
+   * @param assignments Plate map assignments to keep
+   * @param exclusions Manual replicate exclusions to keep
+   */
+  private loadRuns(
+    runs: PlateRun[],
+    assignments: Record<string, WellAssignment>,
+    exclusions: Record<string, ManualExclusion> = {}
+  ): void {
+    if (runs.length === 1) {
+      displayFilename(runs[0].filename, runs[0].formatLabel);
+    } else {
+      displayFilename(`${runs.length} plates`);
+    }
+
+    const data = applyCqCalling(
+      mergeRuns(runs),
+      stateManager.getState().config
+    );
+    const genes = extractGeneNames(data);
+    stateManager.setRuns(runs, data, genes, assignments, exclusions);
+  }
+
+  /**
+   * Attach melt curves to the plate shown in the plate map (or the only
+   * plate), keeping assignments and exclusions
+   */
+  private handleMeltLoaded(result: MeltFileResult): void {
+    const state = stateManager.getState();
+
+    if (!result.success || !result.curves) {
+      showError("file-error", result.error ?? "Failed to read melt curves");
+      return;
+    }
+    if (state.runs.length === 0) {
+      showError("file-error", "Load a data file before its melt curves");
+      return;
+    }
+
+    const target =
+      state.runs.find((r) => r.id === getPlateRun()) ?? state.runs[0];
+    const positions = new Set(
+      target.data.rows.map((r) => r[CANONICAL_COLUMNS.position]?.trim())
+    );
+    if (!Object.keys(result.curves).some((p) => positions.has(p))) {
+      showError(
+        "file-error",
+        `No well of ${result.filename ?? "the melt curve file"} is on ${target.id}`
+      );
+      return;
+    }
+
+    clearError("file-error");
+    const runs = state.runs.map((run) =>
+      run === target
+        ? { ...run, data: { ...run.data, melt: result.curves } }
+        : run
+    );
+    this.loadRuns(
+      runs,
+      state.config.wellAssignments,
+      state.config.manualExclusions
+    );
+  }
+
+  /**
+   * Rename a run, keeping its plate map assignments
+   */
+  private handleRunRename(runId: string, newId: string): void {
+    const state = stateManager.getState();
+
+    if (!newId || state.runs.some((r) => r.id === newId && r.id !== runId)) {
+      showError("file-error", `Run ID "${newId}" is empty or already used`);
+      renderPlateList(state.runs);
+      return;
+    }
+
+    clearError("file-error");
+    if (newId === runId) return;
+
+    const assignments: Record<string, WellAssignment> = {};
+    for (const [key, assignment] of Object.entries(
+      state.config.wellAssignments
+    )) {
+      const { run, position } = parseWellKey(key);
+      assignments[run === runId ? getWellKey(newId, position) : key] =
+        assignment;
+    }
+
+    // Measurement IDs embed the well key ("TNF@Plate 1:A1")
+    const exclusions: Record<string, ManualExclusion> = {};
+    for (const [id, exclusion] of Object.entries(
+      state.config.manualExclusions
+    )) {
+      exclusions[id.replace(`@${runId}:`, `@${newId}:`)] = exclusion;
+    }
+
+    const runs = state.runs.map((r) =>
+      r.id === runId ? { ...r, id: newId } : r
+    );
+    this.loadRuns(runs, assignments, exclusions);
+  }
+
+  /**
+   * Remove a plate and its plate map assignments (other plates keep their
+   * manual exclusions)
+   */
+  private handleRunRemove(runId: string): void {
+    const state = stateManager.getState();
 
-    // Extract gene names and update state
-    const genes = extractGeneNames(result.data);
-    stateManager.setRawData(result.data, genes);
+    const assignments = Object.fromEntries(
+      Object.entries(state.config.wellAssignments).filter(
+        ([key]) => parseWellKey(key).run !== runId
+      )
+    );
+
+    this.loadRuns(
+      state.runs.filter((r) => r.id !== runId),
+      assignments,
+      state.config.manualExclusions
+    );
   }
 
   /**
@@ -196,29 +732,156 @@ class App {
     // Update page title
     updatePageTitle(data.title);
 
-    // Render input table (filtered)
-    renderInputTable(data);
+    // Render input table (filtered) and the status rules highlighting it
+    this.renderStatusRules(data);
 
-    // Render status warnings from original data
-    renderStatusWarnings(data);
+    // Render loaded plates and their status warnings from original data
+    renderPlateList(state.runs);
+    renderStatusWarnings(state.runs);
+    renderRunOverlap(
+      findRunOverlap(state.runs),
+      findSamplesAcrossRuns(state.config.wellAssignments)
+    );
 
-    // Render housekeeper picker
-    renderHousekeeperPicker(state.availableGenes, state.config.housekeeper);
+    // Preselect the reference genes annotated in the file (e.g. RDML)
+    const referenceGenes = (data.metadata?.referenceGenes ?? []).filter((g) =>
+      state.availableGenes.includes(g)
+    );
+    if (referenceGenes.length > 0) {
+      stateManager.setHousekeepers(referenceGenes);
+    }
 
-    // Auto-generate sample names based on filtered data
-    const filteredData = filterIgnoredRows(data);
-    const geneRowCount = filteredData.rows.filter(
-      (r) => r["Name"] === state.availableGenes[0]
-    ).length;
-    const replicaCount = getReplicaCount();
-    const sampleNames = generateSampleNames(geneRowCount, replicaCount);
+    // Render housekeeper picker and stability candidates
+    renderHousekeeperPicker(state.availableGenes, state.config.housekeepers);
+    renderStabilityCandidates(state.availableGenes);
 
-    populateSampleList(sampleNames);
-    stateManager.setSamples(sampleNames);
+    // Render amplification and melt curves if the data has them
+    renderAmplificationSection(data, state.config);
+    renderMeltSection(data);
+
+    // Render plate map in the format that fits the data
+    selectPlateSizeForData(data);
+    renderPlateRunPicker(state.runs);
+    this.renderCurrentPlateMap();
+    setSampleListsReadOnly(false);
 
     // Clear processing and output
     clearProcessingSection();
     clearOutputSection();
+
+    // Formats that name the sample in each well seed the plate map of
+    // their plate, keeping wells already assigned; otherwise auto-generate
+    // sample names based on filtered data
+    const assignments: Record<string, WellAssignment> = {};
+    for (const run of state.runs) {
+      Object.assign(
+        assignments,
+        assignmentsFromSampleColumn(filterIgnoredRows(mergeRuns([run])))
+      );
+    }
+    Object.assign(assignments, state.config.wellAssignments);
+
+    if (hasWellAssignments(assignments)) {
+      stateManager.setWellAssignments(assignments);
+    } else {
+      this.regenerateSampleNames();
+    }
+  }
+
+  /**
+   * Render the status rule editor and the input table it highlights
+   */
+  private renderStatusRules(data: ParsedTsvData): void {
+    const { statusRules } = stateManager.getState().config;
+
+    renderInputTable(data, statusRules);
+    renderStatusRuleEditor(statusRules, extractStatusWarnings(data));
+  }
+
+  /**
+   * Regenerate sample names for the current data, replica count and layout
+   */
+  private regenerateSampleNames(): void {
+    const state = stateManager.getState();
+    if (!state.rawData || state.availableGenes.length === 0) return;
+
+    // The plate map defines the samples while it has assignments
+    if (hasWellAssignments(state.config.wellAssignments)) {
+      this.runProcessing();
+      return;
+    }
+
+    const replicaCount = state.config.replicaCount;
+    const sampleCount = countSampleSlots(
+      filterIgnoredRows(state.rawData),
+      replicaCount,
+      state.config.replicateLayout
+    );
+    const sampleNames = generateSampleNames(
+      sampleCount * replicaCount,
+      replicaCount
+    );
+
+    populateSampleList(sampleNames);
+    stateManager.setSamples(sampleNames);
+  }
+
+  /**
+   * Apply the plate map to the sample and control lists
+   */
+  private onPlateMapChanged(): void {
+    const state = stateManager.getState();
+    this.renderCurrentPlateMap();
+    renderRunOverlap(
+      findRunOverlap(state.runs),
+      findSamplesAcrossRuns(state.config.wellAssignments)
+    );
+
+    if (!hasWellAssignments(state.config.wellAssignments)) {
+      // Back to the free-text sample list
+      setSampleListsReadOnly(false);
+      populateControlList([]);
+      this.regenerateSampleNames();
+      return;
+    }
+
+    const { samples, controls } = deriveAssignedSamples(
+      state.config.wellAssignments,
+      state.runs.map((r) => r.id)
+    );
+
+    populateSampleList(samples);
+    populateControlList(controls);
+    setSampleListsReadOnly(true);
+    stateManager.clearValidationError("sampleList");
+    stateManager.clearValidationError("controlList");
+    stateManager.setSamplesAndControls(samples, controls);
+  }
+
+  /**
+   * Render the plate map for the current data and assignments
+   */
+  private renderCurrentPlateMap(): void {
+    const state = stateManager.getState();
+    if (!state.rawData) return;
+
+    renderPlateMap(
+      state.rawData,
+      state.availableGenes,
+      state.config.wellAssignments,
+      getPlateRun()
+    );
+  }
+
+  /**
+   * Handle plate map well assignment
+   */
+  private handleWellAssignment(
+    wellKeys: string[],
+    assignment: WellAssignment | null
+  ): void {
+    if (wellKeys.length === 0) return;
+    stateManager.assignWells(wellKeys, assignment);
   }
 
   /**
@@ -237,23 +900,54 @@ class App {
     stateManager.setReplicaCount(count);
 
     // Regenerate sample names
+    this.regenerateSampleNames();
+  }
+
+  /**
+   * Handle replicate layout change
+   */
+  private handleReplicateLayoutChange(): void {
+    stateManager.setReplicateLayout(getReplicateLayout());
+  }
+
+  /**
+   * Handle missing Cq policy or max cycle change
+   */
+  private handleMissingCqChange(): void {
+    stateManager.setMissingCqPolicy(getMissingCqPolicy(), getMaxCycle());
+  }
+
+  /**
+   * Handle outlier detection settings change
+   */
+  private handleOutlierOptionsChange(): void {
+    const { method, sdThreshold, autoExclude } = getOutlierOptions();
+    stateManager.setOutlierOptions(method, sdThreshold, autoExclude);
+  }
+
+  /**
+   * Recall Cq values from raw amplification curves with new settings
+   */
+  private handleCqCallingChange(): void {
     const state = stateManager.getState();
-    if (state.rawData && state.availableGenes.length > 0) {
-      const geneRowCount = state.rawData.rows.filter(
-        (r) => r["Name"] === state.availableGenes[0]
-      ).length;
-      const sampleNames = generateSampleNames(geneRowCount, count);
-      populateSampleList(sampleNames);
-      stateManager.setSamples(sampleNames);
-    }
+    const options = getCqCallingOptions();
+    if (!state.rawData) return;
+
+    stateManager.setCqCalling(
+      options.cqMethod,
+      options.cqThreshold,
+      options.baselineStart,
+      options.baselineEnd,
+      applyCqCalling(state.rawData, options)
+    );
   }
 
   /**
    * Handle housekeeper selection change
    */
-  private handleHousekeeperChange(geneName: string): void {
+  private handleHousekeeperChange(geneNames: string[]): void {
     const state = stateManager.getState();
-    const validation = validateHousekeeper(geneName, state.availableGenes);
+    const validation = validateHousekeepers(geneNames, state.availableGenes);
 
     if (!validation.isValid) {
       stateManager.setValidationErrors(validation.errors);
@@ -261,26 +955,65 @@ class App {
     }
 
     stateManager.clearValidationError("housekeeper");
-    stateManager.setHousekeeper(geneName);
+    stateManager.setHousekeepers(geneNames);
+  }
+
+  /**
+   * Use the top-ranked genes of the stability analysis as housekeepers
+   */
+  private handleUseTopReferences(): void {
+    const result = this.rankReferenceCandidates();
+    if (!result) return;
+
+    this.handleHousekeeperChange(
+      getStabilityRanking(result, getStabilityMethod()).slice(
+        0,
+        getStabilityTopCount()
+      )
+    );
+
+    const state = stateManager.getState();
+    renderHousekeeperPicker(state.availableGenes, state.config.housekeepers);
   }
 
   /**
    * Handle sample list change
    */
   private handleSampleListChange(): void {
-    const samples = getSampleList();
     const state = stateManager.getState();
 
     if (!state.rawData) return;
 
-    const geneRowCount = state.rawData.rows.filter(
-      (r) => r["Name"] === state.availableGenes[0]
-    ).length;
+    const { samples, sampleReplicates, invalidLines } =
+      parseSampleReplicates(getSampleList());
 
+    if (invalidLines.length > 0) {
+      stateManager.setValidationErrors([
+        {
+          field: "sampleList",
+          message: `Unreadable replicate counts: ${invalidLines.join(
+            "; "
+          )}. Use "Name | 2 | GENE:3".`,
+        },
+      ]);
+      return;
+    }
+
+    const geneRowCount = getMaxGeneRowCount(
+      state.rawData,
+      state.availableGenes
+    );
+
+    const hasOverrides = Object.keys(sampleReplicates).length > 0;
     const validation = validateSampleList(
       samples,
       geneRowCount,
-      state.config.replicaCount
+      state.config.replicaCount,
+      hasOverrides
+        ? samples.map(
+            (s) => sampleReplicates[s]?.count ?? state.config.replicaCount
+          )
+        : []
     );
 
     if (!validation.isValid) {
@@ -289,7 +1022,7 @@ class App {
     }
 
     stateManager.clearValidationError("sampleList");
-    stateManager.setSamples(samples);
+    stateManager.setSamples(samples, sampleReplicates);
   }
 
   /**
@@ -310,6 +1043,212 @@ class App {
     stateManager.setControls(controls);
   }
 
+  /**
+   * Handle an edit of the sample sheet, the grouping or the controls
+   */
+  private handleSampleSheetEdit(): void {
+    const sheet = getSampleSheet(stateManager.getState().config.sampleSheet);
+    const validation = validateSampleSheet(sheet.factors);
+
+    if (!validation.isValid) {
+      stateManager.setValidationErrors(validation.errors);
+      return;
+    }
+
+    stateManager.clearValidationError("sampleSheet");
+    this.applySampleSheet(sheet);
+  }
+
+  /**
+   * Add an empty factor column to the sample sheet
+   */
+  private handleAddFactor(): void {
+    const state = stateManager.getState();
+    const sheet = getSampleSheet(state.config.sampleSheet);
+
+    let n = sheet.factors.length + 1;
+    while (sheet.factors.includes(`Factor ${n}`)) n++;
+    sheet.factors.push(`Factor ${n}`);
+
+    renderSampleSheet(state.config.samples, sheet);
+    this.handleSampleSheetEdit();
+  }
+
+  /**
+   * Remove a factor column from the sample sheet
+   * @param index Factor column index
+   */
+  private handleRemoveFactor(index: number): void {
+    const state = stateManager.getState();
+    const sheet = getSampleSheet(state.config.sampleSheet);
+    sheet.factors.splice(index, 1);
+
+    renderSampleSheet(state.config.samples, sheet);
+    this.handleSampleSheetEdit();
+  }
+
+  /**
+   * Fill the sample sheet from a block pasted from a spreadsheet
+   * @param text Pasted text
+   * @param row Sample row the block was pasted into
+   * @param factor Factor column the block was pasted into
+   */
+  private handleSampleSheetPaste(
+    text: string,
+    row: number,
+    factor: number
+  ): void {
+    const state = stateManager.getState();
+    const sheet = applyPastedBlock(
+      getSampleSheet(state.config.sampleSheet),
+      state.config.samples,
+      splitPastedBlock(text),
+      row,
+      factor
+    );
+
+    renderSampleSheet(state.config.samples, sheet);
+    this.handleSampleSheetEdit();
+  }
+
+  /**
+   * Store the sample sheet with the grouping factors and control condition
+   * that still exist in it
+   * @param sheet Sample sheet
+   */
+  private applySampleSheet(sheet: SampleSheet): void {
+    const { samples } = stateManager.getState().config;
+    const controlCondition = getControlCondition();
+
+    stateManager.setSampleSheet(
+      sheet,
+      getGroupingFactors().filter((f) => sheet.factors.includes(f)),
+      controlCondition &&
+        samples.some(
+          (s) =>
+            sheet.levels[s]?.[controlCondition.factor] ===
+            controlCondition.level
+        )
+        ? controlCondition
+        : null
+    );
+  }
+
+  /**
+   * Render the grouping and control pickers, and show the controls taken
+   * from the sample sheet in the (then locked) control list
+   */
+  private renderSampleSheetOptions(): void {
+    const { config } = stateManager.getState();
+    renderSampleSheetOptions(
+      config.sampleSheet,
+      config.samples,
+      config.groupingFactors,
+      config.controlCondition
+    );
+
+    if (config.controlCondition) {
+      populateControlList(config.controls);
+      stateManager.clearValidationError("controlList");
+      setControlListFromSheet(true);
+    } else if (!hasWellAssignments(config.wellAssignments)) {
+      setControlListFromSheet(false);
+    }
+  }
+
+  /**
+   * Handle inter-run calibrator list change
+   */
+  private handleCalibratorListChange(): void {
+    const calibrators = getCalibratorList();
+    const state = stateManager.getState();
+
+    const validation = validateCalibratorList(
+      calibrators,
+      state.config.samples
+    );
+
+    if (!validation.isValid) {
+      stateManager.setValidationErrors(validation.errors);
+      return;
+    }
+
+    stateManager.clearValidationError("calibratorList");
+    stateManager.setCalibrators(calibrators);
+  }
+
+  /**
+   * Handle standard list change
+   */
+  private handleStandardListChange(): void {
+    const lines = getStandardList();
+    const validation = validateStandardList(
+      lines,
+      stateManager.getState().config.samples
+    );
+
+    if (!validation.isValid) {
+      stateManager.setValidationErrors(validation.errors);
+      return;
+    }
+
+    stateManager.clearValidationError("standardList");
+    stateManager.setStandards(parseStandardList(lines).standards);
+  }
+
+  /**
+   * Fill the standard list with the samples whose names are quantities
+   */
+  private handleStandardsFromSamples(): void {
+    const { samples } = stateManager.getState().config;
+    populateStandardList(samples.filter((s) => !isNaN(parseQuantity(s))));
+    this.handleStandardListChange();
+  }
+
+  /**
+   * Handle quantification method or efficiency list change
+   */
+  private handleQuantificationChange(): void {
+    const { method, efficiencyLines } = getQuantificationOptions();
+    const validation = validateEfficiencyList(
+      efficiencyLines,
+      stateManager.getState().availableGenes
+    );
+
+    if (!validation.isValid) {
+      stateManager.setValidationErrors(validation.errors);
+      return;
+    }
+
+    stateManager.clearValidationError("efficiencyList");
+    stateManager.setQuantification(
+      method,
+      parseEfficiencyList(efficiencyLines).efficiencies
+    );
+  }
+
+  /**
+   * Fill the efficiency list with the efficiencies of the standard curves
+   */
+  private handleEfficienciesFromStandards(): void {
+    const curves = this.fitCurrentStandardCurves();
+    if (curves.length === 0) {
+      stateManager.setValidationErrors([
+        {
+          field: "efficiencyList",
+          message:
+            "No standard curves: enter standards with three or more dilution levels.",
+        },
+      ]);
+      return;
+    }
+
+    populateEfficiencyList(
+      curves.map((c) => `${c.geneName} | ${(c.efficiency * 100).toFixed(1)}%`)
+    );
+    this.handleQuantificationChange();
+  }
+
   /**
    * Handle tab change in processing section
    */
@@ -322,31 +1261,33 @@ class App {
    */
   private runProcessing(): void {
     const state = stateManager.getState();
+    this.updateStandardCurves();
+    this.updateReferenceStability();
 
     if (
       !state.rawData ||
-      !state.config.housekeeper ||
+      state.config.housekeepers.length === 0 ||
       state.config.samples.length === 0
     ) {
       clearProcessingSection();
       clearOutputSection();
+      renderCalibratorWarning([]);
       return;
     }
 
     try {
       // Build gene data with replica groups
-      const geneDataMap = buildGeneDataWithGroups(
-        state.rawData,
-        state.config.replicaCount,
-        state.config.samples
-      );
+      const geneDataMap = buildGeneDataWithGroups(state.rawData, state.config);
 
       stateManager.setGeneDataMap(geneDataMap);
+      renderCalibratorWarning(
+        findUncalibratedGenes(geneDataMap, state.config.calibrators)
+      );
 
       // Process all target genes
       const results = processAllGenes(
         geneDataMap,
-        state.config.housekeeper,
+        state.config.housekeepers,
         state.config
       );
 
@@ -360,6 +1301,118 @@ class App {
     }
   }
 
+  /**
+   * Fit and render the standard curves. They only need the sample list,
+   * not a housekeeper, so they are fitted outside the ΔΔCt processing.
+   */
+  private updateStandardCurves(): void {
+    try {
+      const curves = this.fitCurrentStandardCurves();
+      renderStandardCurves(curves);
+      renderAbsoluteQuantification(this.quantifyUnknowns(curves));
+    } catch (error) {
+      console.error("Standard curve error:", error);
+      renderStandardCurves([]);
+      renderAbsoluteQuantification([]);
+    }
+  }
+
+  /**
+   * Interpolate the copy numbers of the samples that are not standards
+   * @param curves Standard curves of the current data
+   * @returns Absolute quantification, empty without standard curves
+   */
+  private quantifyUnknowns(
+    curves: StandardCurveResult[]
+  ): AbsoluteQuantificationResult[] {
+    const state = stateManager.getState();
+    if (!state.rawData || curves.length === 0) return [];
+
+    return quantifyAllGenes(
+      buildGeneDataWithGroups(state.rawData, state.config),
+      curves,
+      state.config.standards,
+      state.config.templateVolume
+    );
+  }
+
+  /**
+   * Export the copy numbers of all genes as a tab-separated file
+   */
+  private handleAbsoluteExport(): void {
+    const state = stateManager.getState();
+    const results = this.quantifyUnknowns(this.fitCurrentStandardCurves());
+    if (results.length === 0) {
+      showError(
+        "output-error",
+        "No standard curves: enter standards with three or more dilution levels."
+      );
+      return;
+    }
+
+    const filename = `${
+      state.rawData?.title || "txt2gp"
+    } copy numbers.tsv`.replace(/[\\/:*?"<>|]/g, "_");
+
+    clearError("output-error");
+    downloadFile(
+      formatAbsoluteQuantitiesAsTsv(results),
+      filename,
+      "text/tab-separated-values"
+    );
+  }
+
+  /**
+   * Fit the standard curves of the current data and standard list
+   * @returns Standard curves, empty without data or standards
+   */
+  private fitCurrentStandardCurves(): StandardCurveResult[] {
+    const state = stateManager.getState();
+
+    if (
+      !state.rawData ||
+      state.config.samples.length === 0 ||
+      Object.keys(state.config.standards).length === 0
+    ) {
+      return [];
+    }
+
+    const geneDataMap = buildGeneDataWithGroups(state.rawData, state.config);
+    return fitStandardCurves(geneDataMap, state.config.standards);
+  }
+
+  /**
+   * Rank the candidate reference genes and render the result. Like the
+   * standard curves this does not need a housekeeper.
+   */
+  private updateReferenceStability(): void {
+    try {
+      renderReferenceStability(this.rankReferenceCandidates());
+    } catch (error) {
+      console.error("Reference stability error:", error);
+      renderReferenceStability(null);
+    }
+  }
+
+  /**
+   * Rank the checked candidate genes with geNorm, NormFinder and BestKeeper.
+   * NormFinder compares the conditions of the sample sheet.
+   * @returns Stability analysis, or null without data or enough candidates
+   */
+  private rankReferenceCandidates(): ReferenceStabilityResult | null {
+    const state = stateManager.getState();
+    if (!state.rawData || state.config.samples.length === 0) return null;
+
+    const geneDataMap = calibrateAllGenes(
+      buildGeneDataWithGroups(state.rawData, state.config),
+      state.config.calibrators
+    );
+    return analyzeReferenceStability(
+      buildCandidateMatrix(geneDataMap, getStabilityCandidates(), state.config),
+      getSampleConditions(state.config)
+    );
+  }
+
   /**
    * Run output/normalization calculations
    */
@@ -378,7 +1431,12 @@ class App {
       const outputs = generateAllOutputs(
         state.processingResults,
         state.config.controls,
-        state.config.samples
+        state.config.samples,
+        state.config.groupingFactors.length > 0
+          ? groupSamplesByCondition(state.config)
+          : [],
+        state.config.significanceTest,
+        state.config.multipleTestingCorrection
       );
 
       stateManager.setOutputResults(outputs);
@@ -391,6 +1449,52 @@ class App {
     }
   }
 
+  /**
+   * Render the group comparisons of all genes in the picked order
+   */
+  private renderCrossGeneSummary(): void {
+    const state = stateManager.getState();
+    renderSignificanceSummary(
+      sortSignificanceSummary(
+        buildSignificanceSummary(state.outputResults),
+        getSignificanceSortKey()
+      )
+    );
+  }
+
+  /**
+   * Export the loaded data with sample and reference gene annotations as RDML
+   */
+  private handleRdmlExport(): void {
+    const state = stateManager.getState();
+    if (!state.rawData) {
+      showError("output-error", "Load a data file before exporting RDML");
+      return;
+    }
+
+    try {
+      const geneDataMap = buildGeneDataWithGroups(state.rawData, state.config);
+      const archive = buildRdmlArchive(
+        state.rawData,
+        geneDataMap,
+        state.config
+      );
+      const filename = `${state.rawData.title || "txt2gp"}.rdml`.replace(
+        /[\\/:*?"<>|]/g,
+        "_"
+      );
+
+      clearError("output-error");
+      downloadFile(archive, filename, "application/zip");
+    } catch (error) {
+      console.error("RDML export error:", error);
+      showError(
+        "output-error",
+        error instanceof Error ? error.message : "RDML export failed"
+      );
+    }
+  }
+
   /**
    * Display validation errors in UI
    */
@@ -411,13 +1515,14 @@ class App {
     func: T,
     wait: number
   ): (...args: Parameters<T>) => void {
+    let timer: number | null = null;
     return (...args: Parameters<T>) => {
-      if (this.debounceTimer !== null) {
-        window.clearTimeout(this.debounceTimer);
+      if (timer !== null) {
+        window.clearTimeout(timer);
       }
-      this.debounceTimer = window.setTimeout(() => {
+      timer = window.setTimeout(() => {
         func.apply(this, args);
-        this.debounceTimer = null;
+        timer = null;
       }, wait);
     };
   }
@@ -3,8 +3,11 @@
  * Manages file upload and reading operations
  */
 
-import { ParsedTsvData } from "../../types";
-import { parseTsv, validateTsvData } from "./tsv-parser";
+import { MeltCurve, ParsedTsvData } from "../../types";
+import { isZipArchive, readZipEntries } from "../../utils/zip";
+import { detectImporter, getSupportedExtensions } from "./importers";
+import { parseMeltCurves } from "./melt-parser";
+import { validateTsvData } from "./tsv-parser";
 
 /**
  * Result of file processing
@@ -14,6 +17,17 @@ export interface FileProcessingResult {
   data?: ParsedTsvData;
   error?: string;
   filename?: string;
+  formatLabel?: string;
+}
+
+/**
+ * Result of reading a melt curve file
+ */
+export interface MeltFileResult {
+  success: boolean;
+  curves?: Record<string, MeltCurve>; // Keyed by well position
+  error?: string;
+  filename?: string;
 }
 
 /**
@@ -27,15 +41,25 @@ export async function processFile(file: File): Promise<FileProcessingResult> {
     if (!isValidFileType(file)) {
       return {
         success: false,
-        error: "Invalid file type. Please select a .txt or .tsv file.",
+        error: `Invalid file type. Please select a ${getSupportedExtensions().join(
+          ", "
+        )} file.`,
       };
     }
 
     // Read file content
     const content = await readFileContent(file);
 
-    // Parse TSV
-    const parsedData = parseTsv(content);
+    // Pick the instrument format adapter by sniffing the content
+    const importer = detectImporter(content, file.name);
+    if (!importer) {
+      return {
+        success: false,
+        error: "Unrecognised file format. No instrument importer matched.",
+      };
+    }
+
+    const parsedData = importer.parse(content, file.name);
 
     // Validate parsed data
     const validation = validateTsvData(parsedData);
@@ -50,6 +74,7 @@ export async function processFile(file: File): Promise<FileProcessingResult> {
     return {
       success: true,
       data: parsedData,
+      formatLabel: importer.label,
     };
   } catch (error) {
     return {
@@ -63,17 +88,67 @@ export async function processFile(file: File): Promise<FileProcessingResult> {
 }
 
 /**
- * Read file content as text
+ * Read and parse a melt curve file
+ * @param file File object from file input
+ * @returns Promise resolving to the melt curves
+ */
+export async function processMeltFile(file: File): Promise<MeltFileResult> {
+  try {
+    const content = await readFileContent(file);
+    return {
+      success: true,
+      curves: parseMeltCurves(content),
+      filename: file.name,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Unknown error processing melt curve file",
+      filename: file.name,
+    };
+  }
+}
+
+/**
+ * Read file content as text, unpacking zipped formats such as RDML
  * @param file File object
  * @returns Promise resolving to file content string
  */
-function readFileContent(file: File): Promise<string> {
+async function readFileContent(file: File): Promise<string> {
+  const buffer = await readFileBuffer(file);
+
+  if (!isZipArchive(buffer)) {
+    return new TextDecoder().decode(buffer);
+  }
+
+  // RDML archives hold their data in rdml_data.xml
+  const entries = await readZipEntries(buffer);
+  const entry =
+    entries.find((e) => e.name === "rdml_data.xml") ??
+    entries.find((e) => e.name.toLowerCase().endsWith(".xml"));
+
+  if (!entry) {
+    throw new Error("Archive does not contain an XML data file");
+  }
+
+  return new TextDecoder().decode(entry.data);
+}
+
+/**
+ * Read raw file content
+ * @param file File object
+ * @returns Promise resolving to file content bytes
+ */
+function readFileBuffer(file: File): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
     reader.onload = (event) => {
       const content = event.target?.result;
-      if (typeof content === "string") {
+      if (content instanceof ArrayBuffer) {
         resolve(content);
       } else {
         reject(new Error("Failed to read file content"));
@@ -84,7 +159,7 @@ function readFileContent(file: File): Promise<string> {
       reject(new Error("Error reading file"));
     };
 
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
 }
 
@@ -94,7 +169,7 @@ function readFileContent(file: File): Promise<string> {
  * @returns Whether file type is acceptable
  */
 function isValidFileType(file: File): boolean {
-  const validExtensions = [".txt", ".tsv"];
+  const validExtensions = getSupportedExtensions();
   const fileName = file.name.toLowerCase();
 
   return validExtensions.some((ext) => fileName.endsWith(ext));
@@ -121,6 +196,55 @@ export function setupFileInput(
   });
 }
 
+/**
+ * Setup a file input that accepts several files at once
+ * @param fileInput File input element (with the multiple attribute)
+ * @param onFilesProcessed Callback with one result per file, in order
+ */
+export function setupMultiFileInput(
+  fileInput: HTMLInputElement,
+  onFilesProcessed: (results: FileProcessingResult[]) => void
+): void {
+  fileInput.addEventListener("change", async (event) => {
+    const target = event.target as HTMLInputElement;
+    const files = Array.from(target.files ?? []);
+
+    if (files.length > 0) {
+      const results: FileProcessingResult[] = [];
+      for (const file of files) {
+        const result = await processFile(file);
+        result.filename = file.name;
+        results.push(result);
+      }
+
+      // Allow the same file to be added again later
+      target.value = "";
+      onFilesProcessed(results);
+    }
+  });
+}
+
+/**
+ * Setup a file input for melt curve exports
+ * @param fileInput File input element
+ * @param onMeltProcessed Callback when the file is read
+ */
+export function setupMeltFileInput(
+  fileInput: HTMLInputElement,
+  onMeltProcessed: (result: MeltFileResult) => void
+): void {
+  fileInput.addEventListener("change", async (event) => {
+    const target = event.target as HTMLInputElement;
+    const file = target.files?.[0];
+
+    if (file) {
+      const result = await processMeltFile(file);
+      target.value = "";
+      onMeltProcessed(result);
+    }
+  });
+}
+
 /**
  * Trigger file input click
  * @param fileInput File input element
@@ -0,0 +1,173 @@
+/**
+ * Raw Amplification Importer
+ * Fluorescence per cycle per well, either as a matrix (one row per well,
+ * one column per cycle) or as a long table (one row per well and cycle,
+ * e.g. the LightCycler 480 chart data export)
+ */
+
+import { AmplificationCurve, WellRecord } from "../../../types";
+import {
+  findColumn,
+  normalizeWellPosition,
+  splitDelimitedLine,
+  splitLines,
+  titleFromFilename,
+  wellsToParsedData,
+} from "./common";
+import { InstrumentImporter } from "./registry";
+
+const WELL_COLUMNS = ["SamplePos", "Pos", "Well", "Position"];
+const NAME_COLUMNS = ["Name", "Target", "Gene"];
+const SAMPLE_COLUMNS = ["Sample", "SampleName", "Sample Name"];
+const CYCLE_COLUMNS = ["Cycle", "Cycle#", "Cycle Number"];
+const FLUORESCENCE_COLUMNS = ["Fluorescence", "Fluor", "RFU", "Rn"];
+const CQ_COLUMNS = ["Cp", "Cq", "Ct", "CT"];
+
+/** Minimum number of cycles for a curve to be usable */
+const MIN_CYCLES = 5;
+
+/**
+ * Header layout of a raw amplification file
+ */
+interface AmplificationHeader {
+  index: number;
+  delimiter: string;
+  headers: string[];
+  wellCol: number;
+  cycleCol: number; // Long layout only, -1 for the matrix layout
+  cycleColumns: { col: number; cycle: number }[]; // Matrix layout only
+}
+
+/**
+ * Read a cycle number from a matrix column header ("12", "Cycle 12")
+ * @param header Column header
+ * @returns Cycle number or NaN
+ */
+function parseCycleHeader(header: string): number {
+  const match = /^(?:cycle\s*)?(\d+)$/i.exec(header.trim());
+  return match ? parseInt(match[1], 10) : NaN;
+}
+
+/**
+ * Find the header row of a raw amplification file
+ * @param lines Lines of the file
+ * @returns Header layout or null if the file has no curves
+ */
+function findAmplificationHeader(lines: string[]): AmplificationHeader | null {
+  for (let index = 0; index < Math.min(lines.length, 50); index++) {
+    for (const delimiter of ["\t", ",", ";"]) {
+      const headers = splitDelimitedLine(lines[index], delimiter);
+      const wellCol = findColumn(headers, WELL_COLUMNS);
+      if (wellCol === -1 || findColumn(headers, CQ_COLUMNS) !== -1) continue;
+
+      const cycleCol = findColumn(headers, CYCLE_COLUMNS);
+      if (cycleCol !== -1) {
+        return {
+          index,
+          delimiter,
+          headers,
+          wellCol,
+          cycleCol,
+          cycleColumns: [],
+        };
+      }
+
+      const cycleColumns = headers
+        .map((h, col) => ({ col, cycle: parseCycleHeader(h) }))
+        .filter((c) => !isNaN(c.cycle));
+      if (cycleColumns.length >= MIN_CYCLES) {
+        return { index, delimiter, headers, wellCol, cycleCol, cycleColumns };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pick the fluorescence column of a long table: a known name, otherwise
+ * the last column
+ * @param headers Header row
+ * @returns Column index
+ */
+function findFluorescenceColumn(headers: string[]): number {
+  const known = findColumn(headers, FLUORESCENCE_COLUMNS);
+  return known !== -1 ? known : headers.length - 1;
+}
+
+/**
+ * Raw amplification curves. Cq values are called after import, with the
+ * method chosen in the amplification settings.
+ */
+export const amplificationImporter: InstrumentImporter = {
+  id: "amplification",
+  label: "Raw amplification curves",
+  extensions: [".txt", ".tsv", ".csv"],
+  sniff: (content) => findAmplificationHeader(splitLines(content)) !== null,
+  parse: (content, filename) => {
+    const lines = splitLines(content);
+    const header = findAmplificationHeader(lines);
+
+    if (!header) {
+      throw new Error(
+        "Invalid amplification file: missing well and cycle columns"
+      );
+    }
+
+    const { headers, delimiter, wellCol, cycleCol } = header;
+    const nameCol = findColumn(headers, NAME_COLUMNS);
+    const sampleCol = findColumn(headers, SAMPLE_COLUMNS);
+    const fluorescenceCol = findFluorescenceColumn(headers);
+
+    const wells: WellRecord[] = [];
+    const points = new Map<string, { cycle: number; value: number }[]>();
+
+    for (let i = header.index + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+
+      const fields = splitDelimitedLine(lines[i], delimiter);
+      const rawPosition = fields[wellCol] ?? "";
+      if (!rawPosition) continue;
+
+      const position = normalizeWellPosition(rawPosition);
+      if (!points.has(position)) {
+        points.set(position, []);
+        wells.push({
+          position,
+          name: nameCol !== -1 ? (fields[nameCol] ?? "") : "",
+          sample: sampleCol !== -1 ? (fields[sampleCol] ?? "") : "",
+          cq: "",
+          status: "",
+        });
+      }
+
+      const wellPoints = points.get(position)!;
+      if (cycleCol !== -1) {
+        const cycle = parseFloat(fields[cycleCol]);
+        const value = parseFloat(fields[fluorescenceCol]);
+        if (!isNaN(cycle) && !isNaN(value)) wellPoints.push({ cycle, value });
+      } else {
+        for (const { col, cycle } of header.cycleColumns) {
+          const value = parseFloat(fields[col]);
+          if (!isNaN(value)) wellPoints.push({ cycle, value });
+        }
+      }
+    }
+
+    const amplification: Record<string, AmplificationCurve> = {};
+    for (const [position, wellPoints] of points) {
+      if (wellPoints.length < MIN_CYCLES) continue;
+
+      wellPoints.sort((a, b) => a.cycle - b.cycle);
+      amplification[position] = {
+        cycles: wellPoints.map((p) => p.cycle),
+        fluorescence: wellPoints.map((p) => p.value),
+      };
+    }
+
+    return {
+      ...wellsToParsedData(titleFromFilename(filename), "amplification", wells),
+      amplification,
+    };
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Bio-Rad CFX Importer
+ * "Quantification Cq Results" CSV export from CFX Manager / Maestro
+ */
+
+import { WellRecord } from "../../../types";
+import {
+  findColumn,
+  findHeaderLine,
+  normalizeWellPosition,
+  splitDelimitedLine,
+  splitLines,
+  titleFromFilename,
+  wellsToParsedData,
+} from "./common";
+import { InstrumentImporter } from "./registry";
+
+const REQUIRED_COLUMNS = ["Well", "Target", "Cq"];
+
+/**
+ * Bio-Rad CFX Cq results export
+ */
+export const cfxImporter: InstrumentImporter = {
+  id: "cfx",
+  label: "Bio-Rad CFX",
+  extensions: [".csv", ".txt", ".tsv"],
+  sniff: (content) =>
+    findHeaderLine(splitLines(content), REQUIRED_COLUMNS) !== null,
+  parse: (content, filename) => {
+    const lines = splitLines(content);
+    const header = findHeaderLine(lines, REQUIRED_COLUMNS);
+
+    if (!header) {
+      throw new Error("Invalid CFX file: missing Well/Target/Cq header");
+    }
+
+    const headers = splitDelimitedLine(lines[header.index], header.delimiter);
+    const wellCol = findColumn(headers, ["Well"]);
+    const targetCol = findColumn(headers, ["Target"]);
+    const sampleCol = findColumn(headers, ["Sample"]);
+    const cqCol = findColumn(headers, ["Cq"]);
+
+    const wells: WellRecord[] = [];
+
+    for (let i = header.index + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+
+      const fields = splitDelimitedLine(lines[i], header.delimiter);
+      const position = fields[wellCol] ?? "";
+      if (!position) continue;
+
+      const cq = fields[cqCol] ?? "";
+
+      wells.push({
+        position: normalizeWellPosition(position),
+        name: fields[targetCol] ?? "",
+        sample: sampleCol !== -1 ? (fields[sampleCol] ?? "") : "",
+        cq: cq.toLowerCase() === "nan" ? "" : cq,
+        status: "",
+      });
+    }
+
+    return wellsToParsedData(titleFromFilename(filename), "cfx", wells);
+  },
+};
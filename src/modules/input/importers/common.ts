@@ -0,0 +1,178 @@
+/**
+ * Importer Helpers
+ * Shared utilities for turning instrument exports into the common well model
+ */
+
+import { ParsedTsvData, RawDataRow, WellRecord } from "../../../types";
+
+/**
+ * Canonical column names every importer maps its wells onto.
+ * These match the LightCycler export the rest of the app was built around.
+ */
+export const CANONICAL_COLUMNS = {
+  position: "Pos",
+  name: "Name",
+  sample: "Sample",
+  cq: "Cp",
+  status: "Status",
+} as const;
+
+/**
+ * Split content into lines, dropping a trailing byte order mark
+ * @param content Raw file content
+ * @returns Array of lines
+ */
+export function splitLines(content: string): string[] {
+  return content.replace(/^\uFEFF/, "").split(/\r?\n/);
+}
+
+/**
+ * Split a delimited line into fields, honouring double-quoted values
+ * @param line Line of text
+ * @param delimiter Field delimiter
+ * @returns Array of trimmed field values
+ */
+export function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Find the first line whose fields contain all required column names
+ * @param lines Lines of the file
+ * @param required Column names that must all be present (case-insensitive)
+ * @param delimiters Delimiters to try, in order
+ * @returns Line index and delimiter, or null if not found
+ */
+export function findHeaderLine(
+  lines: string[],
+  required: string[],
+  delimiters: string[] = [",", ";", "\t"]
+): { index: number; delimiter: string } | null {
+  const wanted = required.map((r) => r.toLowerCase());
+
+  for (let i = 0; i < lines.length; i++) {
+    for (const delimiter of delimiters) {
+      const fields = splitDelimitedLine(lines[i], delimiter).map((f) =>
+        f.toLowerCase()
+      );
+      if (wanted.every((w) => fields.includes(w))) {
+        return { index: i, delimiter };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a column by any of its known names (case-insensitive)
+ * @param headers Header row
+ * @param candidates Possible column names, in priority order
+ * @returns Column index or -1
+ */
+export function findColumn(headers: string[], candidates: string[]): number {
+  const lower = headers.map((h) => h.toLowerCase());
+
+  for (const candidate of candidates) {
+    const index = lower.indexOf(candidate.toLowerCase());
+    if (index !== -1) return index;
+  }
+
+  return -1;
+}
+
+/**
+ * Normalise a well position ("a01" -> "A1"); other values are returned trimmed
+ * @param raw Position as exported
+ * @returns Normalised position
+ */
+export function normalizeWellPosition(raw: string): string {
+  const trimmed = raw.trim();
+  const match = /^([A-Za-z]{1,2})0*(\d+)$/.exec(trimmed);
+  if (!match) return trimmed;
+
+  return `${match[1].toUpperCase()}${match[2]}`;
+}
+
+/**
+ * Convert a 1-based well number to a position using row-major numbering
+ * @param wellNumber Well number (1 = A1)
+ * @param columns Number of plate columns
+ * @returns Well position
+ */
+export function wellNumberToPosition(
+  wellNumber: number,
+  columns: number
+): string {
+  const rowIndex = Math.floor((wellNumber - 1) / columns);
+  const column = ((wellNumber - 1) % columns) + 1;
+
+  return `${String.fromCharCode(65 + rowIndex)}${column}`;
+}
+
+/**
+ * Build parsed data in the canonical column layout from well records
+ * @param title Data title
+ * @param format Importer id
+ * @param wells Well records
+ * @returns Parsed data
+ */
+export function wellsToParsedData(
+  title: string,
+  format: string,
+  wells: WellRecord[]
+): ParsedTsvData {
+  const hasSamples = wells.some((w) => w.sample !== "");
+
+  const headers: string[] = [
+    CANONICAL_COLUMNS.position,
+    CANONICAL_COLUMNS.name,
+  ];
+  if (hasSamples) headers.push(CANONICAL_COLUMNS.sample);
+  headers.push(CANONICAL_COLUMNS.cq, CANONICAL_COLUMNS.status);
+
+  const rows: RawDataRow[] = wells.map((well) => {
+    const row: RawDataRow = {
+      [CANONICAL_COLUMNS.position]: well.position,
+      [CANONICAL_COLUMNS.name]: well.name,
+      [CANONICAL_COLUMNS.cq]: well.cq,
+      [CANONICAL_COLUMNS.status]: well.status,
+    };
+    if (hasSamples) row[CANONICAL_COLUMNS.sample] = well.sample;
+    return row;
+  });
+
+  return { title, headers, rows, format };
+}
+
+/**
+ * Derive a title from a file name by stripping its extension
+ * @param filename File name
+ * @returns Title
+ */
+export function titleFromFilename(filename: string): string {
+  return filename.replace(/\.[^.]+$/, "");
+}
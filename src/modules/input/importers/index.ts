@@ -0,0 +1,32 @@
+/**
+ * Instrument Importers - Public API
+ * Registers the built-in format adapters and re-exports the registry
+ */
+
+import { amplificationImporter } from "./amplification";
+import { cfxImporter } from "./cfx";
+import { lightCyclerImporter } from "./lightcycler";
+import { quantStudioImporter } from "./quantstudio";
+import { rdmlImporter } from "./rdml";
+import { registerImporter } from "./registry";
+import { rotorGeneImporter } from "./rotor-gene";
+
+// Most specific formats first; the LightCycler layout is the generic fallback
+registerImporter(rdmlImporter);
+registerImporter(quantStudioImporter);
+registerImporter(cfxImporter);
+registerImporter(rotorGeneImporter);
+registerImporter(amplificationImporter);
+registerImporter(lightCyclerImporter, true);
+
+export * from "./common";
+export * from "./registry";
+export { RDML_CONTROL_PROPERTY } from "./rdml";
+export {
+  amplificationImporter,
+  cfxImporter,
+  lightCyclerImporter,
+  quantStudioImporter,
+  rdmlImporter,
+  rotorGeneImporter,
+};
@@ -0,0 +1,22 @@
+/**
+ * LightCycler Importer
+ * Tab-separated export with a title line followed by a Name/Cp header row
+ */
+
+import { parseTsv } from "../tsv-parser";
+import { splitLines } from "./common";
+import { InstrumentImporter } from "./registry";
+
+/**
+ * LightCycler "Abs Quant" text export
+ */
+export const lightCyclerImporter: InstrumentImporter = {
+  id: "lightcycler",
+  label: "LightCycler",
+  extensions: [".txt", ".tsv"],
+  sniff: (content) => {
+    const headerLine = splitLines(content.trim())[1] ?? "";
+    return headerLine.split("\t").some((h) => h.trim() === "Name");
+  },
+  parse: (content) => parseTsv(content),
+};
@@ -0,0 +1,128 @@
+/**
+ * QuantStudio / 7500 Importer
+ * Applied Biosystems text export with "* key = value" metadata and a [Results] section
+ */
+
+import { WellRecord } from "../../../types";
+import {
+  findColumn,
+  normalizeWellPosition,
+  splitDelimitedLine,
+  splitLines,
+  titleFromFilename,
+  wellNumberToPosition,
+  wellsToParsedData,
+} from "./common";
+import { InstrumentImporter } from "./registry";
+
+/**
+ * Per-well QC flag columns; a "Y" value is reported as a status message
+ */
+const FLAG_COLUMNS = [
+  "AMPNC",
+  "BADROX",
+  "CQCONF",
+  "EXPFAIL",
+  "HIGHSD",
+  "MAXCT",
+  "NOAMP",
+  "NOISE",
+  "OUTLIERRG",
+  "SPIKE",
+  "THOLDFAIL",
+];
+
+/**
+ * Applied Biosystems QuantStudio / 7500 results export
+ */
+export const quantStudioImporter: InstrumentImporter = {
+  id: "quantstudio",
+  label: "QuantStudio / 7500",
+  extensions: [".txt", ".tsv", ".csv"],
+  sniff: (content) => /^\[Results\]\s*$/m.test(content),
+  parse: (content, filename) => {
+    const lines = splitLines(content);
+
+    // Metadata lines look like "* Experiment Name = My Run"
+    let title = titleFromFilename(filename);
+    let plateColumns = 12;
+
+    for (const line of lines) {
+      const meta = /^\*\s*(.+?)\s*=\s*(.*)$/.exec(line);
+      if (!meta) continue;
+
+      if (meta[1] === "Experiment Name" && meta[2].trim()) {
+        title = meta[2].trim();
+      } else if (meta[1] === "Block Type" && meta[2].includes("384")) {
+        plateColumns = 24;
+      }
+    }
+
+    const sectionIndex = lines.findIndex((l) => l.trim() === "[Results]");
+    const headerIndex = lines.findIndex(
+      (l, i) => i > sectionIndex && l.trim() !== ""
+    );
+
+    if (sectionIndex === -1 || headerIndex === -1) {
+      throw new Error("Invalid QuantStudio file: empty [Results] section");
+    }
+
+    const delimiter = lines[headerIndex].includes("\t") ? "\t" : ",";
+    const headers = splitDelimitedLine(lines[headerIndex], delimiter);
+    const positionCol = findColumn(headers, ["Well Position"]);
+    const wellCol = findColumn(headers, ["Well"]);
+    const targetCol = findColumn(headers, [
+      "Target Name",
+      "Detector Name",
+      "Detector",
+    ]);
+    const sampleCol = findColumn(headers, ["Sample Name"]);
+    const cqCol = findColumn(headers, ["CT", "Cт", "Cq", "Ct"]);
+    const omitCol = findColumn(headers, ["Omit"]);
+    const flagCols = FLAG_COLUMNS.map((f) => findColumn(headers, [f]));
+
+    if (targetCol === -1 || cqCol === -1) {
+      throw new Error(
+        "Invalid QuantStudio file: missing Target Name or CT column"
+      );
+    }
+
+    const wells: WellRecord[] = [];
+
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+      const line = lines[i];
+      if (!line.trim()) break; // Section ends at the first blank line
+      if (line.startsWith("[")) break;
+
+      const fields = splitDelimitedLine(line, delimiter);
+
+      let position = positionCol !== -1 ? (fields[positionCol] ?? "") : "";
+      if (!position && wellCol !== -1) {
+        const wellNumber = parseInt(fields[wellCol], 10);
+        position = isNaN(wellNumber)
+          ? (fields[wellCol] ?? "")
+          : wellNumberToPosition(wellNumber, plateColumns);
+      }
+
+      const status: string[] = [];
+      if (omitCol !== -1 && fields[omitCol]?.toLowerCase() === "true") {
+        status.push("Omitted");
+      }
+      flagCols.forEach((col, f) => {
+        if (col !== -1 && fields[col]?.toUpperCase() === "Y") {
+          status.push(FLAG_COLUMNS[f]);
+        }
+      });
+
+      wells.push({
+        position: normalizeWellPosition(position),
+        name: fields[targetCol] ?? "",
+        sample: sampleCol !== -1 ? (fields[sampleCol] ?? "") : "",
+        cq: fields[cqCol] ?? "",
+        status: status.join(", "),
+      });
+    }
+
+    return wellsToParsedData(title, "quantstudio", wells);
+  },
+};
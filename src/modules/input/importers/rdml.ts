@@ -0,0 +1,143 @@
+/**
+ * RDML Importer
+ * Real-time PCR Data Markup Language (MIQE interchange format), version 1.x
+ */
+
+import { RawDataRow, WellRecord } from "../../../types";
+import { RUN_COLUMN } from "../run-merger";
+import {
+  titleFromFilename,
+  wellNumberToPosition,
+  wellsToParsedData,
+} from "./common";
+import { InstrumentImporter } from "./registry";
+
+/**
+ * Sample annotation property used to mark control samples
+ */
+export const RDML_CONTROL_PROPERTY = "txt2gp:control";
+
+/**
+ * Get direct child elements by local name (RDML uses a default namespace)
+ * @param parent Parent element
+ * @param name Local element name
+ * @returns Matching child elements
+ */
+function children(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((c) => c.localName === name);
+}
+
+/**
+ * Get the text of the first direct child element with a local name
+ * @param parent Parent element
+ * @param name Local element name
+ * @returns Trimmed text or empty string
+ */
+function childText(parent: Element, name: string): string {
+  return children(parent, name)[0]?.textContent?.trim() ?? "";
+}
+
+/**
+ * Convert an RDML react id to a well position
+ * @param reactId 1-based reaction id
+ * @param run Run element (for the plate format)
+ * @returns Well position
+ */
+function reactIdToPosition(reactId: string, run: Element): string {
+  const format = children(run, "pcrFormat")[0];
+  const columns = format ? parseInt(childText(format, "columns"), 10) : 12;
+  const rowLabel = format ? childText(format, "rowLabel") : "ABC";
+  const wellNumber = parseInt(reactId, 10);
+
+  // Rotor formats (1 row, numbered) and non-numeric ids stay as they are
+  if (isNaN(wellNumber) || rowLabel !== "ABC" || !(columns > 0)) {
+    return reactId;
+  }
+
+  return wellNumberToPosition(wellNumber, columns);
+}
+
+/**
+ * RDML data file (the XML inside a .rdml archive)
+ */
+export const rdmlImporter: InstrumentImporter = {
+  id: "rdml",
+  label: "RDML",
+  extensions: [".rdml", ".xml"],
+  sniff: (content) => /<rdml[\s>]/.test(content),
+  parse: (content, filename) => {
+    const doc = new DOMParser().parseFromString(content, "application/xml");
+    const root = doc.documentElement;
+
+    if (
+      root.localName !== "rdml" ||
+      doc.getElementsByTagName("parsererror").length > 0
+    ) {
+      throw new Error("Invalid RDML file: could not parse XML");
+    }
+
+    const referenceGenes = children(root, "target")
+      .filter((t) => childText(t, "type") === "ref")
+      .map((t) => t.getAttribute("id") ?? "");
+
+    const controlSamples = children(root, "sample")
+      .filter((s) =>
+        children(s, "annotation").some(
+          (a) =>
+            childText(a, "property") === RDML_CONTROL_PROPERTY &&
+            childText(a, "value") === "true"
+        )
+      )
+      .map((s) => s.getAttribute("id") ?? "");
+
+    const wells: WellRecord[] = [];
+    const wellRuns: string[] = []; // Run of each well record
+    let title = titleFromFilename(filename);
+
+    for (const experiment of children(root, "experiment")) {
+      for (const run of children(experiment, "run")) {
+        const runName = `${experiment.getAttribute("id")} - ${run.getAttribute(
+          "id"
+        )}`;
+        if (wells.length === 0) title = runName;
+
+        for (const react of children(run, "react")) {
+          const position = reactIdToPosition(
+            react.getAttribute("id") ?? "",
+            run
+          );
+          const sample = children(react, "sample")[0]?.getAttribute("id") ?? "";
+
+          for (const data of children(react, "data")) {
+            const cq = childText(data, "cq");
+            const excluded = childText(data, "excl");
+
+            wells.push({
+              position,
+              name: children(data, "tar")[0]?.getAttribute("id") ?? "",
+              sample,
+              // RDML uses -1 for "no amplification"
+              cq: cq === "-1" ? "" : cq,
+              status: excluded ? `Excluded: ${excluded}` : "",
+            });
+            wellRuns.push(runName);
+          }
+        }
+      }
+    }
+
+    const parsed = wellsToParsedData(title, "rdml", wells);
+    parsed.metadata = { referenceGenes, controlSamples };
+
+    // Several runs reuse the same positions: tag every row with its run,
+    // so that the file is loaded as one plate per run
+    if (new Set(wellRuns).size > 1) {
+      parsed.headers.unshift(RUN_COLUMN);
+      parsed.rows = parsed.rows.map((row, i): RawDataRow => ({
+        [RUN_COLUMN]: wellRuns[i],
+        ...row,
+      }));
+    }
+    return parsed;
+  },
+};
@@ -0,0 +1,93 @@
+/**
+ * Importer Registry
+ * Keeps track of instrument format adapters and picks one for a file
+ */
+
+import { ParsedTsvData } from "../../../types";
+
+/**
+ * Instrument format adapter
+ */
+export interface InstrumentImporter {
+  id: string;
+  label: string;
+  extensions: string[];
+  /** Whether the content looks like this importer's format */
+  sniff: (content: string, filename: string) => boolean;
+  /** Parse content into the canonical well-level model */
+  parse: (content: string, filename: string) => ParsedTsvData;
+}
+
+/**
+ * Registered importers, in registration order
+ */
+const registry: { importer: InstrumentImporter; fallback: boolean }[] = [];
+
+/**
+ * Register an importer, replacing any importer with the same id
+ * @param importer Importer to register
+ * @param fallback Whether to sniff this importer after all others
+ */
+export function registerImporter(
+  importer: InstrumentImporter,
+  fallback: boolean = false
+): void {
+  const existing = registry.findIndex((e) => e.importer.id === importer.id);
+  if (existing !== -1) registry.splice(existing, 1);
+
+  registry.push({ importer, fallback });
+}
+
+/**
+ * Get all registered importers
+ * @returns Importers in sniffing order
+ */
+export function getImporters(): InstrumentImporter[] {
+  return [
+    ...registry.filter((e) => !e.fallback),
+    ...registry.filter((e) => e.fallback),
+  ].map((e) => e.importer);
+}
+
+/**
+ * Get an importer by id
+ * @param id Importer id
+ * @returns Importer or undefined
+ */
+export function getImporter(id: string): InstrumentImporter | undefined {
+  return getImporters().find((i) => i.id === id);
+}
+
+/**
+ * Get all file extensions accepted by registered importers
+ * @returns Unique lower-case extensions including the leading dot
+ */
+export function getSupportedExtensions(): string[] {
+  const extensions = new Set<string>();
+  getImporters().forEach((i) => i.extensions.forEach((e) => extensions.add(e)));
+  return Array.from(extensions);
+}
+
+/**
+ * Pick the importer for a file by sniffing its content
+ * @param content File content
+ * @param filename File name
+ * @returns Matching importer or null
+ */
+export function detectImporter(
+  content: string,
+  filename: string
+): InstrumentImporter | null {
+  const lowerName = filename.toLowerCase();
+
+  for (const importer of getImporters()) {
+    const extensionMatches = importer.extensions.some((ext) =>
+      lowerName.endsWith(ext)
+    );
+    if (extensionMatches && importer.sniff(content, filename)) {
+      return importer;
+    }
+  }
+
+  return null;
+}
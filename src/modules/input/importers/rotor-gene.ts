@@ -0,0 +1,76 @@
+/**
+ * Rotor-Gene Importer
+ * Qiagen Rotor-Gene Q "Quantitation" CSV export
+ */
+
+import { WellRecord } from "../../../types";
+import {
+  findColumn,
+  findHeaderLine,
+  splitDelimitedLine,
+  splitLines,
+  titleFromFilename,
+  wellsToParsedData,
+} from "./common";
+import { InstrumentImporter } from "./registry";
+
+const REQUIRED_COLUMNS = ["No.", "Name", "Ct"];
+
+/**
+ * Rotor-Gene quantitation results export.
+ * Rotor positions are numbered tubes, so they are kept as plain numbers.
+ * "Name" holds the sample; the export has no target column unless one was
+ * added to the run, so the gene is taken from the page (channel) title,
+ * e.g. "Cycling A.Green", or from the file name.
+ */
+export const rotorGeneImporter: InstrumentImporter = {
+  id: "rotor-gene",
+  label: "Rotor-Gene",
+  extensions: [".csv", ".txt"],
+  sniff: (content) =>
+    findHeaderLine(splitLines(content), REQUIRED_COLUMNS) !== null,
+  parse: (content, filename) => {
+    const lines = splitLines(content);
+    const header = findHeaderLine(lines, REQUIRED_COLUMNS);
+
+    if (!header) {
+      throw new Error("Invalid Rotor-Gene file: missing No./Name/Ct header");
+    }
+
+    // Use the "Quantitation data for Cycling A.Green" line as title when present
+    const titleLine = lines
+      .slice(0, header.index)
+      .find((l) => /quantitation data for/i.test(l));
+    const title = titleLine
+      ? splitDelimitedLine(titleLine, header.delimiter)[0]
+      : titleFromFilename(filename);
+    const channel = /quantitation data for\s+(.+)/i.exec(title)?.[1].trim();
+    const gene = channel || titleFromFilename(filename);
+
+    const headers = splitDelimitedLine(lines[header.index], header.delimiter);
+    const numberCol = findColumn(headers, ["No."]);
+    const nameCol = findColumn(headers, ["Name"]);
+    const targetCol = findColumn(headers, ["Gene", "Target"]);
+    const ctCol = findColumn(headers, ["Ct"]);
+
+    const wells: WellRecord[] = [];
+
+    for (let i = header.index + 1; i < lines.length; i++) {
+      if (!lines[i].trim()) break;
+
+      const fields = splitDelimitedLine(lines[i], header.delimiter);
+      const sample = fields[nameCol] ?? "";
+      if (!sample) continue;
+
+      wells.push({
+        position: fields[numberCol] ?? "",
+        name: (targetCol !== -1 ? fields[targetCol] : "") || gene,
+        sample,
+        cq: fields[ctCol] ?? "",
+        status: "",
+      });
+    }
+
+    return wellsToParsedData(title, "rotor-gene", wells);
+  },
+};
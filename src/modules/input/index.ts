@@ -4,5 +4,10 @@
  */
 
 export * from "./file-handler";
+export * from "./importers";
+export * from "./melt-parser";
+export * from "./run-merger";
+export * from "./sample-sheet";
+export * from "./status-rules";
 export * from "./tsv-parser";
 export * from "./validation";
@@ -0,0 +1,116 @@
+/**
+ * Melt Curve Parser
+ * Reads melt (dissociation) curve exports: temperature × fluorescence per well
+ */
+
+import { MeltCurve } from "../../types";
+import {
+  findColumn,
+  normalizeWellPosition,
+  splitDelimitedLine,
+  splitLines,
+} from "./importers/common";
+
+const WELL_COLUMNS = ["SamplePos", "Pos", "Well", "Position"];
+const TEMPERATURE_COLUMNS = ["Temp", "Temperature", "Temperature (°C)"];
+const FLUORESCENCE_COLUMNS = ["Fluorescence", "Fluor", "RFU"];
+
+/** Minimum number of temperature steps for a curve to be usable */
+const MIN_STEPS = 10;
+
+/**
+ * Check whether a header names a well position (A1..P24)
+ * @param header Column header
+ * @returns True for well positions
+ */
+function isWellHeader(header: string): boolean {
+  return /^[A-P]\d{1,2}$/.test(normalizeWellPosition(header));
+}
+
+/**
+ * Parse a melt curve export. Two layouts are read:
+ * - long: one row per well and temperature step (LightCycler 480 chart data)
+ * - wide: a temperature column and one column per well (CFX "Melt Curve RFU")
+ * @param content File content
+ * @returns Melt curves keyed by well position
+ */
+export function parseMeltCurves(content: string): Record<string, MeltCurve> {
+  const lines = splitLines(content);
+  const points = new Map<string, { temperature: number; value: number }[]>();
+
+  const add = (position: string, temperature: number, value: number) => {
+    if (isNaN(temperature) || isNaN(value)) return;
+    const wellPoints = points.get(position) ?? [];
+    wellPoints.push({ temperature, value });
+    points.set(position, wellPoints);
+  };
+
+  let headerFound = false;
+
+  for (let index = 0; index < lines.length && !headerFound; index++) {
+    for (const delimiter of ["\t", ",", ";"]) {
+      const headers = splitDelimitedLine(lines[index], delimiter);
+      const temperatureCol = findColumn(headers, TEMPERATURE_COLUMNS);
+      if (temperatureCol === -1) continue;
+
+      const wellCol = findColumn(headers, WELL_COLUMNS);
+      const wellColumns = headers
+        .map((h, col) => ({ col, position: normalizeWellPosition(h) }))
+        .filter((c) => isWellHeader(c.position));
+      if (wellCol === -1 && wellColumns.length === 0) continue;
+
+      // Long layout: a known fluorescence column, otherwise the last one
+      const knownFluorescenceCol = findColumn(headers, FLUORESCENCE_COLUMNS);
+      const fluorescenceCol =
+        knownFluorescenceCol !== -1 ? knownFluorescenceCol : headers.length - 1;
+
+      for (let i = index + 1; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+
+        const fields = splitDelimitedLine(lines[i], delimiter);
+        const temperature = parseFloat(fields[temperatureCol]);
+
+        if (wellCol !== -1) {
+          const position = fields[wellCol] ?? "";
+          if (position) {
+            add(
+              normalizeWellPosition(position),
+              temperature,
+              parseFloat(fields[fluorescenceCol])
+            );
+          }
+        } else {
+          for (const { col, position } of wellColumns) {
+            add(position, temperature, parseFloat(fields[col]));
+          }
+        }
+      }
+
+      headerFound = true;
+      break;
+    }
+  }
+
+  if (!headerFound) {
+    throw new Error(
+      "Invalid melt curve file: missing temperature and well columns"
+    );
+  }
+
+  const curves: Record<string, MeltCurve> = {};
+  for (const [position, wellPoints] of points) {
+    if (wellPoints.length < MIN_STEPS) continue;
+
+    wellPoints.sort((a, b) => a.temperature - b.temperature);
+    curves[position] = {
+      temperatures: wellPoints.map((p) => p.temperature),
+      fluorescence: wellPoints.map((p) => p.value),
+    };
+  }
+
+  if (Object.keys(curves).length === 0) {
+    throw new Error("Melt curve file contains no usable curves");
+  }
+
+  return curves;
+}
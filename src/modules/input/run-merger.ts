@@ -0,0 +1,159 @@
+/**
+ * Run Merger Module
+ * Combines several run files (plates) into one dataset
+ */
+
+import {
+  AmplificationCurve,
+  MeltCurve,
+  ParsedTsvData,
+  PlateRun,
+  RawDataRow,
+} from "../../types";
+import { CANONICAL_COLUMNS } from "./importers/common";
+import { shouldIgnoreRow } from "./tsv-parser";
+
+/**
+ * Column holding the plate / run ID in merged data
+ */
+export const RUN_COLUMN = "Run";
+
+/**
+ * Genes and samples that appear on more than one plate
+ */
+export interface RunOverlap {
+  genes: Map<string, string[]>; // Gene name -> run IDs
+  samples: Map<string, string[]>; // Sample name -> run IDs
+}
+
+/**
+ * Pick the next free default run ID ("Plate 1", "Plate 2", ...)
+ * @param runs Runs already loaded
+ * @returns Unused run ID
+ */
+export function nextRunId(runs: PlateRun[]): string {
+  let n = runs.length + 1;
+  while (runs.some((r) => r.id === `Plate ${n}`)) n++;
+  return `Plate ${n}`;
+}
+
+/**
+ * Merge runs into a single dataset. Every row is tagged with its run ID;
+ * the Run column is only shown when more than one run is loaded.
+ * @param runs Loaded runs, in plate order
+ * @returns Merged data
+ */
+export function mergeRuns(runs: PlateRun[]): ParsedTsvData {
+  const headers: string[] = runs.length > 1 ? [RUN_COLUMN] : [];
+  const rows: RawDataRow[] = [];
+  const amplification: Record<string, AmplificationCurve> = {};
+  const melt: Record<string, MeltCurve> = {};
+
+  for (const run of runs) {
+    for (const header of run.data.headers) {
+      if (!headers.includes(header)) headers.push(header);
+    }
+    for (const row of run.data.rows) {
+      rows.push({ ...row, [RUN_COLUMN]: run.id });
+    }
+    Object.assign(amplification, keyByWell(run.id, run.data.amplification));
+    Object.assign(melt, keyByWell(run.id, run.data.melt));
+  }
+
+  const referenceGenes = new Set<string>();
+  const controlSamples = new Set<string>();
+  for (const run of runs) {
+    run.data.metadata?.referenceGenes.forEach((g) => referenceGenes.add(g));
+    run.data.metadata?.controlSamples.forEach((s) => controlSamples.add(s));
+  }
+
+  return {
+    title: runs.map((r) => r.data.title).join(" + "),
+    headers,
+    rows,
+    format: runs.length === 1 ? runs[0].data.format : "merged",
+    metadata:
+      referenceGenes.size > 0 || controlSamples.size > 0
+        ? {
+            referenceGenes: Array.from(referenceGenes),
+            controlSamples: Array.from(controlSamples),
+          }
+        : undefined,
+    amplification:
+      Object.keys(amplification).length > 0 ? amplification : undefined,
+    melt: Object.keys(melt).length > 0 ? melt : undefined,
+  };
+}
+
+/**
+ * Split data whose rows are tagged with their run (a file holding several
+ * runs) into one dataset per run, the reverse of mergeRuns
+ * @param data Parsed data
+ * @returns One dataset per run, titled by the run; the data itself when
+ *          its rows are not tagged
+ */
+export function splitRuns(data: ParsedTsvData): ParsedTsvData[] {
+  if (!data.headers.includes(RUN_COLUMN)) return [data];
+
+  const headers = data.headers.filter((h) => h !== RUN_COLUMN);
+  const runIds = Array.from(new Set(data.rows.map((r) => r[RUN_COLUMN])));
+
+  return runIds.map((runId) => ({
+    ...data,
+    title: runId,
+    headers,
+    rows: data.rows
+      .filter((row) => row[RUN_COLUMN] === runId)
+      .map(({ [RUN_COLUMN]: _run, ...row }) => row),
+  }));
+}
+
+/**
+ * Re-key per-well curves of a run from well position to well key
+ * ("Plate 1:A1"), as used in merged data
+ * @param runId Run ID
+ * @param curves Curves keyed by position
+ * @returns Curves keyed by well key
+ */
+function keyByWell<T>(
+  runId: string,
+  curves: Record<string, T> = {}
+): Record<string, T> {
+  const keyed: Record<string, T> = {};
+  for (const [position, curve] of Object.entries(curves)) {
+    keyed[`${runId}:${position}`] = curve;
+  }
+  return keyed;
+}
+
+/**
+ * Find genes and instrument sample names shared by several runs
+ * @param runs Loaded runs
+ * @returns Overlapping genes and samples with the runs they appear on
+ */
+export function findRunOverlap(runs: PlateRun[]): RunOverlap {
+  const genes = new Map<string, string[]>();
+  const samples = new Map<string, string[]>();
+
+  const add = (map: Map<string, string[]>, key: string, runId: string) => {
+    const list = map.get(key) ?? [];
+    if (!list.includes(runId)) list.push(runId);
+    map.set(key, list);
+  };
+
+  for (const run of runs) {
+    for (const row of run.data.rows) {
+      if (shouldIgnoreRow(row)) continue;
+
+      const gene = row["Name"]?.trim();
+      const sample = row[CANONICAL_COLUMNS.sample]?.trim();
+      if (gene) add(genes, gene, run.id);
+      if (sample) add(samples, sample, run.id);
+    }
+  }
+
+  const shared = (map: Map<string, string[]>) =>
+    new Map(Array.from(map).filter(([, runIds]) => runIds.length > 1));
+
+  return { genes: shared(genes), samples: shared(samples) };
+}
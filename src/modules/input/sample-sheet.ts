@@ -0,0 +1,99 @@
+/**
+ * Sample Sheet Input Module
+ * Fills the sample sheet from blocks of cells pasted from a spreadsheet
+ */
+
+import { SampleSheet } from "../../types";
+
+/**
+ * Split pasted spreadsheet text into rows of cells
+ * @param text Pasted text (tab-separated cells, one row per line)
+ * @returns Rows of trimmed cells, without trailing empty lines
+ */
+export function splitPastedBlock(text: string): string[][] {
+  const rows = text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.split("\t").map((cell) => cell.trim()));
+
+  while (rows.length > 0 && rows[rows.length - 1].every((c) => c === "")) {
+    rows.pop();
+  }
+  return rows;
+}
+
+/**
+ * Get the name of the factor column at an index, adding numbered factors
+ * up to it when the sheet has fewer columns
+ * @param factors Factor names (extended in place)
+ * @param index Column index
+ * @returns Factor name
+ */
+function factorAt(factors: string[], index: number): string {
+  while (factors.length <= index) {
+    let n = factors.length + 1;
+    while (factors.includes(`Factor ${n}`)) n++;
+    factors.push(`Factor ${n}`);
+  }
+  return factors[index];
+}
+
+/**
+ * Apply a pasted block to the sample sheet. When the first column holds
+ * sample names, rows are matched by name and a first row that is not a
+ * sample is read as the factor names; otherwise the block is filled in
+ * from the cell it was pasted into.
+ * @param sheet Current sample sheet
+ * @param samples Sample names in sheet row order
+ * @param block Pasted rows of cells
+ * @param startRow Sample row the block was pasted into
+ * @param startFactor Factor column the block was pasted into
+ * @returns Updated sample sheet
+ */
+export function applyPastedBlock(
+  sheet: SampleSheet,
+  samples: string[],
+  block: string[][],
+  startRow: number,
+  startFactor: number
+): SampleSheet {
+  const factors = [...sheet.factors];
+  const levels: Record<string, Record<string, string>> = {};
+  for (const [sample, values] of Object.entries(sheet.levels)) {
+    levels[sample] = { ...values };
+  }
+  const setLevel = (sample: string, factor: string, level: string) => {
+    levels[sample] = { ...levels[sample], [factor]: level };
+  };
+
+  const hasHeader = block.length > 1 && !samples.includes(block[0][0]);
+  const dataRows = hasHeader ? block.slice(1) : block;
+  const keyed =
+    dataRows.length > 0 &&
+    (block[0]?.length ?? 0) > 1 &&
+    dataRows.every((row) => samples.includes(row[0]));
+
+  if (keyed) {
+    const columns = block[0].slice(1).map((name, i) => {
+      if (!hasHeader || !name) return factorAt(factors, startFactor + i);
+      if (!factors.includes(name)) factors.push(name);
+      return name;
+    });
+
+    for (const row of dataRows) {
+      columns.forEach((factor, i) =>
+        setLevel(row[0], factor, row[i + 1] ?? "")
+      );
+    }
+  } else {
+    block.forEach((row, r) => {
+      const sample = samples[startRow + r];
+      if (sample === undefined) return;
+      row.forEach((level, c) =>
+        setLevel(sample, factorAt(factors, startFactor + c), level)
+      );
+    });
+  }
+
+  return { factors, levels };
+}
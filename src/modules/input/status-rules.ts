@@ -0,0 +1,64 @@
+/**
+ * Status Rules Module
+ * Matches instrument status messages against user-defined rules
+ */
+
+import { RawDataRow, StatusRule } from "../../types";
+import { CANONICAL_COLUMNS } from "./importers/common";
+
+/**
+ * Find the rule matching a data row's status
+ */
+export type StatusRuleMatcher = (row: RawDataRow) => StatusRule | undefined;
+
+/**
+ * Turn a rule pattern into a matcher. Patterns written as /regex/flags are
+ * regular expressions; anything else matches as a case-insensitive substring.
+ * The g and y flags are dropped: they would make each test start where the
+ * previous match ended.
+ * @param pattern Rule pattern
+ * @returns Matcher, or null if the pattern is empty or an invalid regex
+ */
+export function compileStatusPattern(
+  pattern: string
+): ((status: string) => boolean) | null {
+  const trimmed = pattern.trim();
+  if (!trimmed) return null;
+
+  const regexMatch = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      const regex = new RegExp(
+        regexMatch[1],
+        regexMatch[2].replace(/[gy]/g, "")
+      );
+      return (status) => regex.test(status);
+    } catch {
+      return null;
+    }
+  }
+
+  const needle = trimmed.toLowerCase();
+  return (status) => status.toLowerCase().includes(needle);
+}
+
+/**
+ * Compile status rules once, for matching many rows
+ * @param rules Status rules in priority order
+ * @returns Matcher returning the first rule matching a row's status
+ */
+export function compileStatusRules(rules: StatusRule[]): StatusRuleMatcher {
+  const compiled: { rule: StatusRule; matches: (status: string) => boolean }[] =
+    [];
+  for (const rule of rules) {
+    const matches = compileStatusPattern(rule.pattern);
+    if (matches) compiled.push({ rule, matches });
+  }
+
+  return (row) => {
+    const status = (row[CANONICAL_COLUMNS.status] ?? "").trim();
+    if (!status) return undefined;
+
+    return compiled.find((c) => c.matches(status))?.rule;
+  };
+}
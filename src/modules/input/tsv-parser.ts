@@ -47,7 +47,7 @@ export function parseTsv(content: string): ParsedTsvData {
     rows.push(row);
   }
 
-  return { title, headers, rows };
+  return { title, headers, rows, format: "lightcycler" };
 }
 
 /**
@@ -6,10 +6,16 @@
 import {
   ParsedTsvData,
   ProcessingConfig,
+  SampleReplicates,
   ValidationError,
   ValidationResult,
 } from "../../types";
 
+/**
+ * Largest replica count accepted (a full 384-well plate)
+ */
+const MAX_REPLICA_COUNT = 384;
+
 /**
  * Validate replica count
  * @param count Replica count value
@@ -28,10 +34,10 @@ export function validateReplicaCount(count: number): ValidationResult {
       field: "replicaCount",
       message: "Replica count must be at least 1",
     });
-  } else if (count > 10) {
+  } else if (count > MAX_REPLICA_COUNT) {
     errors.push({
       field: "replicaCount",
-      message: "Replica count cannot exceed 10",
+      message: `Replica count cannot exceed ${MAX_REPLICA_COUNT}`,
     });
   }
 
@@ -42,26 +48,32 @@ export function validateReplicaCount(count: number): ValidationResult {
 }
 
 /**
- * Validate housekeeper selection
- * @param housekeeper Selected housekeeper gene
+ * Validate housekeeper (reference gene) selection
+ * @param housekeepers Selected housekeeper genes
  * @param availableGenes List of available genes
  * @returns Validation result
  */
-export function validateHousekeeper(
-  housekeeper: string,
+export function validateHousekeepers(
+  housekeepers: string[],
   availableGenes: string[]
 ): ValidationResult {
   const errors: ValidationError[] = [];
+  const invalidGenes = housekeepers.filter((g) => !availableGenes.includes(g));
 
-  if (!housekeeper || housekeeper.trim() === "") {
+  if (housekeepers.length === 0) {
+    errors.push({
+      field: "housekeeper",
+      message: "Please select at least one housekeeper gene",
+    });
+  } else if (invalidGenes.length > 0) {
     errors.push({
       field: "housekeeper",
-      message: "Please select a housekeeper gene",
+      message: `Not a valid gene in the data: ${invalidGenes.join(", ")}`,
     });
-  } else if (!availableGenes.includes(housekeeper)) {
+  } else if (housekeepers.length === availableGenes.length) {
     errors.push({
       field: "housekeeper",
-      message: `"${housekeeper}" is not a valid gene in the data`,
+      message: "Leave at least one gene as a target",
     });
   }
 
@@ -76,12 +88,14 @@ export function validateHousekeeper(
  * @param samples Array of sample names
  * @param totalDataRows Total number of data rows
  * @param replicaCount Number of replicas per sample
+ * @param sampleCounts Replicas per sample where they differ from the default
  * @returns Validation result
  */
 export function validateSampleList(
   samples: string[],
   totalDataRows: number,
-  replicaCount: number
+  replicaCount: number,
+  sampleCounts: number[] = []
 ): ValidationResult {
   const errors: ValidationError[] = [];
 
@@ -102,12 +116,25 @@ export function validateSampleList(
   }
 
   // Check if sample count matches data
-  const expectedSamples = Math.floor(totalDataRows / replicaCount);
-  if (samples.length > expectedSamples) {
-    errors.push({
-      field: "sampleList",
-      message: `Too many samples. Data supports ${expectedSamples} samples with ${replicaCount} replicas each`,
-    });
+  if (sampleCounts.length === 0) {
+    const expectedSamples = Math.floor(totalDataRows / replicaCount);
+    if (samples.length > expectedSamples) {
+      errors.push({
+        field: "sampleList",
+        message: `Too many samples. Data supports ${expectedSamples} samples with ${replicaCount} replicas each`,
+      });
+    }
+  } else {
+    const neededRows = samples.reduce(
+      (total, _, i) => total + (sampleCounts[i] ?? replicaCount),
+      0
+    );
+    if (neededRows > totalDataRows) {
+      errors.push({
+        field: "sampleList",
+        message: `Too many samples. The listed replicates need ${neededRows} wells per gene, the data has ${totalDataRows}`,
+      });
+    }
   }
 
   return {
@@ -161,6 +188,267 @@ export function validateControlList(
   };
 }
 
+/**
+ * Validate the factor names of the sample sheet
+ * @param factors Factor names in column order
+ * @returns Validation result
+ */
+export function validateSampleSheet(factors: string[]): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  if (factors.some((f) => f.length === 0)) {
+    errors.push({
+      field: "sampleSheet",
+      message: "Every factor column needs a name",
+    });
+  }
+
+  const duplicates = factors.filter(
+    (f, i) => f.length > 0 && factors.indexOf(f) !== i
+  );
+  if (duplicates.length > 0) {
+    errors.push({
+      field: "sampleSheet",
+      message: `Duplicate factor name(s): ${Array.from(
+        new Set(duplicates)
+      ).join(", ")}`,
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validate inter-run calibrator list (may be empty)
+ * @param calibrators Array of calibrator sample names
+ * @param samples Array of all sample names
+ * @returns Validation result
+ */
+export function validateCalibratorList(
+  calibrators: string[],
+  samples: string[]
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  // Check that all calibrators are in the sample list
+  const invalidCalibrators = calibrators.filter((c) => !samples.includes(c));
+  if (invalidCalibrators.length > 0) {
+    errors.push({
+      field: "calibratorList",
+      message: `Invalid calibrator(s): ${invalidCalibrators.join(
+        ", "
+      )}. Calibrators must be in the sample list.`,
+    });
+  }
+
+  // Check for duplicates
+  if (new Set(calibrators).size !== calibrators.length) {
+    errors.push({
+      field: "calibratorList",
+      message: "Duplicate calibrator names found",
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Read a standard quantity: a number ("1000", "2.5e4") or a dilution
+ * written as a ratio ("1:10", "1/100")
+ * @param text Quantity text
+ * @returns Quantity (NaN if unreadable or not positive)
+ */
+export function parseQuantity(text: string): number {
+  const trimmed = text.trim();
+  const ratio =
+    /^([\d.]+(?:e[-+]?\d+)?)\s*[:/]\s*([\d.]+(?:e[-+]?\d+)?)$/i.exec(trimmed);
+  const quantity = ratio
+    ? Number(ratio[1]) / Number(ratio[2])
+    : trimmed === ""
+      ? NaN
+      : Number(trimmed);
+
+  return isFinite(quantity) && quantity > 0 ? quantity : NaN;
+}
+
+/**
+ * Split standard list lines into sample names and quantities.
+ * A line is "Name | quantity", or a sample name that is itself a
+ * quantity such as "1:10".
+ * @param lines Standard list lines
+ * @returns Quantity per standard and lines that could not be read
+ */
+export function parseStandardList(lines: string[]): {
+  standards: Record<string, number>;
+  invalidLines: string[];
+} {
+  const standards: Record<string, number> = {};
+  const invalidLines: string[] = [];
+
+  for (const line of lines) {
+    const [name, quantityText] = line.split("|").map((f) => f.trim());
+    const quantity = parseQuantity(quantityText ?? name);
+
+    if (!name || isNaN(quantity)) invalidLines.push(line);
+    else standards[name] = quantity;
+  }
+
+  return { standards, invalidLines };
+}
+
+/**
+ * Validate standard list (may be empty)
+ * @param lines Standard list lines
+ * @param samples Array of all sample names
+ * @returns Validation result
+ */
+export function validateStandardList(
+  lines: string[],
+  samples: string[]
+): ValidationResult {
+  const errors: ValidationError[] = [];
+  const { standards, invalidLines } = parseStandardList(lines);
+
+  if (invalidLines.length > 0) {
+    errors.push({
+      field: "standardList",
+      message: `Unreadable quantity: ${invalidLines.join(
+        "; "
+      )}. Use "Name | 1000" or a dilution such as "1:10".`,
+    });
+  }
+
+  // Check that all standards are in the sample list
+  const invalidStandards = Object.keys(standards).filter(
+    (s) => !samples.includes(s)
+  );
+  if (invalidStandards.length > 0) {
+    errors.push({
+      field: "standardList",
+      message: `Invalid standard(s): ${invalidStandards.join(
+        ", "
+      )}. Standards must be in the sample list.`,
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/** Largest amplification efficiency accepted (200%, tripling each cycle) */
+const MAX_EFFICIENCY = 2;
+
+/**
+ * Split efficiency list lines into genes and efficiencies. A line is
+ * "Gene | 95%" (or gene and percentage separated by a tab, as pasted
+ * from a spreadsheet); the percent sign is optional.
+ * @param lines Efficiency list lines
+ * @returns Efficiency per gene (1 = 100%) and lines that could not be read
+ */
+export function parseEfficiencyList(lines: string[]): {
+  efficiencies: Record<string, number>;
+  invalidLines: string[];
+} {
+  const efficiencies: Record<string, number> = {};
+  const invalidLines: string[] = [];
+
+  for (const line of lines) {
+    const [gene, percentText] = line.split(/[|\t]/).map((f) => f.trim());
+    const percent = /^[\d.]+\s*%?$/.test(percentText ?? "")
+      ? parseFloat(percentText)
+      : NaN;
+    const efficiency = percent / 100;
+
+    if (!gene || !(efficiency > 0 && efficiency <= MAX_EFFICIENCY)) {
+      invalidLines.push(line);
+    } else {
+      efficiencies[gene] = efficiency;
+    }
+  }
+
+  return { efficiencies, invalidLines };
+}
+
+/**
+ * Validate efficiency list (may be empty)
+ * @param lines Efficiency list lines
+ * @param availableGenes Array of available gene names
+ * @returns Validation result
+ */
+export function validateEfficiencyList(
+  lines: string[],
+  availableGenes: string[]
+): ValidationResult {
+  const errors: ValidationError[] = [];
+  const { efficiencies, invalidLines } = parseEfficiencyList(lines);
+
+  if (invalidLines.length > 0) {
+    errors.push({
+      field: "efficiencyList",
+      message: `Unreadable efficiency: ${invalidLines.join(
+        "; "
+      )}. Use "Gene | 95%" (above 0% and up to ${MAX_EFFICIENCY * 100}%).`,
+    });
+  }
+
+  const unknownGenes = Object.keys(efficiencies).filter(
+    (g) => !availableGenes.includes(g)
+  );
+  if (unknownGenes.length > 0) {
+    errors.push({
+      field: "efficiencyList",
+      message: `Unknown gene(s): ${unknownGenes.join(", ")}.`,
+    });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Count the data rows of each gene
+ * @param data Parsed TSV data
+ * @param genes Gene names
+ * @returns Row count per gene
+ */
+export function countGeneRows(
+  data: ParsedTsvData,
+  genes: string[]
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const gene of genes) counts[gene] = 0;
+
+  for (const row of data.rows) {
+    const name = row["Name"];
+    if (genes.includes(name)) counts[name]++;
+  }
+
+  return counts;
+}
+
+/**
+ * Get the largest number of data rows of any gene
+ * @param data Parsed TSV data
+ * @param genes Gene names
+ * @returns Row count of the gene with the most rows
+ */
+export function getMaxGeneRowCount(
+  data: ParsedTsvData,
+  genes: string[]
+): number {
+  return Math.max(0, ...Object.values(countGeneRows(data, genes)));
+}
+
 /**
  * Validate complete processing configuration
  * @param config Processing configuration
@@ -175,18 +463,17 @@ export function validateProcessingConfig(
 ): ValidationResult {
   const allErrors: ValidationError[] = [];
 
-  // Get row count for one gene to determine total rows per gene
-  const geneRowCount = data.rows.filter(
-    (r) => r["Name"] === availableGenes[0]
-  ).length;
+  // The sample list may use the wells of the best-covered gene; genes with
+  // fewer wells are reported by the row diagnostics
+  const geneRowCount = getMaxGeneRowCount(data, availableGenes);
 
   // Validate replica count
   const replicaResult = validateReplicaCount(config.replicaCount);
   allErrors.push(...replicaResult.errors);
 
-  // Validate housekeeper
-  const housekeeperResult = validateHousekeeper(
-    config.housekeeper,
+  // Validate housekeepers
+  const housekeeperResult = validateHousekeepers(
+    config.housekeepers,
     availableGenes
   );
   allErrors.push(...housekeeperResult.errors);
@@ -203,6 +490,13 @@ export function validateProcessingConfig(
   const controlResult = validateControlList(config.controls, config.samples);
   allErrors.push(...controlResult.errors);
 
+  // Validate inter-run calibrators
+  const calibratorResult = validateCalibratorList(
+    config.calibrators,
+    config.samples
+  );
+  allErrors.push(...calibratorResult.errors);
+
   return {
     isValid: allErrors.length === 0,
     errors: allErrors,
@@ -221,6 +515,62 @@ export function parseSampleList(input: string): string[] {
     .filter((line) => line.length > 0);
 }
 
+/**
+ * Split sample list lines into names and replicate counts.
+ * A line is "Name", optionally followed by "| n" (replicas for every gene)
+ * and/or "| GENE:n, GENE:n" (replicas for specific genes),
+ * e.g. "Treated | 2 | TNF:3".
+ * @param lines Sample list lines
+ * @returns Sample names, per-sample replicate overrides, and lines that
+ *          could not be read
+ */
+export function parseSampleReplicates(lines: string[]): {
+  samples: string[];
+  sampleReplicates: Record<string, SampleReplicates>;
+  invalidLines: string[];
+} {
+  const samples: string[] = [];
+  const sampleReplicates: Record<string, SampleReplicates> = {};
+  const invalidLines: string[] = [];
+
+  const parseCount = (text: string): number | null => {
+    const count = Number(text.trim());
+    return validateReplicaCount(count).isValid ? count : null;
+  };
+
+  for (const line of lines) {
+    const [name, ...fields] = line.split("|").map((f) => f.trim());
+    samples.push(name);
+    if (fields.length === 0) continue;
+
+    const replicates: SampleReplicates = { geneCounts: {} };
+    let valid = name.length > 0;
+
+    for (const field of fields) {
+      if (/^\d+$/.test(field)) {
+        const count = parseCount(field);
+        if (count === null) valid = false;
+        else replicates.count = count;
+        continue;
+      }
+
+      for (const pair of field.split(",")) {
+        const separator = pair.lastIndexOf(":");
+        const gene = pair.slice(0, separator).trim();
+        const count =
+          separator > 0 ? parseCount(pair.slice(separator + 1)) : null;
+        if (!gene || count === null) valid = false;
+        else replicates.geneCounts[gene] = count;
+      }
+    }
+
+    if (valid) sampleReplicates[name] = replicates;
+    else invalidLines.push(line);
+  }
+
+  return { samples, sampleReplicates, invalidLines };
+}
+
 /**
  * Auto-generate sample names from gene data
  * @param totalRows Total number of rows per gene
@@ -1,17 +1,26 @@
 /**
  * Exporter Module
- * Handles clipboard export functionality
+ * Handles clipboard and file export functionality
  */
 
 import { GeneOutputResult } from "../../types";
+import {
+  AbsoluteQuantificationResult,
+  STANDARD_RANGE_LABELS,
+} from "../processing/absolute-quantification";
 import { formatNumber } from "../processing/statistics";
 
 /**
- * Format normalized values as TSV for clipboard
+ * Format normalized values as TSV for clipboard: one column per condition
+ * when the samples are grouped by factors, otherwise controls and observed
  * @param outputResult Gene output result
  * @returns TSV formatted string
  */
 export function formatNormalizedAsTsv(outputResult: GeneOutputResult): string {
+  if (outputResult.conditionColumns.length > 0) {
+    return formatConditionColumnsAsTsv(outputResult);
+  }
+
   const lines: string[] = [];
 
   // Data rows only (no header)
@@ -28,6 +37,31 @@ export function formatNormalizedAsTsv(outputResult: GeneOutputResult): string {
   return lines.join("\n");
 }
 
+/**
+ * Format the normalized values by condition as TSV, condition names first
+ * @param outputResult Gene output result
+ * @returns TSV formatted string with header
+ */
+function formatConditionColumnsAsTsv(outputResult: GeneOutputResult): string {
+  const columns = outputResult.conditionColumns;
+  const rowCount = Math.max(...columns.map((c) => c.normalizedValues.length));
+  const lines = [columns.map((c) => c.condition).join("\t")];
+
+  for (let i = 0; i < rowCount; i++) {
+    lines.push(
+      columns
+        .map((c) =>
+          i < c.normalizedValues.length
+            ? formatNumber(c.normalizedValues[i], 4)
+            : ""
+        )
+        .join("\t")
+    );
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Format all genes' normalized values as TSV
  * @param outputs Map of gene output results
@@ -83,6 +117,48 @@ export function formatAllNormalizedAsTsv(
   return lines.join("\n");
 }
 
+/**
+ * Format the copy numbers of all genes as TSV, one row per gene and sample
+ * @param results Absolute quantification results
+ * @returns TSV formatted string with header
+ */
+export function formatAbsoluteQuantitiesAsTsv(
+  results: AbsoluteQuantificationResult[]
+): string {
+  const perUl = results.some((r) => r.rows.some((row) => row.copiesPerUl));
+  const header = ["Gene", "Sample", "Mean Cq", "Cq SD", "n", "Copies/reaction"];
+  if (perUl) header.push("Copies/µl");
+  header.push("Flag");
+
+  const lines = [header.join("\t")];
+  for (const result of results) {
+    for (const row of result.rows) {
+      const parts = [
+        result.geneName,
+        row.sampleName,
+        formatNumber(row.cqMean, 3),
+        formatNumber(row.cqStd, 3),
+        String(row.replicateCount),
+        formatCopies(row.copies),
+      ];
+      if (perUl) parts.push(formatCopies(row.copiesPerUl ?? NaN));
+      parts.push(STANDARD_RANGE_LABELS[row.flag]);
+      lines.push(parts.join("\t"));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a copy number with four significant digits
+ * @param copies Copy number
+ * @returns Formatted string, empty when not finite
+ */
+function formatCopies(copies: number): string {
+  return isFinite(copies) ? String(Number(copies.toPrecision(4))) : "";
+}
+
 /**
  * Copy text to clipboard
  * @param text Text to copy
@@ -128,6 +204,30 @@ function copyToClipboardFallback(text: string): boolean {
   }
 }
 
+/**
+ * Offer data to the user as a file download
+ * @param content File content
+ * @param filename Suggested file name
+ * @param mimeType MIME type of the content
+ */
+export function downloadFile(
+  content: Uint8Array | string,
+  filename: string,
+  mimeType: string
+): void {
+  const part = typeof content === "string" ? content : content.slice();
+  const url = URL.createObjectURL(new Blob([part], { type: mimeType }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Copy gene output to clipboard
  * @param outputResult Gene output result
@@ -5,4 +5,6 @@
 
 export * from './exporter';
 export * from './normalizer';
+export * from './rdml-exporter';
+export * from './significance-summary';
 
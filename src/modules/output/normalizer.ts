@@ -4,12 +4,19 @@
  */
 
 import {
+  ConditionColumn,
   FoldChangeTableRow,
   GeneOutputResult,
   GeneProcessingResult,
+  MultipleTestingCorrection,
   NormalizedTableRow,
+  ProcessingTableRow,
+  SignificanceTest,
 } from "../../types";
+import { SampleCondition } from "../processing/sample-sheet";
+import { testConditions } from "../processing/significance";
 import { mean, roundTo } from "../processing/statistics";
+import { correctAcrossGenes } from "./significance-summary";
 
 /**
  * Build fold change table rows for a gene
@@ -91,17 +98,51 @@ export function buildNormalizedTable(
   }));
 }
 
+/**
+ * Build one column of normalized values per condition, with every sample
+ * of the condition that has a result
+ * @param result Gene processing result
+ * @param conditions Conditions with their samples
+ * @param controlAverage Average of control fold change values
+ * @returns Condition columns
+ */
+export function buildConditionColumns(
+  result: GeneProcessingResult,
+  conditions: SampleCondition[],
+  controlAverage: number
+): ConditionColumn[] {
+  if (controlAverage === 0) controlAverage = 1; // Prevent division by zero
+
+  return conditions.map((condition) => {
+    const rows = condition.sampleNames
+      .map((name) =>
+        result.rows.find((r) => !r.isReplicaRow && r.sampleName === name)
+      )
+      .filter((r): r is ProcessingTableRow => r !== undefined);
+
+    return {
+      condition: condition.name,
+      sampleNames: rows.map((r) => r.sampleName),
+      normalizedValues: rows.map((r) => r.foldChange / controlAverage),
+    };
+  });
+}
+
 /**
  * Generate complete output for a gene
  * @param result Gene processing result
  * @param controls Control sample names
  * @param allSamples All sample names
+ * @param conditions Conditions from the grouping factors (none without)
+ * @param test Test run between the conditions on ΔCT
  * @returns Complete gene output result
  */
 export function generateGeneOutput(
   result: GeneProcessingResult,
   controls: string[],
-  allSamples: string[]
+  allSamples: string[],
+  conditions: SampleCondition[] = [],
+  test: SignificanceTest = "none"
 ): GeneOutputResult {
   const foldChangeRows = buildFoldChangeTable(result, controls, allSamples);
   const controlAverage = calculateControlAverage(foldChangeRows);
@@ -112,6 +153,9 @@ export function generateGeneOutput(
     foldChangeRows,
     controlAverage: roundTo(controlAverage, 4),
     normalizedRows,
+    conditionColumns: buildConditionColumns(result, conditions, controlAverage),
+    conditions: result.conditions,
+    significance: testConditions(result.rows, result.conditions, test),
   };
 }
 
@@ -120,19 +164,31 @@ export function generateGeneOutput(
  * @param processingResults Map of gene processing results
  * @param controls Control sample names
  * @param allSamples All sample names
+ * @param conditions Conditions from the grouping factors (none without)
+ * @param test Test run between the conditions on ΔCT
+ * @param correction Correction of the test p-values across all genes
  * @returns Map of gene name to output results
  */
 export function generateAllOutputs(
   processingResults: Map<string, GeneProcessingResult>,
   controls: string[],
-  allSamples: string[]
+  allSamples: string[],
+  conditions: SampleCondition[] = [],
+  test: SignificanceTest = "none",
+  correction: MultipleTestingCorrection = "benjamini-hochberg"
 ): Map<string, GeneOutputResult> {
   const outputs = new Map<string, GeneOutputResult>();
 
   for (const [geneName, result] of processingResults) {
-    const output = generateGeneOutput(result, controls, allSamples);
+    const output = generateGeneOutput(
+      result,
+      controls,
+      allSamples,
+      conditions,
+      test
+    );
     outputs.set(geneName, output);
   }
 
-  return outputs;
+  return correctAcrossGenes(outputs, correction);
 }
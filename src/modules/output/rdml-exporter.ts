@@ -0,0 +1,346 @@
+/**
+ * RDML Exporter Module
+ * Writes the loaded data and its annotations as an RDML 1.2 file
+ */
+
+import {
+  CtMeasurement,
+  GeneData,
+  MeasurementFlagKind,
+  ParsedTsvData,
+  ProcessingConfig,
+  RawDataRow,
+} from "../../types";
+import { createZip } from "../../utils/zip";
+import { CANONICAL_COLUMNS } from "../input/importers/common";
+import { RDML_CONTROL_PROPERTY } from "../input/importers/rdml";
+import { RUN_COLUMN } from "../input/run-merger";
+import { detectCtColumn, shouldIgnoreRow } from "../input/tsv-parser";
+import {
+  compareWellPositions,
+  detectPlateSize,
+  getPlateDimensions,
+  getWellKey,
+  parseWellPosition,
+} from "../processing/plate-layout";
+
+const DYE_ID = "default";
+
+/**
+ * A reaction (well) with one data entry per target
+ */
+interface RdmlReaction {
+  id: number;
+  sample: string;
+  data: { target: string; cq: number; excluded: string }[];
+}
+
+/**
+ * Escape XML special characters
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * A run (plate) with its reactions keyed by position (or measurement ID
+ * for wells without one)
+ */
+interface RdmlRun {
+  id: string;
+  isPlate: boolean;
+  plateRows: number;
+  plateColumns: number;
+  reactions: Map<string, RdmlReaction>;
+}
+
+/**
+ * Flags of wells that are left out of the analysis
+ */
+const EXCLUDING_FLAGS: MeasurementFlagKind[] = [
+  "missing",
+  "status-excluded",
+  "manual",
+  "outlier",
+];
+
+/**
+ * A data row to export with what the analysis made of it
+ */
+interface ExportedRow {
+  row: RawDataRow;
+  measurement?: CtMeasurement;
+  sample?: string; // Sample of the replica group holding the measurement
+}
+
+/**
+ * Match the data rows to their measurements and replica group samples
+ * @param data Parsed TSV data
+ * @param geneDataMap Gene data with replica groups
+ * @returns Rows to export (ignored and unnamed rows left out), in data order
+ */
+function collectExportedRows(
+  data: ParsedTsvData,
+  geneDataMap: Map<string, GeneData>
+): ExportedRow[] {
+  const measurements = new Map<number, CtMeasurement>();
+  const samples = new Map<number, string>();
+
+  for (const geneData of geneDataMap.values()) {
+    for (const m of geneData.measurements) measurements.set(m.rowIndex, m);
+    for (const group of geneData.replicaGroups) {
+      for (const m of group.measurements) {
+        samples.set(m.rowIndex, group.sampleName);
+      }
+    }
+  }
+
+  const rows: ExportedRow[] = [];
+  data.rows.forEach((row, index) => {
+    if (shouldIgnoreRow(row) || !row["Name"]) return;
+    rows.push({
+      row,
+      measurement: measurements.get(index),
+      sample: samples.get(index),
+    });
+  });
+  return rows;
+}
+
+/**
+ * Describe why a well was left out of the analysis
+ * @param exported Exported row
+ * @param config Processing configuration (plate map exclusions)
+ * @returns Reasons, or an empty string for wells that were used
+ */
+function exclusionReason(
+  exported: ExportedRow,
+  config: ProcessingConfig
+): string {
+  const { row, measurement } = exported;
+  const position = row[CANONICAL_COLUMNS.position] ?? "";
+  const reasons: string[] = [];
+
+  if (
+    config.wellAssignments[getWellKey(row[RUN_COLUMN] ?? "", position)]
+      ?.excluded
+  ) {
+    reasons.push("Excluded in plate map");
+  }
+  if (measurement?.excluded) {
+    const messages = measurement.flags
+      .filter((f) => EXCLUDING_FLAGS.includes(f.kind))
+      .map((f) => f.message);
+    reasons.push(...(messages.length > 0 ? messages : ["Excluded"]));
+  }
+
+  return reasons.join("; ");
+}
+
+/**
+ * Group data rows into reactions by well, one run per plate. Rows without
+ * a position are wells of their own, identified like their measurement
+ * (run, sample and occurrence).
+ * @param rows Data rows to export
+ * @param ctColumn CT column name
+ * @param config Processing configuration
+ * @param defaultRunId Run ID for data without a Run column
+ * @returns Runs in plate order
+ */
+function buildRuns(
+  rows: ExportedRow[],
+  ctColumn: string | null,
+  config: ProcessingConfig,
+  defaultRunId: string
+): RdmlRun[] {
+  const runIds = Array.from(new Set(rows.map((r) => r.row[RUN_COLUMN] ?? "")));
+
+  return runIds.map((runId) => {
+    const runRows = rows.filter((r) => (r.row[RUN_COLUMN] ?? "") === runId);
+    const reactionKey = ({ row, measurement }: ExportedRow, index: number) =>
+      row[CANONICAL_COLUMNS.position] || measurement?.id || `row ${index + 1}`;
+
+    const positions = runRows
+      .map((r) => r.row[CANONICAL_COLUMNS.position] ?? "")
+      .filter((p) => p !== "");
+    const isPlate =
+      positions.length === runRows.length &&
+      positions.every((p) => parseWellPosition(p) !== null);
+    const { rows: plateRows, columns: plateColumns } = getPlateDimensions(
+      detectPlateSize(positions)
+    );
+
+    // Numbered tubes keep their number; wells without one are numbered after
+    let nextId = Math.max(0, ...positions.map((p) => parseInt(p, 10) || 0)) + 1;
+    const reactions = new Map<string, RdmlReaction>();
+
+    const sorted = runRows
+      .map((exported, index) => ({
+        exported,
+        key: reactionKey(exported, index),
+      }))
+      .sort((a, b) =>
+        compareWellPositions(
+          a.exported.row[CANONICAL_COLUMNS.position] ?? "",
+          b.exported.row[CANONICAL_COLUMNS.position] ?? ""
+        )
+      );
+
+    for (const { exported, key } of sorted) {
+      const { row } = exported;
+      const position = row[CANONICAL_COLUMNS.position] ?? "";
+
+      if (!reactions.has(key)) {
+        const coords = parseWellPosition(position);
+        const id = isPlate
+          ? coords!.row * plateColumns + coords!.column + 1
+          : parseInt(position, 10) || nextId++;
+        const instrumentSample = row[CANONICAL_COLUMNS.sample]?.trim();
+
+        reactions.set(key, {
+          id,
+          sample:
+            exported.sample || instrumentSample || `Well ${position || id}`,
+          data: [],
+        });
+      }
+
+      reactions.get(key)!.data.push({
+        target: row["Name"],
+        cq: ctColumn ? parseFloat(row[ctColumn]) : NaN,
+        excluded: exclusionReason(exported, config),
+      });
+    }
+
+    return {
+      id: runId || defaultRunId,
+      isPlate,
+      plateRows,
+      plateColumns,
+      reactions,
+    };
+  });
+}
+
+/**
+ * Build the RDML XML document
+ * @param data Parsed TSV data
+ * @param geneDataMap Gene data with replica groups (sample annotations)
+ * @param config Processing configuration
+ * @returns RDML XML string
+ */
+export function buildRdmlXml(
+  data: ParsedTsvData,
+  geneDataMap: Map<string, GeneData>,
+  config: ProcessingConfig
+): string {
+  const ctColumn = detectCtColumn(data);
+  const rows = collectExportedRows(data, geneDataMap);
+
+  // A single plate keeps the file title as its run ID
+  const runs = buildRuns(rows, ctColumn, config, data.title || "Run 1");
+  if (runs.length === 1) runs[0].id = data.title || runs[0].id;
+
+  const sampleNames = Array.from(
+    new Set(
+      runs.flatMap((run) =>
+        Array.from(run.reactions.values()).map((r) => r.sample)
+      )
+    )
+  );
+  const targetNames = Array.from(new Set(rows.map((r) => r.row["Name"])));
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<rdml version="1.2" xmlns="http://www.rdml.org">');
+  lines.push(`  <dateMade>${new Date().toISOString()}</dateMade>`);
+  lines.push(`  <dye id="${DYE_ID}"/>`);
+
+  for (const sample of sampleNames) {
+    lines.push(`  <sample id="${escapeXml(sample)}">`);
+    if (config.controls.includes(sample)) {
+      lines.push("    <annotation>");
+      lines.push(`      <property>${RDML_CONTROL_PROPERTY}</property>`);
+      lines.push("      <value>true</value>");
+      lines.push("    </annotation>");
+    }
+    lines.push("    <type>unkn</type>");
+    lines.push("  </sample>");
+  }
+
+  for (const target of targetNames) {
+    const type = config.housekeepers.includes(target) ? "ref" : "toi";
+    lines.push(`  <target id="${escapeXml(target)}">`);
+    lines.push(`    <type>${type}</type>`);
+    lines.push(`    <dyeId id="${DYE_ID}"/>`);
+    lines.push("  </target>");
+  }
+
+  lines.push('  <experiment id="txt2gp">');
+  for (const run of runs) {
+    lines.push(`    <run id="${escapeXml(run.id)}">`);
+    lines.push("      <pcrFormat>");
+    if (run.isPlate) {
+      lines.push(`        <rows>${run.plateRows}</rows>`);
+      lines.push(`        <columns>${run.plateColumns}</columns>`);
+      lines.push("        <rowLabel>ABC</rowLabel>");
+    } else {
+      lines.push("        <rows>1</rows>");
+      lines.push(
+        `        <columns>${Math.max(run.reactions.size, 1)}</columns>`
+      );
+      lines.push("        <rowLabel>-</rowLabel>");
+    }
+    lines.push("        <columnLabel>123</columnLabel>");
+    lines.push("      </pcrFormat>");
+
+    for (const reaction of run.reactions.values()) {
+      lines.push(`      <react id="${reaction.id}">`);
+      lines.push(`        <sample id="${escapeXml(reaction.sample)}"/>`);
+      for (const entry of reaction.data) {
+        lines.push("        <data>");
+        lines.push(`          <tar id="${escapeXml(entry.target)}"/>`);
+        if (!isNaN(entry.cq)) {
+          lines.push(`          <cq>${entry.cq}</cq>`);
+        }
+        if (entry.excluded) {
+          lines.push(`          <excl>${escapeXml(entry.excluded)}</excl>`);
+        }
+        lines.push("        </data>");
+      }
+      lines.push("      </react>");
+    }
+
+    lines.push("    </run>");
+  }
+  lines.push("  </experiment>");
+  lines.push("</rdml>");
+
+  return lines.join("\n");
+}
+
+/**
+ * Build a zipped .rdml archive
+ * @param data Parsed TSV data
+ * @param geneDataMap Gene data with replica groups
+ * @param config Processing configuration
+ * @returns RDML archive bytes
+ */
+export function buildRdmlArchive(
+  data: ParsedTsvData,
+  geneDataMap: Map<string, GeneData>,
+  config: ProcessingConfig
+): Uint8Array {
+  const xml = buildRdmlXml(data, geneDataMap, config);
+
+  return createZip([
+    { name: "rdml_data.xml", data: new TextEncoder().encode(xml) },
+  ]);
+}
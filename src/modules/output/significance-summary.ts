@@ -0,0 +1,133 @@
+/**
+ * Significance Summary Module
+ * Corrects the group comparisons of all genes for multiple testing and
+ * lists them side by side, with the fold change of each comparison
+ */
+
+import {
+  ConditionSummary,
+  GeneOutputResult,
+  MultipleTestingCorrection,
+  SignificanceSortKey,
+  SignificanceSummaryRow,
+} from "../../types";
+import { adjustPValues } from "../processing/multiple-testing";
+
+/**
+ * Adjust the p-values of the group comparisons across all genes, as one
+ * family of tests
+ * @param outputs Map of gene output results
+ * @param correction Correction method
+ * @returns Map of gene output results with the q-values filled in
+ */
+export function correctAcrossGenes(
+  outputs: Map<string, GeneOutputResult>,
+  correction: MultipleTestingCorrection
+): Map<string, GeneOutputResult> {
+  const pValues = Array.from(outputs.values()).flatMap(
+    (output) => output.significance?.comparisons.map((c) => c.p) ?? []
+  );
+  const qValues = adjustPValues(pValues, correction);
+
+  const corrected = new Map<string, GeneOutputResult>();
+  let next = 0;
+
+  for (const [geneName, output] of outputs) {
+    const significance = output.significance;
+    corrected.set(
+      geneName,
+      significance
+        ? {
+            ...output,
+            significance: {
+              ...significance,
+              comparisons: significance.comparisons.map((c) => ({
+                ...c,
+                q: qValues[next++],
+              })),
+            },
+          }
+        : output
+    );
+  }
+
+  return corrected;
+}
+
+/**
+ * Get the fold change of a comparison from the condition summaries.
+ * References that are not a single condition are the pooled controls.
+ * @param conditions Condition summaries of the gene
+ * @param group Tested condition
+ * @param reference Reference condition
+ * @returns Fold change of group over reference, NaN when unknown
+ */
+function comparisonFoldChange(
+  conditions: ConditionSummary[],
+  group: string,
+  reference: string
+): number {
+  const tested = conditions.find((c) => c.condition === group);
+  const baseline = conditions.find((c) => c.condition === reference);
+  if (!tested) return NaN;
+  if (baseline) return tested.foldChange / baseline.foldChange;
+  return tested.foldChangeVsControl ?? NaN;
+}
+
+/**
+ * List the group comparisons of all genes
+ * @param outputs Map of gene output results, corrected across genes
+ * @returns One row per comparison, in gene order
+ */
+export function buildSignificanceSummary(
+  outputs: Map<string, GeneOutputResult>
+): SignificanceSummaryRow[] {
+  const rows: SignificanceSummaryRow[] = [];
+
+  for (const output of outputs.values()) {
+    for (const c of output.significance?.comparisons ?? []) {
+      const foldChange = comparisonFoldChange(
+        output.conditions,
+        c.group,
+        c.reference
+      );
+      rows.push({
+        geneName: output.geneName,
+        group: c.group,
+        reference: c.reference,
+        foldChange,
+        log2FoldChange: Math.log2(foldChange),
+        p: c.p,
+        q: c.q ?? NaN,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Sort the cross-gene summary, breaking ties by the other key. Rows
+ * without a value go last; full ties keep gene order.
+ * @param rows Summary rows
+ * @param key Sort order
+ * @returns Sorted copy of the rows
+ */
+export function sortSignificanceSummary(
+  rows: SignificanceSummaryRow[],
+  key: SignificanceSortKey
+): SignificanceSummaryRow[] {
+  const significance = (row: SignificanceSummaryRow) => row.q;
+  const change = (row: SignificanceSummaryRow) => -Math.abs(row.log2FoldChange);
+  const keys =
+    key === "significance" ? [significance, change] : [change, significance];
+  const rank = (value: number) => (isFinite(value) ? value : Infinity);
+
+  return [...rows].sort((a, b) => {
+    for (const value of keys) {
+      const difference = rank(value(a)) - rank(value(b));
+      if (difference !== 0 && !isNaN(difference)) return difference;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Absolute Quantification Module
+ * Interpolates the mean Cq of unknown samples on the standard curve of
+ * their gene to get copy numbers instead of fold changes
+ */
+
+import { GeneData } from "../../types";
+import { StandardCurveResult } from "./standard-curve";
+import { mean, standardDeviation } from "./statistics";
+
+/**
+ * Where an unknown falls relative to the linear dynamic range of the curve
+ */
+export type StandardRangeFlag =
+  | "in-range"
+  | "below-range" // Fewer copies than the lowest standard (Cq above it)
+  | "above-range" // More copies than the highest standard (Cq below it)
+  | "no-cq"; // No usable Cq among the replicates
+
+/**
+ * Display text of each range flag
+ */
+export const STANDARD_RANGE_LABELS: Record<StandardRangeFlag, string> = {
+  "in-range": "",
+  "below-range": "Below standard range",
+  "above-range": "Above standard range",
+  "no-cq": "No Cq",
+};
+
+/**
+ * Copy number of one unknown sample
+ */
+export interface AbsoluteQuantityRow {
+  sampleName: string;
+  cqMean: number;
+  cqStd: number;
+  replicateCount: number;
+  copies: number; // Copies per reaction
+  copiesPerUl: number | null; // Copies per µl of input; null without a template volume
+  flag: StandardRangeFlag;
+}
+
+/**
+ * Absolute quantification of one gene
+ */
+export interface AbsoluteQuantificationResult {
+  geneName: string;
+  curve: StandardCurveResult;
+  rows: AbsoluteQuantityRow[];
+}
+
+/**
+ * Interpolate a Cq on a standard curve
+ * @param cq Cq value
+ * @param curve Standard curve (Cq = slope · log10(quantity) + intercept)
+ * @returns Quantity in the unit of the standards
+ */
+export function interpolateQuantity(
+  cq: number,
+  curve: StandardCurveResult
+): number {
+  return Math.pow(10, (cq - curve.intercept) / curve.slope);
+}
+
+/**
+ * Check a quantity against the linear dynamic range of a standard curve
+ * @param copies Interpolated quantity
+ * @param curve Standard curve
+ * @returns Range flag
+ */
+function rangeFlag(
+  copies: number,
+  curve: StandardCurveResult
+): StandardRangeFlag {
+  if (!isFinite(copies)) return "no-cq";
+  if (copies < curve.rangeMin) return "below-range";
+  if (copies > curve.rangeMax) return "above-range";
+  return "in-range";
+}
+
+/**
+ * Quantify the unknown samples of one gene
+ * @param geneData Gene data with replica groups
+ * @param curve Standard curve of the gene
+ * @param standards Quantity per standard sample name; these are not quantified
+ * @param templateVolume µl of input per reaction, or null for copies per reaction only
+ * @returns Copy numbers in sample order
+ */
+export function quantifyGene(
+  geneData: GeneData,
+  curve: StandardCurveResult,
+  standards: Record<string, number>,
+  templateVolume: number | null
+): AbsoluteQuantificationResult {
+  const rows: AbsoluteQuantityRow[] = [];
+
+  for (const group of geneData.replicaGroups) {
+    if (standards[group.sampleName] !== undefined) continue;
+
+    const cqs = group.ctValues.filter((cq) => isFinite(cq));
+    const cqMean = cqs.length > 0 ? mean(cqs) : NaN;
+    const copies = interpolateQuantity(cqMean, curve);
+
+    rows.push({
+      sampleName: group.sampleName,
+      cqMean,
+      cqStd: standardDeviation(cqs),
+      replicateCount: cqs.length,
+      copies,
+      copiesPerUl: templateVolume ? copies / templateVolume : null,
+      flag: rangeFlag(copies, curve),
+    });
+  }
+
+  return { geneName: geneData.name, curve, rows };
+}
+
+/**
+ * Quantify the unknown samples of every gene that has a standard curve
+ * @param geneDataMap Map of all gene data with replica groups
+ * @param curves Standard curves
+ * @param standards Quantity per standard sample name
+ * @param templateVolume µl of input per reaction, or null
+ * @returns Absolute quantification in curve order
+ */
+export function quantifyAllGenes(
+  geneDataMap: Map<string, GeneData>,
+  curves: StandardCurveResult[],
+  standards: Record<string, number>,
+  templateVolume: number | null
+): AbsoluteQuantificationResult[] {
+  const results: AbsoluteQuantificationResult[] = [];
+
+  for (const curve of curves) {
+    const geneData = geneDataMap.get(curve.geneName);
+    if (geneData) {
+      results.push(quantifyGene(geneData, curve, standards, templateVolume));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,295 @@
+/**
+ * Amplification Module
+ * Calls Cq values from raw amplification curves
+ */
+
+import {
+  AmplificationCurve,
+  ParsedTsvData,
+  ProcessingConfig,
+} from "../../types";
+import { CANONICAL_COLUMNS } from "../input/importers/common";
+import { RUN_COLUMN } from "../input/run-merger";
+import { getWellKey } from "./plate-layout";
+import { linearRegression, mean, standardDeviation } from "./statistics";
+
+/**
+ * Cq calling settings
+ */
+export type CqCallingOptions = Pick<
+  ProcessingConfig,
+  "cqMethod" | "cqThreshold" | "baselineStart" | "baselineEnd"
+>;
+
+export const DEFAULT_CQ_CALLING_OPTIONS: CqCallingOptions = {
+  cqMethod: "second-derivative",
+  cqThreshold: null,
+  baselineStart: 3,
+  baselineEnd: 15,
+};
+
+/**
+ * A curve only counts as amplified when it rises this many baseline
+ * standard deviations above the baseline
+ */
+const MIN_SIGNAL_TO_NOISE = 10;
+
+/**
+ * Baseline-corrected curve of one well with its called Cq
+ */
+export interface CalledCurve {
+  wellKey: string;
+  rowIndex: number;
+  sample: string;
+  cycles: number[];
+  corrected: number[];
+  cq: number; // NaN if the well did not amplify
+}
+
+/**
+ * Cq calling result for all wells of one gene
+ */
+export interface GeneAmplification {
+  geneName: string;
+  threshold: number; // Threshold used by the "threshold" method (NaN otherwise)
+  curves: CalledCurve[];
+}
+
+/**
+ * Cycles kept between the end of the baseline and the start of the
+ * exponential phase of an early curve
+ */
+const BASELINE_GAP = 3;
+
+/**
+ * Subtract a straight line fitted through the baseline cycles. The
+ * baseline ends early for curves that start rising inside the window.
+ * @param curve Raw curve
+ * @param start First baseline cycle
+ * @param end Last baseline cycle
+ * @returns Corrected fluorescence and the SD of the baseline residuals
+ */
+export function correctBaseline(
+  curve: AmplificationCurve,
+  start: number,
+  end: number
+): { corrected: number[]; noise: number } {
+  const rise = secondDerivativeMaxCq(curve.cycles, curve.fluorescence);
+  if (!isNaN(rise)) end = Math.min(end, Math.floor(rise) - BASELINE_GAP);
+
+  let indices = curve.cycles
+    .map((cycle, i) => (cycle >= start && cycle <= end ? i : -1))
+    .filter((i) => i >= 0);
+
+  // Fall back to the first third of the run for short curves
+  if (indices.length < 3) {
+    const count = Math.max(3, Math.floor(curve.cycles.length / 3));
+    indices = curve.cycles.slice(0, count).map((_, i) => i);
+  }
+
+  const fit = linearRegression(
+    indices.map((i) => curve.cycles[i]),
+    indices.map((i) => curve.fluorescence[i])
+  );
+  const slope = isNaN(fit.slope) ? 0 : fit.slope;
+  const intercept = isNaN(fit.intercept)
+    ? mean(curve.fluorescence)
+    : fit.intercept;
+
+  const corrected = curve.fluorescence.map(
+    (f, i) => f - (slope * curve.cycles[i] + intercept)
+  );
+
+  return {
+    corrected,
+    noise: standardDeviation(indices.map((i) => corrected[i])),
+  };
+}
+
+/**
+ * Check whether a corrected curve rises clearly above its baseline noise
+ * @param corrected Baseline-corrected fluorescence
+ * @param noise SD of the baseline residuals
+ * @returns True if the curve amplified
+ */
+function isAmplified(corrected: number[], noise: number): boolean {
+  const amplitude = Math.max(...corrected);
+  return amplitude > 0 && amplitude > MIN_SIGNAL_TO_NOISE * noise;
+}
+
+/**
+ * Call Cq as the cycle where the curve first crosses a threshold,
+ * interpolated linearly between the two surrounding cycles
+ * @param cycles Cycle numbers
+ * @param corrected Baseline-corrected fluorescence
+ * @param threshold Fluorescence threshold
+ * @returns Cq (NaN if the curve never crosses the threshold)
+ */
+export function thresholdCq(
+  cycles: number[],
+  corrected: number[],
+  threshold: number
+): number {
+  for (let i = 1; i < corrected.length; i++) {
+    if (corrected[i - 1] < threshold && corrected[i] >= threshold) {
+      const fraction =
+        (threshold - corrected[i - 1]) / (corrected[i] - corrected[i - 1]);
+      return cycles[i - 1] + fraction * (cycles[i] - cycles[i - 1]);
+    }
+  }
+
+  return NaN;
+}
+
+/**
+ * Call Cq at the maximum of the second derivative, refined by fitting a
+ * parabola through the maximum and its neighbours
+ * @param cycles Cycle numbers (evenly spaced)
+ * @param corrected Baseline-corrected fluorescence
+ * @returns Cq (NaN for curves shorter than three cycles)
+ */
+export function secondDerivativeMaxCq(
+  cycles: number[],
+  corrected: number[]
+): number {
+  if (corrected.length < 3) return NaN;
+
+  const step = cycles[1] - cycles[0];
+  const second = corrected.map((f, i) =>
+    i === 0 || i === corrected.length - 1
+      ? -Infinity
+      : (corrected[i + 1] - 2 * f + corrected[i - 1]) / (step * step)
+  );
+
+  let peak = 1;
+  for (let i = 2; i < second.length - 1; i++) {
+    if (second[i] > second[peak]) peak = i;
+  }
+
+  // Parabolic interpolation needs a neighbour on both sides
+  const before = second[peak - 1];
+  const after = second[peak + 1];
+  const curvature = before - 2 * second[peak] + after;
+  const offset =
+    peak > 1 && peak < second.length - 2 && curvature !== 0
+      ? (before - after) / (2 * curvature)
+      : 0;
+
+  return cycles[peak] + offset * step;
+}
+
+/**
+ * Pick the automatic threshold for a gene: ten times the mean baseline
+ * noise, but at least 1% of the median amplitude of the amplified wells
+ * @param corrected Corrected curves with their baseline noise
+ * @returns Threshold (NaN if no well amplified)
+ */
+function autoThreshold(
+  corrected: { corrected: number[]; noise: number }[]
+): number {
+  const amplified = corrected.filter((c) => isAmplified(c.corrected, c.noise));
+  if (amplified.length === 0) return NaN;
+
+  const amplitudes = amplified
+    .map((c) => Math.max(...c.corrected))
+    .sort((a, b) => a - b);
+  const median = amplitudes[Math.floor(amplitudes.length / 2)];
+
+  return Math.max(
+    MIN_SIGNAL_TO_NOISE * mean(amplified.map((c) => c.noise)),
+    median * 0.01
+  );
+}
+
+/**
+ * Call Cq values for every gene with raw amplification curves
+ * @param data Parsed data with amplification curves
+ * @param options Cq calling settings
+ * @returns Cq calling result per gene, in data order
+ */
+export function callCqValues(
+  data: ParsedTsvData,
+  options: CqCallingOptions = DEFAULT_CQ_CALLING_OPTIONS
+): Map<string, GeneAmplification> {
+  const results = new Map<string, GeneAmplification>();
+  if (!data.amplification) return results;
+
+  // Collect each gene's curves in data order
+  const wellsByGene = new Map<
+    string,
+    { wellKey: string; rowIndex: number; sample: string }[]
+  >();
+  data.rows.forEach((row, rowIndex) => {
+    const geneName = row[CANONICAL_COLUMNS.name]?.trim();
+    const position = row[CANONICAL_COLUMNS.position]?.trim() ?? "";
+    const wellKey = getWellKey(row[RUN_COLUMN] ?? "", position);
+    if (!geneName || !data.amplification?.[wellKey]) return;
+
+    const wells = wellsByGene.get(geneName) ?? [];
+    wells.push({
+      wellKey,
+      rowIndex,
+      sample: row[CANONICAL_COLUMNS.sample]?.trim() ?? "",
+    });
+    wellsByGene.set(geneName, wells);
+  });
+
+  for (const [geneName, wells] of wellsByGene) {
+    const curves = wells.map((w) => data.amplification![w.wellKey]);
+    const corrected = curves.map((c) =>
+      correctBaseline(c, options.baselineStart, options.baselineEnd)
+    );
+
+    const threshold =
+      options.cqMethod === "threshold"
+        ? (options.cqThreshold ?? autoThreshold(corrected))
+        : NaN;
+
+    results.set(geneName, {
+      geneName,
+      threshold,
+      curves: wells.map((well, i) => {
+        const { cycles } = curves[i];
+        const c = corrected[i];
+        let cq = NaN;
+        if (isAmplified(c.corrected, c.noise)) {
+          cq =
+            options.cqMethod === "threshold"
+              ? thresholdCq(cycles, c.corrected, threshold)
+              : secondDerivativeMaxCq(cycles, c.corrected);
+        }
+
+        return { ...well, cycles, corrected: c.corrected, cq };
+      }),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Fill the Cq column of wells imported as raw curves with called values.
+ * Wells without amplification get an empty Cq, so the missing Cq policy
+ * applies to them.
+ * @param data Parsed data
+ * @param options Cq calling settings
+ * @returns Data with called Cq values (the input itself if it has no curves)
+ */
+export function applyCqCalling(
+  data: ParsedTsvData,
+  options: CqCallingOptions = DEFAULT_CQ_CALLING_OPTIONS
+): ParsedTsvData {
+  if (!data.amplification) return data;
+
+  const rows = data.rows.slice();
+  for (const gene of callCqValues(data, options).values()) {
+    for (const curve of gene.curves) {
+      rows[curve.rowIndex] = {
+        ...rows[curve.rowIndex],
+        [CANONICAL_COLUMNS.cq]: isNaN(curve.cq) ? "" : curve.cq.toFixed(2),
+      };
+    }
+  }
+
+  return { ...data, rows };
+}
@@ -0,0 +1,57 @@
+/**
+ * Condition Summary Module
+ * Rolls biological replicates up into condition groups. Technical
+ * replicates are already averaged into each sample's ΔCT, so every sample
+ * counts once, whatever its number of wells.
+ */
+
+import { ConditionSummary, ProcessingTableRow } from "../../types";
+import { SampleCondition } from "./sample-sheet";
+import { geometricMean, mean, standardDeviation } from "./statistics";
+
+/**
+ * Summarise the biological replicates of each condition
+ * @param rows Processing table rows of a gene
+ * @param conditions Conditions with their samples
+ * @returns Summary per condition with at least one replicate, in condition order
+ */
+export function summarizeConditions(
+  rows: ProcessingTableRow[],
+  conditions: SampleCondition[]
+): ConditionSummary[] {
+  const mainRows = rows.filter((r) => !r.isReplicaRow);
+  const replicatesOf = (condition: SampleCondition) =>
+    mainRows.filter((r) => condition.sampleNames.includes(r.sampleName));
+
+  const controlFoldChanges = conditions
+    .filter((c) => c.isControl)
+    .flatMap((c) => replicatesOf(c).map((r) => r.foldChange));
+  const controlFoldChange =
+    controlFoldChanges.length > 0 ? geometricMean(controlFoldChanges) : null;
+
+  const summaries: ConditionSummary[] = [];
+
+  for (const condition of conditions) {
+    const replicates = replicatesOf(condition);
+    if (replicates.length === 0) continue;
+
+    const deltaCts = replicates.map((r) => r.deltaCt);
+    const sd = standardDeviation(deltaCts);
+    const foldChange = geometricMean(replicates.map((r) => r.foldChange));
+
+    summaries.push({
+      condition: condition.name,
+      isControl: condition.isControl,
+      sampleNames: replicates.map((r) => r.sampleName),
+      n: replicates.length,
+      meanDeltaCt: mean(deltaCts),
+      sdDeltaCt: sd,
+      semDeltaCt: replicates.length > 1 ? sd / Math.sqrt(replicates.length) : 0,
+      foldChange,
+      foldChangeVsControl:
+        controlFoldChange === null ? null : foldChange / controlFoldChange,
+    });
+  }
+
+  return summaries;
+}
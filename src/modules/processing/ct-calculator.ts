@@ -6,17 +6,97 @@
 import {
   CtMeasurement,
   GeneData,
+  MeasurementFlag,
   ParsedTsvData,
+  ProcessingConfig,
   ReplicaGroup,
+  ReplicateLayout,
+  WellAssignment,
 } from "../../types";
+import { CANONICAL_COLUMNS } from "../input/importers/common";
+import { RUN_COLUMN } from "../input/run-merger";
+import { compileStatusRules } from "../input/status-rules";
 import { detectCtColumn, shouldIgnoreRow } from "../input/tsv-parser";
+import { meltDeviationsByRow } from "./melt-curve";
+import { flagOutliers } from "./outliers";
+import {
+  collectRunSlots,
+  deriveAssignedSamples,
+  findLineSpan,
+  getAssignmentLabel,
+  getWellKey,
+  hasWellAssignments,
+  hasWellPositions,
+  orderWellSlots,
+  parseWellPosition,
+  RunSlots,
+  splitByRun,
+} from "./plate-layout";
+
+/**
+ * Default max cycle number substituted for missing Cq values
+ */
+export const DEFAULT_MAX_CYCLE = 40;
+
+/**
+ * Settings that decide which wells are used when extracting gene data
+ */
+export type ExtractionOptions = Pick<
+  ProcessingConfig,
+  "missingCqPolicy" | "maxCycle" | "statusRules" | "manualExclusions"
+>;
+
+const DEFAULT_EXTRACTION_OPTIONS: ExtractionOptions = {
+  missingCqPolicy: "exclude",
+  maxCycle: DEFAULT_MAX_CYCLE,
+  statusRules: [],
+  manualExclusions: {},
+};
 
 /**
- * Extract all gene data from parsed TSV (filters out "Sample X" rows)
+ * Build the ID identifying a gene's measurement in one well. Without a
+ * position the well is identified by its instrument sample name and its
+ * order among that gene's wells of the sample on the run, which does not
+ * change when other runs are added or removed.
+ * @param geneName Gene name
+ * @param run Run ID
+ * @param position Well position (empty if unknown)
+ * @param sampleName Instrument sample name (empty if unknown), used
+ *                   without a position
+ * @param occurrence 1-based number of the well among the gene's wells of
+ *                   the sample on the run, used without a position
+ * @returns Measurement ID
+ */
+export function getMeasurementId(
+  geneName: string,
+  run: string,
+  position: string,
+  sampleName: string,
+  occurrence: number
+): string {
+  const well = getWellKey(
+    run,
+    position || `${sampleName ? `${sampleName} ` : ""}#${occurrence}`
+  );
+  return `${geneName}@${well}`;
+}
+
+/**
+ * Extract all gene data from parsed TSV (filters out "Sample X" rows).
+ * Wells without a usable Cq are kept so that replicate grouping stays
+ * aligned, and handled according to the missing Cq policy; status rules
+ * then exclude or flag wells by their instrument status, melt curves
+ * flag wells that differ from their gene, and manual exclusions mask
+ * single replicates.
  * @param data Parsed TSV data
+ * @param options Missing Cq policy, status rules and manual exclusions
  * @returns Map of gene name to gene data
  */
-export function extractGeneData(data: ParsedTsvData): Map<string, GeneData> {
+export function extractGeneData(
+  data: ParsedTsvData,
+  options: ExtractionOptions = DEFAULT_EXTRACTION_OPTIONS
+): Map<string, GeneData> {
+  const { missingCqPolicy, maxCycle, statusRules, manualExclusions } = options;
   const geneMap = new Map<string, GeneData>();
   const ctColumn = detectCtColumn(data);
 
@@ -24,6 +104,10 @@ export function extractGeneData(data: ParsedTsvData): Map<string, GeneData> {
     throw new Error("Could not detect CT value column");
   }
 
+  const meltDeviations = meltDeviationsByRow(data);
+  const matchStatusRule = compileStatusRules(statusRules);
+  const occurrences = new Map<string, number>(); // Wells per run, gene and sample
+
   data.rows.forEach((row, index) => {
     // Skip "Sample X" rows
     if (shouldIgnoreRow(row)) return;
@@ -31,8 +115,62 @@ export function extractGeneData(data: ParsedTsvData): Map<string, GeneData> {
     const geneName = row["Name"];
     if (!geneName) return;
 
-    const ctValue = parseFloat(row[ctColumn]);
-    if (isNaN(ctValue)) return;
+    // "Undetermined", "N/A", blank and ">40" all count as missing
+    const cqText = row[ctColumn]?.trim() ?? "";
+    const parsed = parseFloat(cqText);
+    const isMissing = !isFinite(parsed);
+    const substitute = isMissing && missingCqPolicy === "max-cycle";
+    const ctValue = substitute ? maxCycle : parsed;
+
+    const flags: MeasurementFlag[] = [];
+    if (isMissing) {
+      const shown = cqText ? `"${cqText}"` : "blank";
+      flags.push(
+        substitute
+          ? {
+              kind: "substituted",
+              message: `No Cq (${shown}), max cycle ${maxCycle} used`,
+            }
+          : { kind: "missing", message: `No Cq (${shown}), well excluded` }
+      );
+    }
+
+    const rule = matchStatusRule(row);
+    const status = row[CANONICAL_COLUMNS.status]?.trim() ?? "";
+    if (rule?.action === "exclude") {
+      flags.push({
+        kind: "status-excluded",
+        message: `Status "${status}", well excluded`,
+      });
+    } else if (rule?.action === "warn") {
+      flags.push({ kind: "status-warning", message: `Status "${status}"` });
+    }
+
+    const meltDeviation = meltDeviations.get(index);
+    if (meltDeviation) {
+      flags.push({ kind: "melt", message: `Melt curve: ${meltDeviation}` });
+    }
+
+    const position = row[CANONICAL_COLUMNS.position]?.trim() ?? "";
+    const run = row[RUN_COLUMN] ?? "";
+    const sampleName = row[CANONICAL_COLUMNS.sample]?.trim() ?? "";
+    const occurrenceKey = `${run}\t${geneName}\t${sampleName}`;
+    const occurrence = (occurrences.get(occurrenceKey) ?? 0) + 1;
+    occurrences.set(occurrenceKey, occurrence);
+    const id = getMeasurementId(
+      geneName,
+      run,
+      position,
+      sampleName,
+      occurrence
+    );
+    const manual = manualExclusions[id];
+    if (manual) {
+      flags.push({
+        kind: "manual",
+        message: `Excluded manually${manual.reason ? `: ${manual.reason}` : ""}`,
+      });
+    }
 
     if (!geneMap.has(geneName)) {
       geneMap.set(geneName, {
@@ -44,73 +182,337 @@ export function extractGeneData(data: ParsedTsvData): Map<string, GeneData> {
 
     const geneData = geneMap.get(geneName)!;
     geneData.measurements.push({
+      id,
       value: ctValue,
+      rawValue: ctValue,
       rowIndex: index,
+      position,
+      run,
+      excluded:
+        (isMissing && !substitute) ||
+        rule?.action === "exclude" ||
+        manual !== undefined,
+      flags,
     });
   });
 
   return geneMap;
 }
 
+/**
+ * Get the CT values of the wells that are not excluded
+ * @param measurements Measurements of a replica group
+ * @returns CT values used in the statistics
+ */
+export function includedValues(measurements: CtMeasurement[]): number[] {
+  return measurements.filter((m) => !m.excluded).map((m) => m.value);
+}
+
 /**
  * Group CT measurements into replica groups
  * @param measurements Array of CT measurements
- * @param replicaCount Number of replicas per sample
+ * @param replicaCount Default number of replicas per sample
  * @param sampleNames Array of sample names
+ * @param layout How replicates are arranged on the plate
+ * @param runSlots Sample slots shared by all genes per run
+ * @param sampleCounts Replicas per sample where they differ from the default
  * @returns Array of replica groups
  */
 export function groupIntoReplicas(
   measurements: CtMeasurement[],
   replicaCount: number,
-  sampleNames: string[]
+  sampleNames: string[],
+  layout: ReplicateLayout = "row-order",
+  runSlots?: Map<string, RunSlots>,
+  sampleCounts: number[] = []
 ): ReplicaGroup[] {
+  // Position-aware layouts need a well position on every measurement.
+  // Each run is laid out on its own; samples continue in plate order.
+  if (layout !== "row-order" && hasWellPositions(measurements)) {
+    const slotsByRun =
+      runSlots ??
+      collectRunSlots([measurements], replicaCount, layout, [sampleCounts]);
+    const groups: ReplicaGroup[] = [];
+
+    for (const [run, runMeasurements] of splitByRun(measurements)) {
+      const { columns, positions, sampleOffset } = slotsByRun.get(run) ?? {
+        columns: [],
+        positions: [],
+        sampleOffset: 0,
+      };
+      const runNames = sampleNames.slice(sampleOffset);
+      const runGroups =
+        layout === "column"
+          ? groupByColumn(runMeasurements, runNames, columns)
+          : groupSlots(
+              orderWellSlots(
+                runMeasurements,
+                layout,
+                findLineSpan(runMeasurements, layout, positions)
+              ),
+              replicaCount,
+              runNames,
+              sampleCounts.slice(sampleOffset)
+            );
+
+      runGroups.forEach((g) => (g.sampleNumber += sampleOffset));
+      groups.push(...runGroups);
+    }
+
+    return groups;
+  }
+
   const groups: ReplicaGroup[] = [];
+  let startIndex = 0;
 
   for (let i = 0; i < sampleNames.length; i++) {
-    const startIndex = i * replicaCount;
-    const endIndex = startIndex + replicaCount;
+    const endIndex = startIndex + (sampleCounts[i] ?? replicaCount);
 
     if (endIndex > measurements.length) break;
 
-    const ctValues = measurements
+    const groupMeasurements = measurements.slice(startIndex, endIndex);
+    startIndex = endIndex;
+
+    groups.push({
+      sampleName: sampleNames[i],
+      sampleNumber: i + 1,
+      ctValues: includedValues(groupMeasurements),
+      measurements: groupMeasurements,
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * Cut ordered well slots into consecutive replicate blocks.
+ * Empty slots count towards their block, so a missing well only shortens
+ * its own sample instead of shifting every following one.
+ * @param slots Measurements and gaps in layout order
+ * @param replicaCount Default number of replicas per sample
+ * @param sampleNames Array of sample names
+ * @param sampleCounts Replicas per sample where they differ from the default
+ * @returns Array of replica groups
+ */
+function groupSlots(
+  slots: (CtMeasurement | null)[],
+  replicaCount: number,
+  sampleNames: string[],
+  sampleCounts: number[] = []
+): ReplicaGroup[] {
+  const groups: ReplicaGroup[] = [];
+  let startIndex = 0;
+
+  for (let i = 0; i < sampleNames.length; i++) {
+    if (startIndex >= slots.length) break;
+
+    const endIndex = startIndex + (sampleCounts[i] ?? replicaCount);
+    const groupMeasurements = slots
       .slice(startIndex, endIndex)
-      .map((m) => m.value);
+      .filter((m): m is CtMeasurement => m !== null);
+    startIndex = endIndex;
+
+    groups.push({
+      sampleName: sampleNames[i],
+      sampleNumber: i + 1,
+      ctValues: includedValues(groupMeasurements),
+      measurements: groupMeasurements,
+    });
+  }
+
+  return groups;
+}
+
+/**
+ * Group measurements so that each plate column is one sample
+ * @param measurements Measurements of one gene (all with positions)
+ * @param sampleNames Array of sample names
+ * @param plateColumns Columns used on the plate by any gene, ascending
+ * @returns Array of replica groups
+ */
+function groupByColumn(
+  measurements: CtMeasurement[],
+  sampleNames: string[],
+  plateColumns: number[]
+): ReplicaGroup[] {
+  const groups: ReplicaGroup[] = [];
+
+  for (let i = 0; i < sampleNames.length && i < plateColumns.length; i++) {
+    const groupMeasurements = measurements
+      .filter((m) => parseWellPosition(m.position)!.column === plateColumns[i])
+      .sort(
+        (a, b) =>
+          parseWellPosition(a.position)!.row -
+          parseWellPosition(b.position)!.row
+      );
 
     groups.push({
       sampleName: sampleNames[i],
       sampleNumber: i + 1,
-      ctValues,
+      ctValues: includedValues(groupMeasurements),
+      measurements: groupMeasurements,
     });
   }
 
   return groups;
 }
 
+/**
+ * Group measurements by the sample assigned to their well in the plate map.
+ * Unassigned and excluded wells are left out.
+ * @param measurements Measurements of one gene
+ * @param assignments Well assignments keyed by well key
+ * @param sampleNames Sample labels in plate order
+ * @returns Array of replica groups
+ */
+export function groupByAssignment(
+  measurements: CtMeasurement[],
+  assignments: Record<string, WellAssignment>,
+  sampleNames: string[]
+): ReplicaGroup[] {
+  return sampleNames.map((sampleName, i) => {
+    const groupMeasurements = measurements.filter((m) => {
+      const assignment = assignments[getWellKey(m.run, m.position)];
+      return (
+        assignment &&
+        !assignment.excluded &&
+        getAssignmentLabel(assignment) === sampleName
+      );
+    });
+
+    return {
+      sampleName,
+      sampleNumber: i + 1,
+      ctValues: includedValues(groupMeasurements),
+      measurements: groupMeasurements,
+    };
+  });
+}
+
+/**
+ * Get the number of replicas of each sample for a gene, taking the
+ * per-sample and per-gene counts from the sample list into account
+ * @param config Processing configuration
+ * @param geneName Gene name
+ * @returns Replica count per sample, aligned with config.samples
+ */
+export function getSampleReplicaCounts(
+  config: ProcessingConfig,
+  geneName: string
+): number[] {
+  return config.samples.map((sample) => {
+    const override = config.sampleReplicates[sample];
+    return (
+      override?.geneCounts[geneName] ?? override?.count ?? config.replicaCount
+    );
+  });
+}
+
 /**
  * Build gene data with replica grouping
  * @param data Parsed TSV data
- * @param replicaCount Number of replicas per sample
- * @param sampleNames Array of sample names
+ * @param config Processing configuration
  * @returns Map of gene name to complete gene data
  */
 export function buildGeneDataWithGroups(
   data: ParsedTsvData,
-  replicaCount: number,
-  sampleNames: string[]
+  config: ProcessingConfig
 ): Map<string, GeneData> {
-  const geneMap = extractGeneData(data);
+  const geneMap = extractGeneData(data, config);
+
+  // A plate map, when present, replaces the sample list and layout rule
+  if (hasWellAssignments(config.wellAssignments)) {
+    const runOrder = Array.from(
+      new Set(data.rows.map((r) => r[RUN_COLUMN] ?? ""))
+    );
+    const { samples } = deriveAssignedSamples(config.wellAssignments, runOrder);
 
-  for (const [geneName, geneData] of geneMap) {
-    geneData.replicaGroups = groupIntoReplicas(
-      geneData.measurements,
-      replicaCount,
-      sampleNames
+    for (const geneData of geneMap.values()) {
+      geneData.replicaGroups = groupByAssignment(
+        geneData.measurements,
+        config.wellAssignments,
+        samples
+      );
+    }
+  } else {
+    const genes = Array.from(geneMap.values());
+    const sampleCountsByGene = genes.map((g) =>
+      getSampleReplicaCounts(config, g.name)
     );
+
+    // Sample slots (and columns in the "column" layout) are shared by all
+    // genes of a run
+    const runSlots =
+      config.replicateLayout === "row-order"
+        ? undefined
+        : collectRunSlots(
+            genes.map((g) => g.measurements),
+            config.replicaCount,
+            config.replicateLayout,
+            sampleCountsByGene
+          );
+
+    genes.forEach((geneData, geneIndex) => {
+      geneData.replicaGroups = groupIntoReplicas(
+        geneData.measurements,
+        config.replicaCount,
+        config.samples,
+        config.replicateLayout,
+        runSlots,
+        sampleCountsByGene[geneIndex]
+      );
+    });
+  }
+
+  // Replicates are checked for outliers once they are grouped
+  for (const geneData of geneMap.values()) {
+    flagOutliers(geneData, config);
   }
 
   return geneMap;
 }
 
+/**
+ * Count how many samples the data supports for a replicate layout
+ * @param data Parsed TSV data
+ * @param replicaCount Number of replicas per sample
+ * @param layout Replicate layout
+ * @returns Number of samples found across all runs
+ */
+export function countSampleSlots(
+  data: ParsedTsvData,
+  replicaCount: number,
+  layout: ReplicateLayout
+): number {
+  const geneMap = extractGeneData(data);
+  const measurementsByGene = Array.from(geneMap.values()).map(
+    (g) => g.measurements
+  );
+
+  // Runs are laid out one after another
+  if (
+    layout !== "row-order" &&
+    measurementsByGene.every((m) => hasWellPositions(m))
+  ) {
+    const runSlots = collectRunSlots(measurementsByGene, replicaCount, layout);
+    return Array.from(runSlots.values()).reduce(
+      (total, slots) => total + slots.sampleCount,
+      0
+    );
+  }
+
+  let maxSlots = 0;
+
+  for (const measurements of measurementsByGene) {
+    maxSlots = Math.max(
+      maxSlots,
+      Math.floor(measurements.length / replicaCount)
+    );
+  }
+
+  return maxSlots;
+}
+
 /**
  * Get CT values for a specific gene and sample
  * @param geneData Gene data
@@ -128,14 +530,16 @@ export function getCtValuesForSample(
 }
 
 /**
- * Get all genes except the housekeeper
+ * Get all genes except the housekeepers
  * @param geneMap Map of all genes
- * @param housekeeperName Name of housekeeper gene
+ * @param housekeeperNames Names of housekeeper genes
  * @returns Array of non-housekeeper gene names
  */
 export function getTargetGenes(
   geneMap: Map<string, GeneData>,
-  housekeeperName: string
+  housekeeperNames: string[]
 ): string[] {
-  return Array.from(geneMap.keys()).filter((name) => name !== housekeeperName);
+  return Array.from(geneMap.keys()).filter(
+    (name) => !housekeeperNames.includes(name)
+  );
 }
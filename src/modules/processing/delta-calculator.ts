@@ -4,169 +4,415 @@
  */
 
 import {
+  AppliedCalibrator,
   GeneData,
+  GeneEfficiency,
   GeneProcessingResult,
   ProcessingConfig,
   ProcessingTableRow,
+  ReferenceCq,
+  ReplicaGroup,
 } from "../../types";
+import { summarizeConditions } from "./condition-summary";
+import { calibrateAllGenes } from "./inter-run-calibration";
+import { groupSamplesByCondition } from "./sample-sheet";
 import {
   combinedStandardDeviation,
   foldChange,
+  geometricMean,
   mean,
+  meanStandardDeviation,
+  relativeQuantity,
   sem,
   standardDeviation,
 } from "./statistics";
 
 /**
- * Calculate processing table rows for a gene
+ * A sample with values for the target and every housekeeper
+ */
+interface SampleGroups {
+  targetGroup: ReplicaGroup;
+  refGroups: ReplicaGroup[];
+}
+
+/**
+ * Calculate processing table rows for a gene. With several housekeepers the
+ * target is normalised to their geometric mean relative quantity (qbase):
+ * for 2^-ΔΔCT that is the arithmetic mean of their [CT].
  * @param targetGene Target gene data
- * @param housekeeperGene Housekeeper gene data
+ * @param referenceGenes Housekeeper gene data
  * @param config Processing configuration
- * @returns Array of processing table rows
+ * @returns Processing table rows and the calibrator their ΔΔCT is taken against
  */
 export function calculateProcessingRows(
   targetGene: GeneData,
-  housekeeperGene: GeneData,
+  referenceGenes: GeneData[],
   config: ProcessingConfig
-): ProcessingTableRow[] {
+): { rows: ProcessingTableRow[]; calibrator: AppliedCalibrator } {
   const rows: ProcessingTableRow[] = [];
-  const { replicaCount } = config;
-
-  // First pass: calculate ΔCT for all samples to get reference
-  const deltaCts: number[] = [];
+  const isPfaffl = config.quantificationMethod === "pfaffl";
 
-  for (let i = 0; i < targetGene.replicaGroups.length; i++) {
-    const targetGroup = targetGene.replicaGroups[i];
-    const hkGroup = housekeeperGene.replicaGroups[i];
+  const targetEfficiency = getAppliedEfficiency(targetGene.name, config);
+  const referenceEfficiencies = referenceGenes.map((g) =>
+    getAppliedEfficiency(g.name, config)
+  );
 
-    if (!targetGroup || !hkGroup) continue;
-
-    const targetMean = mean(targetGroup.ctValues);
-    const hkMean = mean(hkGroup.ctValues);
-    const deltaCt = targetMean - hkMean;
-    deltaCts.push(deltaCt);
+  // Samples with values for the target and every housekeeper
+  const samples: SampleGroups[] = [];
+  for (const targetGroup of targetGene.replicaGroups) {
+    const refGroups = findMatchingGroups(referenceGenes, targetGroup);
+    if (refGroups && hasValues(targetGroup, refGroups)) {
+      samples.push({ targetGroup, refGroups });
+    }
   }
 
-  // Reference ΔCT is the first sample's value
-  const referenceDeltaCt = deltaCts.length > 0 ? deltaCts[0] : 0;
-
-  // Second pass: build complete rows
-  for (let i = 0; i < targetGene.replicaGroups.length; i++) {
-    const targetGroup = targetGene.replicaGroups[i];
-    const hkGroup = housekeeperGene.replicaGroups[i];
-
-    if (!targetGroup || !hkGroup) continue;
+  // Calibrator [CT] of the target and each housekeeper: averaged over the
+  // calibrator samples, so their mean ΔCT is the calibrator ΔCT
+  const { calibratorSamples, fallback } = selectCalibratorSamples(
+    samples,
+    config
+  );
+  const referenceCtMean = mean(
+    calibratorSamples.map((s) => mean(s.targetGroup.ctValues))
+  );
+  const referenceRefMeans = referenceGenes.map((_, i) =>
+    mean(calibratorSamples.map((s) => mean(s.refGroups[i].ctValues)))
+  );
+  const referenceDeltaCt = referenceCtMean - mean(referenceRefMeans);
 
+  for (const { targetGroup, refGroups } of samples) {
     // Calculate statistics
     const ctMean = mean(targetGroup.ctValues);
     const ctStd = standardDeviation(targetGroup.ctValues);
-    const hkMean = mean(hkGroup.ctValues);
-    const hkStd = standardDeviation(hkGroup.ctValues);
+    const references: ReferenceCq[] = refGroups.map((g, i) => ({
+      geneName: referenceGenes[i].name,
+      ctValues: g.ctValues,
+      rawCtValues: rawValues(g),
+      ctStd: standardDeviation(g.ctValues),
+      ctMean: mean(g.ctValues),
+    }));
+    const hkMean = mean(references.map((r) => r.ctMean));
+    const hkStd = meanStandardDeviation(references.map((r) => r.ctStd));
 
     // Delta calculations
     const deltaCt = ctMean - hkMean;
     const deltaDeltaCt = deltaCt - referenceDeltaCt;
 
-    // Combined standard deviation and SEM
+    // Combined standard deviation and SEM over the replicates actually used
     const combinedStd = combinedStandardDeviation(ctStd, hkStd);
-    const semValue = sem(combinedStd, replicaCount, replicaCount);
+    const semValue = sem(
+      combinedStd,
+      targetGroup.ctValues.length,
+      mean(references.map((r) => r.ctValues.length))
+    );
+
+    // Normalisation factor relative to the calibrator
+    const normalizationFactor = geometricMean(
+      references.map((r, i) =>
+        relativeQuantity(
+          referenceEfficiencies[i],
+          referenceRefMeans[i] - r.ctMean
+        )
+      )
+    );
 
-    // Fold change
-    const foldChangeValue = foldChange(deltaDeltaCt);
+    // Fold change, efficiency-corrected in Pfaffl mode
+    const foldChangeValue = isPfaffl
+      ? relativeQuantity(targetEfficiency, referenceCtMean - ctMean) /
+        normalizationFactor
+      : foldChange(deltaDeltaCt);
 
     // Main row (summary)
     rows.push({
       sampleNumber: targetGroup.sampleNumber,
       sampleName: targetGroup.sampleName,
       ctValues: targetGroup.ctValues,
+      rawCtValues: rawValues(targetGroup),
       ctStd,
       ctMean,
-      hkCtValues: hkGroup.ctValues,
+      references,
       hkCtStd: hkStd,
       hkCtMean: hkMean,
       deltaCt,
       deltaDeltaCt,
       combinedStd,
+      normalizationFactor,
       foldChange: foldChangeValue,
       sem: semValue,
       isReplicaRow: false,
+      warnings: sampleWarnings(targetGroup, refGroups, config),
     });
 
-    // Add individual replica rows
-    for (let r = 0; r < replicaCount; r++) {
-      if (r < targetGroup.ctValues.length) {
-        rows.push({
-          sampleNumber: targetGroup.sampleNumber,
-          sampleName: targetGroup.sampleName,
-          ctValues: [targetGroup.ctValues[r]],
-          ctStd: 0,
-          ctMean: 0,
-          hkCtValues: [hkGroup.ctValues[r] ?? 0],
-          hkCtStd: 0,
-          hkCtMean: 0,
-          deltaCt: 0,
-          deltaDeltaCt: 0,
-          combinedStd: 0,
-          foldChange: 0,
-          sem: 0,
-          isReplicaRow: true,
-          replicaIndex: r,
-        });
-      }
+    // Add individual replica rows, including excluded wells
+    const wellCount = Math.max(
+      targetGroup.measurements.length,
+      ...refGroups.map((g) => g.measurements.length)
+    );
+
+    for (let r = 0; r < wellCount; r++) {
+      const measurement = targetGroup.measurements[r];
+
+      rows.push({
+        sampleNumber: targetGroup.sampleNumber,
+        sampleName: targetGroup.sampleName,
+        ctValues: [measurement?.value ?? NaN],
+        rawCtValues: [measurement?.rawValue ?? NaN],
+        ctStd: 0,
+        ctMean: 0,
+        references: refGroups.map((g, i) => {
+          const refMeasurement = g.measurements[r];
+          return {
+            geneName: referenceGenes[i].name,
+            ctValues: [refMeasurement?.value ?? NaN],
+            rawCtValues: [refMeasurement?.rawValue ?? NaN],
+            ctStd: 0,
+            ctMean: 0,
+            measurement: refMeasurement,
+          };
+        }),
+        hkCtStd: 0,
+        hkCtMean: 0,
+        deltaCt: 0,
+        deltaDeltaCt: 0,
+        combinedStd: 0,
+        normalizationFactor: 0,
+        foldChange: 0,
+        sem: 0,
+        isReplicaRow: true,
+        replicaIndex: r,
+        measurement,
+        warnings: [],
+      });
     }
   }
 
-  return rows;
+  return {
+    rows,
+    calibrator: {
+      mode: config.deltaCtCalibrator.mode,
+      sampleNames: calibratorSamples.map((s) => s.targetGroup.sampleName),
+      deltaCt: referenceDeltaCt,
+      fallback,
+    },
+  };
+}
+
+/**
+ * Pick the samples whose mean ΔCT is the calibrator. When the picked sample
+ * or the control group has no values, the first sample is used instead.
+ * @param samples Samples with values for the target and every housekeeper
+ * @param config Processing configuration
+ * @returns Calibrator samples and whether the first sample was used instead
+ */
+function selectCalibratorSamples(
+  samples: SampleGroups[],
+  config: ProcessingConfig
+): { calibratorSamples: SampleGroups[]; fallback: boolean } {
+  const { mode, sampleName } = config.deltaCtCalibrator;
+  let selected: SampleGroups[];
+
+  if (mode === "all-mean") {
+    selected = samples;
+  } else if (mode === "control-mean") {
+    selected = samples.filter((s) =>
+      config.controls.includes(s.targetGroup.sampleName)
+    );
+  } else if (sampleName === null) {
+    selected = samples.slice(0, 1);
+  } else {
+    selected = samples.filter((s) => s.targetGroup.sampleName === sampleName);
+  }
+
+  if (selected.length === 0 && samples.length > 0) {
+    return { calibratorSamples: samples.slice(0, 1), fallback: true };
+  }
+  return { calibratorSamples: selected, fallback: false };
+}
+
+/**
+ * Get the amplification efficiency used for a gene
+ * @param geneName Gene name
+ * @param config Processing configuration
+ * @returns Entered efficiency, or 100% when none was entered
+ */
+export function getGeneEfficiency(
+  geneName: string,
+  config: ProcessingConfig
+): GeneEfficiency {
+  const efficiency = config.efficiencies[geneName];
+
+  return efficiency === undefined
+    ? { geneName, efficiency: 1, assumed: true }
+    : { geneName, efficiency, assumed: false };
+}
+
+/**
+ * Get the efficiency a gene's relative quantities are calculated with:
+ * efficiency-corrected only in Pfaffl mode, 2^-ΔΔCT assumes 100%
+ * @param geneName Gene name
+ * @param config Processing configuration
+ * @returns Efficiency (1 = 100%)
+ */
+export function getAppliedEfficiency(
+  geneName: string,
+  config: ProcessingConfig
+): number {
+  return config.quantificationMethod === "pfaffl"
+    ? getGeneEfficiency(geneName, config).efficiency
+    : 1;
+}
+
+/**
+ * Find the housekeeper groups for the same sample as a target group
+ * @param referenceGenes Housekeeper gene data
+ * @param targetGroup Target replica group
+ * @returns Matching group of every housekeeper, or undefined if one is missing
+ */
+function findMatchingGroups(
+  referenceGenes: GeneData[],
+  targetGroup: ReplicaGroup
+): ReplicaGroup[] | undefined {
+  const groups: ReplicaGroup[] = [];
+
+  for (const gene of referenceGenes) {
+    const group = gene.replicaGroups.find(
+      (g) => g.sampleNumber === targetGroup.sampleNumber
+    );
+    if (!group) return undefined;
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+/**
+ * Check that the target and every housekeeper have at least one CT value
+ * @param targetGroup Target replica group
+ * @param refGroups Housekeeper replica groups
+ * @returns Whether the sample can be calculated
+ */
+function hasValues(
+  targetGroup: ReplicaGroup,
+  refGroups: ReplicaGroup[]
+): boolean {
+  return (
+    targetGroup.ctValues.length > 0 &&
+    refGroups.every((g) => g.ctValues.length > 0)
+  );
+}
+
+/**
+ * Collect sample-level QC warnings for a target and its housekeepers
+ * @param targetGroup Target replica group
+ * @param refGroups Housekeeper replica groups
+ * @param config Processing configuration
+ * @returns Warning messages
+ */
+function sampleWarnings(
+  targetGroup: ReplicaGroup,
+  refGroups: ReplicaGroup[],
+  config: ProcessingConfig
+): string[] {
+  const warnings: string[] = [];
+  const wells = [
+    ...targetGroup.measurements,
+    ...refGroups.flatMap((g) => g.measurements),
+  ];
+
+  if (config.missingCqPolicy === "flag-sample") {
+    const missing = wells.filter((m) =>
+      m.flags.some((f) => f.kind === "missing")
+    ).length;
+
+    if (missing > 0) {
+      warnings.push(`Missing Cq in ${missing} of ${wells.length} wells`);
+    }
+  }
+
+  const meltFlagged = wells.filter((m) =>
+    m.flags.some((f) => f.kind === "melt")
+  ).length;
+  if (meltFlagged > 0) {
+    warnings.push(
+      `Melt curve differs from the gene in ${meltFlagged} of ${wells.length} wells`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Get the measured (uncalibrated) CT values of a group
+ * @param group Replica group
+ * @returns Raw CT values in the order of ctValues
+ */
+function rawValues(group: ReplicaGroup): number[] {
+  return group.measurements.filter((m) => !m.excluded).map((m) => m.rawValue);
 }
 
 /**
  * Process a single gene and generate complete results
  * @param targetGene Target gene data
- * @param housekeeperGene Housekeeper gene data
+ * @param referenceGenes Housekeeper gene data
  * @param config Processing configuration
  * @returns Gene processing result
  */
 export function processGene(
   targetGene: GeneData,
-  housekeeperGene: GeneData,
+  referenceGenes: GeneData[],
   config: ProcessingConfig
 ): GeneProcessingResult {
-  const rows = calculateProcessingRows(targetGene, housekeeperGene, config);
-
-  // Find the first ΔCT value (from first non-replica row)
-  const firstMainRow = rows.find((r) => !r.isReplicaRow);
-  const firstDeltaCt = firstMainRow?.deltaCt ?? 0;
+  const { rows, calibrator } = calculateProcessingRows(
+    targetGene,
+    referenceGenes,
+    config
+  );
 
   return {
     geneName: targetGene.name,
     rows,
-    firstDeltaCt,
+    calibrator,
+    conditions: summarizeConditions(rows, groupSamplesByCondition(config)),
+    calibration: [
+      ...(targetGene.calibration ?? []),
+      ...referenceGenes.flatMap((g) => g.calibration ?? []),
+    ],
+    quantification: {
+      method: config.quantificationMethod,
+      target: getGeneEfficiency(targetGene.name, config),
+      references: referenceGenes.map((g) => getGeneEfficiency(g.name, config)),
+    },
   };
 }
 
 /**
- * Process all target genes
+ * Process all target genes. Cq values are corrected by inter-run
+ * calibration first when calibrators are configured.
  * @param geneDataMap Map of all gene data
- * @param housekeeperName Name of housekeeper gene
+ * @param housekeeperNames Names of housekeeper genes
  * @param config Processing configuration
  * @returns Map of gene name to processing results
  */
 export function processAllGenes(
   geneDataMap: Map<string, GeneData>,
-  housekeeperName: string,
+  housekeeperNames: string[],
   config: ProcessingConfig
 ): Map<string, GeneProcessingResult> {
   const results = new Map<string, GeneProcessingResult>();
+  const calibratedMap = calibrateAllGenes(geneDataMap, config.calibrators);
 
-  const housekeeperData = geneDataMap.get(housekeeperName);
-  if (!housekeeperData) {
-    throw new Error(`Housekeeper gene "${housekeeperName}" not found`);
-  }
+  const referenceGenes = housekeeperNames.map((name) => {
+    const geneData = calibratedMap.get(name);
+    if (!geneData) {
+      throw new Error(`Housekeeper gene "${name}" not found`);
+    }
+    return geneData;
+  });
 
-  for (const [geneName, geneData] of geneDataMap) {
-    if (geneName === housekeeperName) continue;
+  for (const [geneName, geneData] of calibratedMap) {
+    if (housekeeperNames.includes(geneName)) continue;
 
-    const result = processGene(geneData, housekeeperData, config);
+    const result = processGene(geneData, referenceGenes, config);
     results.set(geneName, result);
   }
 
@@ -0,0 +1,290 @@
+/**
+ * Distributions Module
+ * Cumulative distribution functions behind the significance tests:
+ * normal, Student's t, F, the studentized range (Tukey) and the
+ * many-to-one maximum of correlated t statistics (Dunnett)
+ */
+
+/** Integration steps of the numerical integrals (even, for Simpson's rule) */
+const STEPS = 160;
+
+/**
+ * Natural logarithm of the gamma function (Lanczos approximation)
+ * @param x Positive value
+ * @returns ln Γ(x)
+ */
+export function logGamma(x: number): number {
+  const c = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of c) series += coefficient / ++y;
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+/**
+ * Continued fraction of the incomplete beta function (modified Lentz)
+ * @param x Value in [0, 1]
+ * @param a First shape parameter
+ * @param b Second shape parameter
+ * @returns Continued fraction value
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ * @param x Value in [0, 1]
+ * @param a First shape parameter
+ * @param b Second shape parameter
+ * @returns I_x(a, b)
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) -
+      logGamma(a) -
+      logGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x)
+  );
+
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Standard normal cumulative distribution function
+ * @param z Standard score
+ * @returns P(Z ≤ z)
+ */
+export function normalCdf(z: number): number {
+  // Complementary error function, Chebyshev fit (relative error < 1.2e-7)
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  const erfc =
+    t *
+    Math.exp(
+      -x * x -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t *
+                      (-0.18628806 +
+                        t *
+                          (0.27886807 +
+                            t *
+                              (-1.13520398 +
+                                t *
+                                  (1.48851587 +
+                                    t * (-0.82215223 + t * 0.17087277))))))))
+    );
+
+  return z >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+/**
+ * Standard normal density
+ * @param z Standard score
+ * @returns φ(z)
+ */
+function normalDensity(z: number): number {
+  return Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Two-sided p-value of a t statistic
+ * @param t t statistic
+ * @param df Degrees of freedom
+ * @returns P(|T| ≥ |t|)
+ */
+export function studentTTwoSidedP(t: number, df: number): number {
+  if (!isFinite(t) || df <= 0) return NaN;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Critical value of |t| for a two-sided significance level
+ * @param alpha Two-sided significance level
+ * @param df Degrees of freedom
+ * @returns t with P(|T| ≥ t) = alpha
+ */
+export function studentTTwoSidedCritical(alpha: number, df: number): number {
+  if (!(alpha > 0 && alpha < 1) || df <= 0) return NaN;
+
+  // The p-value falls as t grows: widen, then bisect
+  let low = 0;
+  let high = 1;
+  while (studentTTwoSidedP(high, df) > alpha) high *= 2;
+  for (let i = 0; i < 100 && high - low > 1e-10 * high; i++) {
+    const mid = (low + high) / 2;
+    if (studentTTwoSidedP(mid, df) > alpha) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Upper tail probability of an F statistic
+ * @param f F statistic
+ * @param df1 Numerator degrees of freedom
+ * @param df2 Denominator degrees of freedom
+ * @returns P(F ≥ f)
+ */
+export function fDistributionUpperP(
+  f: number,
+  df1: number,
+  df2: number
+): number {
+  if (!isFinite(f) || df1 <= 0 || df2 <= 0) return NaN;
+  if (f <= 0) return 1;
+  return incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+/**
+ * Integrate a smooth function with Simpson's rule
+ * @param fn Integrand
+ * @param from Lower bound
+ * @param to Upper bound
+ * @returns Integral
+ */
+function simpson(fn: (x: number) => number, from: number, to: number): number {
+  const h = (to - from) / STEPS;
+  let sum = fn(from) + fn(to);
+  for (let i = 1; i < STEPS; i++) {
+    sum += fn(from + i * h) * (i % 2 === 0 ? 2 : 4);
+  }
+  return (sum * h) / 3;
+}
+
+/**
+ * Average a probability over the distribution of s/σ, the pooled SD
+ * relative to the true SD (chi distribution scaled by √df)
+ * @param df Degrees of freedom of the pooled SD
+ * @param fn Probability given s/σ
+ * @returns Expected probability
+ */
+function integrateOverScale(df: number, fn: (s: number) => number): number {
+  if (df > 2000) return fn(1);
+
+  const logNorm = (df / 2) * Math.log(df / 2) - logGamma(df / 2) + Math.log(2);
+  const density = (s: number) =>
+    s <= 0 ? 0 : Math.exp(logNorm + (df - 1) * Math.log(s) - (df * s * s) / 2);
+
+  const spread = 8 / Math.sqrt(2 * df);
+  const from = Math.max(0, 1 - spread);
+  const to = 1 + spread + (df < 10 ? 4 : 0);
+  return simpson((s) => density(s) * fn(s), from, to);
+}
+
+/**
+ * Cumulative distribution of the studentized range
+ * @param q Studentized range statistic
+ * @param groups Number of group means compared
+ * @param df Degrees of freedom of the pooled SD
+ * @returns P(Q ≤ q)
+ */
+export function studentizedRangeCdf(
+  q: number,
+  groups: number,
+  df: number
+): number {
+  if (!(q > 0)) return 0;
+
+  // Range of k standard normal values below w
+  const rangeCdf = (w: number) =>
+    groups *
+    simpson(
+      (z) =>
+        normalDensity(z) *
+        Math.pow(Math.max(0, normalCdf(z) - normalCdf(z - w)), groups - 1),
+      -8,
+      8
+    );
+
+  return Math.min(
+    1,
+    integrateOverScale(df, (s) => rangeCdf(q * s))
+  );
+}
+
+/**
+ * Probability that every |t| of several treatment-vs-control comparisons
+ * stays below a bound (Dunnett). The comparisons share the control mean,
+ * so statistic i and j correlate with λi·λj, λi = √(ni / (ni + n0)).
+ * @param d Bound on |t|
+ * @param treatmentSizes Sample size of each treatment group
+ * @param controlSize Sample size of the control group
+ * @param df Degrees of freedom of the pooled SD
+ * @returns P(max |Ti| ≤ d)
+ */
+export function dunnettCdf(
+  d: number,
+  treatmentSizes: number[],
+  controlSize: number,
+  df: number
+): number {
+  if (!(d > 0)) return 0;
+
+  const lambdas = treatmentSizes.map((n) => Math.sqrt(n / (n + controlSize)));
+
+  const normalBound = (bound: number) =>
+    simpson(
+      (z) =>
+        normalDensity(z) *
+        lambdas.reduce((product, lambda) => {
+          const scale = Math.sqrt(1 - lambda * lambda);
+          return (
+            product *
+            (normalCdf((bound - lambda * z) / scale) -
+              normalCdf((-bound - lambda * z) / scale))
+          );
+        }, 1),
+      -8,
+      8
+    );
+
+  return Math.min(
+    1,
+    integrateOverScale(df, (s) => normalBound(d * s))
+  );
+}
@@ -3,6 +3,21 @@
  * Re-exports all processing-related functionality
  */
 
+export * from "./absolute-quantification";
+export * from "./amplification";
+export * from "./condition-summary";
 export * from "./ct-calculator";
 export * from "./delta-calculator";
+export * from "./distributions";
+export * from "./inter-run-calibration";
+export * from "./melt-curve";
+export * from "./multiple-testing";
+export * from "./outliers";
+export * from "./plate-layout";
+export * from "./quality-control";
+export * from "./reference-stability";
+export * from "./row-diagnostics";
+export * from "./sample-sheet";
+export * from "./significance";
+export * from "./standard-curve";
 export * from "./statistics";
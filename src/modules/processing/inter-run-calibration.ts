@@ -0,0 +1,146 @@
+/**
+ * Inter-run Calibration Module
+ * Removes run-to-run Cq shifts using calibrator samples measured on every plate
+ */
+
+import {
+  CtMeasurement,
+  GeneData,
+  ReplicaGroup,
+  RunCalibration,
+} from "../../types";
+import { includedValues } from "./ct-calculator";
+import { splitByRun } from "./plate-layout";
+import { mean } from "./statistics";
+
+/**
+ * Calculate the per-run correction factors of a gene.
+ * For each calibrator, its mean Cq on a run is compared with its mean over
+ * all runs; the run's factor is the average of those differences.
+ * A calibrator's wells are pooled by sample name across its replica groups,
+ * since each plate usually holds its own group; only calibrators measured
+ * on every run of the gene are used.
+ * @param geneData Gene data with replica groups
+ * @param calibrators Inter-run calibrator sample names
+ * @returns Correction factor per run (empty if the gene is on a single run
+ *          or no calibrator covers all of its runs)
+ */
+export function calculateRunCalibration(
+  geneData: GeneData,
+  calibrators: string[]
+): RunCalibration[] {
+  const runs = Array.from(splitByRun(geneData.measurements).keys());
+  if (runs.length < 2 || calibrators.length === 0) return [];
+
+  // Calibrator mean Cq per run
+  const calibratorMeans: Map<string, number>[] = [];
+
+  for (const calibrator of calibrators) {
+    const measurements = geneData.replicaGroups
+      .filter((g) => g.sampleName === calibrator)
+      .flatMap((g) => g.measurements.filter((m) => !m.excluded));
+
+    const byRun = splitByRun(measurements);
+    if (!runs.every((run) => byRun.has(run))) continue;
+
+    calibratorMeans.push(
+      new Map(
+        runs.map((run) => [run, mean(byRun.get(run)!.map((m) => m.rawValue))])
+      )
+    );
+  }
+
+  if (calibratorMeans.length === 0) return [];
+
+  return runs.map((run) => ({
+    geneName: geneData.name,
+    run,
+    factor: mean(
+      calibratorMeans.map(
+        (means) => means.get(run)! - mean(Array.from(means.values()))
+      )
+    ),
+    calibratorCount: calibratorMeans.length,
+  }));
+}
+
+/**
+ * Find the genes measured on several runs that cannot be calibrated,
+ * because none of the calibrators was measured on every one of their runs
+ * @param geneDataMap Map of all gene data
+ * @param calibrators Inter-run calibrator sample names
+ * @returns Names of the uncalibrated genes (empty without calibrators)
+ */
+export function findUncalibratedGenes(
+  geneDataMap: Map<string, GeneData>,
+  calibrators: string[]
+): string[] {
+  if (calibrators.length === 0) return [];
+
+  return Array.from(geneDataMap.values())
+    .filter(
+      (geneData) =>
+        splitByRun(geneData.measurements).size > 1 &&
+        calculateRunCalibration(geneData, calibrators).length === 0
+    )
+    .map((geneData) => geneData.name);
+}
+
+/**
+ * Apply inter-run calibration to a gene
+ * @param geneData Gene data with replica groups
+ * @param calibrators Inter-run calibrator sample names
+ * @returns New gene data with calibrated Cq values (raw values kept)
+ */
+export function calibrateGeneData(
+  geneData: GeneData,
+  calibrators: string[]
+): GeneData {
+  const calibration = calculateRunCalibration(geneData, calibrators);
+  if (calibration.length === 0) return geneData;
+
+  const factors = new Map(calibration.map((c) => [c.run, c.factor]));
+  const calibrated = new Map<CtMeasurement, CtMeasurement>();
+
+  for (const m of geneData.measurements) {
+    calibrated.set(m, {
+      ...m,
+      value: m.rawValue - (factors.get(m.run) ?? 0),
+    });
+  }
+
+  const replicaGroups: ReplicaGroup[] = geneData.replicaGroups.map((g) => {
+    const measurements = g.measurements.map((m) => calibrated.get(m) ?? m);
+    return {
+      ...g,
+      ctValues: includedValues(measurements),
+      measurements,
+    };
+  });
+
+  return {
+    ...geneData,
+    measurements: geneData.measurements.map((m) => calibrated.get(m)!),
+    replicaGroups,
+    calibration,
+  };
+}
+
+/**
+ * Apply inter-run calibration to every gene
+ * @param geneDataMap Map of all gene data
+ * @param calibrators Inter-run calibrator sample names
+ * @returns Map of gene name to calibrated gene data
+ */
+export function calibrateAllGenes(
+  geneDataMap: Map<string, GeneData>,
+  calibrators: string[]
+): Map<string, GeneData> {
+  const calibrated = new Map<string, GeneData>();
+
+  for (const [geneName, geneData] of geneDataMap) {
+    calibrated.set(geneName, calibrateGeneData(geneData, calibrators));
+  }
+
+  return calibrated;
+}
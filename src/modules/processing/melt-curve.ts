@@ -0,0 +1,259 @@
+/**
+ * Melt Curve Module
+ * Finds melt peaks and Tm values and checks them against each gene's consensus
+ */
+
+import { MeltCurve, ParsedTsvData } from "../../types";
+import { CANONICAL_COLUMNS } from "../input/importers/common";
+import { RUN_COLUMN } from "../input/run-merger";
+import { getWellKey } from "./plate-layout";
+
+/** Points averaged when smoothing fluorescence before differentiating */
+const SMOOTHING_WINDOW = 5;
+
+/** Peaks lower than this fraction of a well's main peak are ignored */
+const MIN_PEAK_FRACTION = 0.15;
+
+/** Peaks closer than this (°C) to a higher peak belong to the same product */
+const MIN_PEAK_SEPARATION = 1.5;
+
+/** Wells whose main peak is below this fraction of the gene's median have no product */
+const MIN_PRODUCT_FRACTION = 0.1;
+
+/** Largest Tm difference (°C) from the gene consensus that is not flagged */
+export const TM_TOLERANCE = 1.0;
+
+/**
+ * A peak of the negative first derivative
+ */
+export interface MeltPeak {
+  temperature: number;
+  height: number;
+}
+
+/**
+ * Melt analysis of one well
+ */
+export interface WellMelt {
+  wellKey: string;
+  rowIndex: number;
+  sample: string;
+  temperatures: number[];
+  derivative: number[]; // -dF/dT
+  peaks: MeltPeak[]; // Highest first
+  tm: number; // Temperature of the highest peak (NaN without product)
+  deviation: string; // Why the well differs from the consensus ("" if it does not)
+}
+
+/**
+ * Melt analysis of all wells of one gene
+ */
+export interface GeneMelt {
+  geneName: string;
+  consensusPeakCount: number;
+  consensusTm: number; // Median Tm of wells with the consensus peak count
+  wells: WellMelt[];
+}
+
+/**
+ * Compute the negative first derivative -dF/dT of a smoothed melt curve
+ * @param curve Melt curve
+ * @returns Derivative per temperature step (first and last step dropped)
+ */
+export function meltDerivative(curve: MeltCurve): {
+  temperatures: number[];
+  derivative: number[];
+} {
+  const { temperatures, fluorescence } = curve;
+  const half = Math.floor(SMOOTHING_WINDOW / 2);
+
+  const smoothed = fluorescence.map((_, i) => {
+    const window = fluorescence.slice(
+      Math.max(0, i - half),
+      Math.min(fluorescence.length, i + half + 1)
+    );
+    return window.reduce((sum, v) => sum + v, 0) / window.length;
+  });
+
+  const derivative: number[] = [];
+  for (let i = 1; i < smoothed.length - 1; i++) {
+    derivative.push(
+      -(smoothed[i + 1] - smoothed[i - 1]) /
+        (temperatures[i + 1] - temperatures[i - 1])
+    );
+  }
+
+  return { temperatures: temperatures.slice(1, -1), derivative };
+}
+
+/**
+ * Find the peaks of a melt derivative, refining each peak temperature with
+ * a parabola through the peak and its neighbours
+ * @param temperatures Temperatures of the derivative
+ * @param derivative -dF/dT values
+ * @returns Peaks, highest first
+ */
+export function findMeltPeaks(
+  temperatures: number[],
+  derivative: number[]
+): MeltPeak[] {
+  const candidates: MeltPeak[] = [];
+
+  for (let i = 1; i < derivative.length - 1; i++) {
+    const [before, peak, after] = derivative.slice(i - 1, i + 2);
+    if (peak <= 0 || peak <= before || peak < after) continue;
+
+    const curvature = before - 2 * peak + after;
+    const offset = curvature !== 0 ? (before - after) / (2 * curvature) : 0;
+    const step = (temperatures[i + 1] - temperatures[i - 1]) / 2;
+
+    candidates.push({
+      temperature: temperatures[i] + offset * step,
+      height: peak,
+    });
+  }
+
+  candidates.sort((a, b) => b.height - a.height);
+  const highest = candidates[0]?.height ?? 0;
+
+  const peaks: MeltPeak[] = [];
+  for (const candidate of candidates) {
+    if (candidate.height < highest * MIN_PEAK_FRACTION) break;
+
+    const merged = peaks.some(
+      (p) =>
+        Math.abs(p.temperature - candidate.temperature) < MIN_PEAK_SEPARATION
+    );
+    if (!merged) peaks.push(candidate);
+  }
+
+  return peaks;
+}
+
+/**
+ * Get the median of a list of numbers
+ * @param values Values
+ * @returns Median (NaN for an empty list)
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+/**
+ * Get the most frequent value, preferring the smaller one on ties
+ * @param values Values
+ * @returns Most frequent value (0 for an empty list)
+ */
+function mode(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+
+  let best = 0;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount || (count === bestCount && value < best)) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Analyse the melt curves of every gene and flag wells whose peak count or
+ * Tm differs from the gene's consensus
+ * @param data Parsed data with melt curves
+ * @returns Melt analysis per gene, in data order
+ */
+export function analyzeMeltCurves(data: ParsedTsvData): Map<string, GeneMelt> {
+  const results = new Map<string, GeneMelt>();
+  if (!data.melt) return results;
+
+  const wellsByGene = new Map<string, WellMelt[]>();
+  data.rows.forEach((row, rowIndex) => {
+    const geneName = row[CANONICAL_COLUMNS.name]?.trim();
+    const position = row[CANONICAL_COLUMNS.position]?.trim() ?? "";
+    const wellKey = getWellKey(row[RUN_COLUMN] ?? "", position);
+    const curve = data.melt?.[wellKey];
+    if (!geneName || !curve) return;
+
+    const { temperatures, derivative } = meltDerivative(curve);
+    const peaks = findMeltPeaks(temperatures, derivative);
+
+    const wells = wellsByGene.get(geneName) ?? [];
+    wells.push({
+      wellKey,
+      rowIndex,
+      sample: row[CANONICAL_COLUMNS.sample]?.trim() ?? "",
+      temperatures,
+      derivative,
+      peaks,
+      tm: peaks[0]?.temperature ?? NaN,
+      deviation: "",
+    });
+    wellsByGene.set(geneName, wells);
+  });
+
+  for (const [geneName, wells] of wellsByGene) {
+    // Wells far below the typical product signal (e.g. NTCs) have no product
+    const typicalHeight = median(wells.map((w) => w.peaks[0]?.height ?? 0));
+    for (const well of wells) {
+      if ((well.peaks[0]?.height ?? 0) < typicalHeight * MIN_PRODUCT_FRACTION) {
+        well.peaks = [];
+        well.tm = NaN;
+      }
+    }
+
+    const consensusPeakCount = mode(wells.map((w) => w.peaks.length));
+    const consensusTm = median(
+      wells
+        .filter((w) => w.peaks.length === consensusPeakCount && !isNaN(w.tm))
+        .map((w) => w.tm)
+    );
+
+    for (const well of wells) {
+      if (well.peaks.length !== consensusPeakCount) {
+        well.deviation =
+          well.peaks.length === 0
+            ? "no melt peak"
+            : `${well.peaks.length} melt peak(s), gene has ${consensusPeakCount}`;
+      } else if (Math.abs(well.tm - consensusTm) > TM_TOLERANCE) {
+        well.deviation = `Tm ${well.tm.toFixed(1)} °C, gene ${consensusTm.toFixed(
+          1
+        )} °C`;
+      }
+    }
+
+    results.set(geneName, {
+      geneName,
+      consensusPeakCount,
+      consensusTm,
+      wells,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get the melt deviation of every flagged well
+ * @param data Parsed data with melt curves
+ * @returns Deviation message keyed by data row index
+ */
+export function meltDeviationsByRow(data: ParsedTsvData): Map<number, string> {
+  const deviations = new Map<number, string>();
+
+  for (const gene of analyzeMeltCurves(data).values()) {
+    for (const well of gene.wells) {
+      if (well.deviation) deviations.set(well.rowIndex, well.deviation);
+    }
+  }
+
+  return deviations;
+}
@@ -0,0 +1,47 @@
+/**
+ * Multiple Testing Module
+ * Adjusts a family of p-values for the number of tests: Benjamini-Hochberg
+ * false discovery rate, Bonferroni and Holm family-wise error rate
+ */
+
+import { MultipleTestingCorrection } from "../../types";
+
+/**
+ * Adjust p-values for the number of tests. Tests without a p-value (NaN)
+ * are not counted and stay NaN.
+ * @param pValues p-values in any order
+ * @param correction Correction method
+ * @returns Adjusted p-values (q-values), in the order of the input
+ */
+export function adjustPValues(
+  pValues: number[],
+  correction: MultipleTestingCorrection
+): number[] {
+  const adjusted = pValues.map(() => NaN);
+  const order = pValues
+    .map((p, index) => ({ p, index }))
+    .filter((t) => isFinite(t.p))
+    .sort((a, b) => a.p - b.p);
+  const m = order.length;
+
+  if (correction === "bonferroni") {
+    for (const { p, index } of order) adjusted[index] = Math.min(1, p * m);
+  } else if (correction === "holm") {
+    // Step down from the smallest p, never decreasing
+    let running = 0;
+    order.forEach(({ p, index }, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      adjusted[index] = running;
+    });
+  } else {
+    // Step up from the largest p, never increasing
+    let running = 1;
+    for (let rank = m - 1; rank >= 0; rank--) {
+      const { p, index } = order[rank];
+      running = Math.min(running, (p * m) / (rank + 1));
+      adjusted[index] = running;
+    }
+  }
+
+  return adjusted;
+}
@@ -0,0 +1,212 @@
+/**
+ * Outlier Module
+ * Detects suspected outliers among technical replicates
+ */
+
+import { GeneData, OutlierMethod, ProcessingConfig } from "../../types";
+import { studentTTwoSidedCritical } from "./distributions";
+import { mean, standardDeviation } from "./statistics";
+
+/** Significance level of Grubbs' test (two-sided) */
+const GRUBBS_ALPHA = 0.05;
+
+/**
+ * Critical values of Dixon's Q at 95% confidence, by n (3-10)
+ */
+const DIXON_CRITICAL: Record<number, number> = {
+  3: 0.97,
+  4: 0.829,
+  5: 0.71,
+  6: 0.625,
+  7: 0.568,
+  8: 0.526,
+  9: 0.493,
+  10: 0.466,
+};
+
+/**
+ * A replicate suspected to be an outlier
+ */
+export interface OutlierResult {
+  index: number; // Index into the tested values
+  message: string;
+}
+
+/**
+ * Settings for outlier detection
+ */
+export type OutlierOptions = Pick<
+  ProcessingConfig,
+  "outlierMethod" | "outlierSdThreshold" | "outlierAutoExclude"
+>;
+
+/**
+ * Index of the value farthest from the mean
+ * @param values Replicate values
+ * @returns Index of the most extreme value
+ */
+function mostExtremeIndex(values: number[]): number {
+  const avg = mean(values);
+  let index = 0;
+
+  values.forEach((v, i) => {
+    if (Math.abs(v - avg) > Math.abs(values[index] - avg)) index = i;
+  });
+
+  return index;
+}
+
+/**
+ * Flag the most extreme replicate when the replicate SD exceeds a threshold.
+ * With only two replicates the culprit cannot be told apart, so both are flagged.
+ * @param values Replicate values
+ * @param threshold Maximum acceptable SD in cycles
+ * @returns Suspected outliers
+ */
+export function sdThresholdTest(
+  values: number[],
+  threshold: number
+): OutlierResult[] {
+  if (values.length < 2) return [];
+
+  const sd = standardDeviation(values);
+  if (sd <= threshold) return [];
+
+  const message = `Replicate SD ${sd.toFixed(2)} > ${threshold}`;
+  if (values.length === 2) {
+    return [
+      { index: 0, message },
+      { index: 1, message },
+    ];
+  }
+
+  return [{ index: mostExtremeIndex(values), message }];
+}
+
+/**
+ * Two-sided critical value of Grubbs' G, from the t distribution
+ * @param n Number of values (at least 3)
+ * @returns Critical G at α = 0.05
+ */
+export function grubbsCritical(n: number): number {
+  const t = studentTTwoSidedCritical(GRUBBS_ALPHA / n, n - 2);
+  return ((n - 1) / Math.sqrt(n)) * Math.sqrt((t * t) / (n - 2 + t * t));
+}
+
+/**
+ * Grubbs' test for a single outlier (two-sided, α = 0.05)
+ * @param values Replicate values (at least 3)
+ * @returns Suspected outlier, if any
+ */
+export function grubbsTest(values: number[]): OutlierResult[] {
+  if (values.length < 3) return [];
+
+  const sd = standardDeviation(values);
+  if (sd === 0) return [];
+
+  const index = mostExtremeIndex(values);
+  const g = Math.abs(values[index] - mean(values)) / sd;
+  const critical = grubbsCritical(values.length);
+  if (g <= critical) return [];
+
+  return [
+    {
+      index,
+      message: `Grubbs G ${g.toFixed(3)} > ${critical.toFixed(3)}`,
+    },
+  ];
+}
+
+/**
+ * Dixon's Q test for a single outlier (95% confidence)
+ * @param values Replicate values (3-10)
+ * @returns Suspected outlier, if any
+ */
+export function dixonQTest(values: number[]): OutlierResult[] {
+  const critical = DIXON_CRITICAL[values.length];
+  if (critical === undefined) return [];
+
+  const sorted = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => a.value - b.value);
+  const n = sorted.length;
+  const range = sorted[n - 1].value - sorted[0].value;
+  if (range === 0) return [];
+
+  const lowGap = sorted[1].value - sorted[0].value;
+  const highGap = sorted[n - 1].value - sorted[n - 2].value;
+  const suspect = highGap >= lowGap ? sorted[n - 1] : sorted[0];
+  const q = Math.max(lowGap, highGap) / range;
+  if (q <= critical) return [];
+
+  return [
+    {
+      index: suspect.index,
+      message: `Dixon Q ${q.toFixed(3)} > ${critical}`,
+    },
+  ];
+}
+
+/**
+ * Run the selected outlier test on replicate values
+ * @param values Replicate values
+ * @param method Outlier test
+ * @param sdThreshold SD threshold for the "sd" method
+ * @returns Suspected outliers
+ */
+export function detectOutliers(
+  values: number[],
+  method: OutlierMethod,
+  sdThreshold: number
+): OutlierResult[] {
+  switch (method) {
+    case "sd":
+      return sdThresholdTest(values, sdThreshold);
+    case "grubbs":
+      return grubbsTest(values);
+    case "dixon":
+      return dixonQTest(values);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Flag suspected outliers in every replica group of a gene, and exclude
+ * them from the statistics when auto-exclusion is on. Two-replicate groups
+ * are only flagged, never auto-excluded.
+ * @param geneData Gene data with replica groups (updated in place)
+ * @param options Outlier settings
+ */
+export function flagOutliers(
+  geneData: GeneData,
+  options: OutlierOptions
+): void {
+  const { outlierMethod, outlierSdThreshold, outlierAutoExclude } = options;
+  if (outlierMethod === "none") return;
+
+  for (const group of geneData.replicaGroups) {
+    const tested = group.measurements.filter((m) => !m.excluded);
+    const outliers = detectOutliers(
+      tested.map((m) => m.value),
+      outlierMethod,
+      outlierSdThreshold
+    );
+    const exclude = outlierAutoExclude && tested.length > 2;
+
+    for (const outlier of outliers) {
+      const measurement = tested[outlier.index];
+      measurement.excluded = exclude;
+      measurement.flags.push({
+        kind: "outlier",
+        message: `Suspected outlier (${outlier.message})${
+          exclude ? ", excluded" : ""
+        }`,
+      });
+    }
+
+    group.ctValues = group.measurements
+      .filter((m) => !m.excluded)
+      .map((m) => m.value);
+  }
+}
@@ -0,0 +1,467 @@
+/**
+ * Plate Layout Module
+ * Well position parsing and position-aware replicate grouping
+ */
+
+import { CtMeasurement, ParsedTsvData, WellAssignment } from "../../types";
+import { CANONICAL_COLUMNS } from "../input/importers/common";
+import { RUN_COLUMN } from "../input/run-merger";
+
+/**
+ * Number of wells on the largest supported plate (384-well, A-P x 1-24)
+ */
+export const MAX_PLATE_WELLS = 384;
+
+/**
+ * Supported plate formats (number of wells)
+ */
+export type PlateSize = 96 | 384;
+
+/**
+ * Zero-based plate coordinates of a well
+ */
+export interface WellCoordinates {
+  row: number;
+  column: number;
+}
+
+/**
+ * Parse a well position such as "A1" or "B12" into coordinates
+ * @param position Well position
+ * @returns Coordinates or null if the position is not a plate well
+ */
+export function parseWellPosition(position: string): WellCoordinates | null {
+  const match = /^([A-Pa-p])0*(\d{1,2})$/.exec(position.trim());
+  if (!match) return null;
+
+  const column = parseInt(match[2], 10) - 1;
+  if (column < 0 || column >= 24) return null;
+
+  return {
+    row: match[1].toUpperCase().charCodeAt(0) - 65,
+    column,
+  };
+}
+
+/**
+ * Format coordinates as a well position
+ * @param row Zero-based row
+ * @param column Zero-based column
+ * @returns Well position, e.g. "A1"
+ */
+export function formatWellPosition(row: number, column: number): string {
+  return `${String.fromCharCode(65 + row)}${column + 1}`;
+}
+
+/**
+ * Get row and column counts for a plate format
+ * @param size Plate format
+ * @returns Plate dimensions
+ */
+export function getPlateDimensions(size: PlateSize): {
+  rows: number;
+  columns: number;
+} {
+  return size === 384 ? { rows: 16, columns: 24 } : { rows: 8, columns: 12 };
+}
+
+/**
+ * Pick the smallest plate format that fits every well position
+ * @param positions Well positions
+ * @returns Plate format
+ */
+export function detectPlateSize(positions: string[]): PlateSize {
+  const fits96 = positions.every((p) => {
+    const coords = parseWellPosition(p);
+    return !coords || (coords.row < 8 && coords.column < 12);
+  });
+
+  return fits96 ? 96 : 384;
+}
+
+/**
+ * Check whether every measurement carries a parsable well position
+ * @param measurements CT measurements
+ * @returns Whether position-based grouping is possible
+ */
+export function hasWellPositions(measurements: CtMeasurement[]): boolean {
+  return (
+    measurements.length > 0 &&
+    measurements.every((m) => parseWellPosition(m.position) !== null)
+  );
+}
+
+/**
+ * First and last plate column (horizontal) or row (vertical) of a layout
+ */
+export interface LineSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Find the columns (horizontal) or rows (vertical) a gene's replicate
+ * blocks span. The span ends at the gene's last well; it starts where the
+ * layout starts, or just after the last well of another gene in the same
+ * lines, so that empty wells at the start of the gene's block keep their
+ * slots while genes side by side in the same lines keep their own blocks.
+ * @param measurements Measurements of one gene with positions
+ * @param layout Replicate layout (horizontal or vertical)
+ * @param runPositions Well positions of every gene on the run
+ * @returns Zero-based span, or null without positions
+ */
+export function findLineSpan(
+  measurements: CtMeasurement[],
+  layout: "horizontal" | "vertical",
+  runPositions: string[] = []
+): LineSpan | null {
+  const toLine = (position: string) => {
+    const coords = parseWellPosition(position);
+    if (!coords) return null;
+    return layout === "horizontal"
+      ? { line: coords.row, index: coords.column }
+      : { line: coords.column, index: coords.row };
+  };
+
+  const own = measurements
+    .map((m) => toLine(m.position))
+    .filter((cell) => cell !== null);
+  if (own.length === 0) return null;
+
+  const lines = new Set(own.map((cell) => cell.line));
+  const ownStart = Math.min(...own.map((cell) => cell.index));
+  const end = Math.max(...own.map((cell) => cell.index));
+
+  const others = runPositions.map(toLine).filter((cell) => cell !== null);
+  let start = Math.min(ownStart, ...others.map((cell) => cell.index));
+  for (const cell of others) {
+    if (lines.has(cell.line) && cell.index < ownStart) {
+      start = Math.max(start, cell.index + 1);
+    }
+  }
+
+  return { start, end };
+}
+
+/**
+ * Walk the wells a gene occupies in replicate order.
+ * Empty slots (skipped or missing wells) are returned as null so that they
+ * still take up their place in a replicate block.
+ * @param measurements Measurements of one gene (all with positions)
+ * @param layout Replicate layout (horizontal or vertical)
+ * @param span Columns (horizontal) or rows (vertical) of the gene's blocks
+ *             (see findLineSpan); defaults to those of its own wells
+ * @returns Measurements and gaps in layout order
+ */
+export function orderWellSlots(
+  measurements: CtMeasurement[],
+  layout: "horizontal" | "vertical",
+  span: LineSpan | null = findLineSpan(measurements, layout)
+): (CtMeasurement | null)[] {
+  const cells = new Map<string, CtMeasurement>();
+  const rows = new Set<number>();
+  const columns = new Set<number>();
+
+  for (const m of measurements) {
+    const coords = parseWellPosition(m.position)!;
+    cells.set(`${coords.row},${coords.column}`, m);
+    rows.add(coords.row);
+    columns.add(coords.column);
+  }
+
+  // Lines are the plate rows (horizontal) or columns (vertical) the gene uses;
+  // within a line, walk the full span so gaps keep their slot.
+  const lines = Array.from(layout === "horizontal" ? rows : columns).sort(
+    (a, b) => a - b
+  );
+
+  const slots: (CtMeasurement | null)[] = [];
+  if (!span) return slots;
+
+  for (const line of lines) {
+    for (let i = span.start; i <= span.end; i++) {
+      const key = layout === "horizontal" ? `${line},${i}` : `${i},${line}`;
+      slots.push(cells.get(key) ?? null);
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Collect the sorted set of plate columns used on each run
+ * @param measurements Measurements of all genes
+ * @returns Zero-based column indices in ascending order, keyed by run ID
+ */
+export function collectPlateColumns(
+  measurements: CtMeasurement[]
+): Map<string, number[]> {
+  const columnsByRun = new Map<string, Set<number>>();
+
+  for (const m of measurements) {
+    const coords = parseWellPosition(m.position);
+    if (!coords) continue;
+
+    const columns = columnsByRun.get(m.run) ?? new Set<number>();
+    columns.add(coords.column);
+    columnsByRun.set(m.run, columns);
+  }
+
+  return new Map(
+    Array.from(columnsByRun).map(([run, columns]) => [
+      run,
+      Array.from(columns).sort((a, b) => a - b),
+    ])
+  );
+}
+
+/**
+ * Per-run sample slots shared by all genes, so that samples keep the same
+ * number across genes when runs are laid out one after another
+ */
+export interface RunSlots {
+  columns: number[]; // Plate columns used by any gene (for the "column" layout)
+  positions: string[]; // Well positions used by any gene
+  sampleOffset: number; // Samples on earlier runs
+  sampleCount: number; // Samples that fit on this run
+}
+
+/**
+ * Count the replicate blocks needed to fill a number of well slots
+ * @param slotCount Well slots to fill
+ * @param startIndex Index of the first sample
+ * @param replicaCount Default number of replicas per sample
+ * @param sampleCounts Replicas per sample where they differ from the default
+ * @returns Number of samples (a partly filled last block counts)
+ */
+export function countReplicateBlocks(
+  slotCount: number,
+  startIndex: number,
+  replicaCount: number,
+  sampleCounts: number[] = []
+): number {
+  let blocks = 0;
+  let used = 0;
+
+  while (used < slotCount) {
+    used += Math.max(sampleCounts[startIndex + blocks] ?? replicaCount, 1);
+    blocks++;
+  }
+
+  return blocks;
+}
+
+/**
+ * Work out how many samples each run holds for a positional layout
+ * @param measurementsByGene Measurements of each gene
+ * @param replicaCount Default number of replicas per sample
+ * @param layout Positional replicate layout
+ * @param sampleCountsByGene Replicas per sample for each gene, where they
+ *                           differ from the default
+ * @returns Sample slots keyed by run ID, in run order
+ */
+export function collectRunSlots(
+  measurementsByGene: CtMeasurement[][],
+  replicaCount: number,
+  layout: "horizontal" | "vertical" | "column",
+  sampleCountsByGene: number[][] = []
+): Map<string, RunSlots> {
+  const columnsByRun = collectPlateColumns(measurementsByGene.flat());
+  const runSlots = new Map<string, RunSlots>();
+  let sampleOffset = 0;
+
+  for (const [run, allOnRun] of splitByRun(measurementsByGene.flat())) {
+    const columns = columnsByRun.get(run) ?? [];
+    const positions = allOnRun.map((m) => m.position);
+    let sampleCount = columns.length;
+
+    if (layout !== "column") {
+      sampleCount = 0;
+      measurementsByGene.forEach((measurements, geneIndex) => {
+        const onRun = measurements.filter((m) => m.run === run);
+        if (onRun.length === 0) return;
+
+        const blocks = countReplicateBlocks(
+          orderWellSlots(onRun, layout, findLineSpan(onRun, layout, positions))
+            .length,
+          sampleOffset,
+          replicaCount,
+          sampleCountsByGene[geneIndex]
+        );
+        sampleCount = Math.max(sampleCount, blocks);
+      });
+    }
+
+    runSlots.set(run, { columns, positions, sampleOffset, sampleCount });
+    sampleOffset += sampleCount;
+  }
+
+  return runSlots;
+}
+
+/**
+ * Split measurements by run, keeping the order in which runs first appear
+ * @param measurements CT measurements
+ * @returns Measurements keyed by run ID
+ */
+export function splitByRun(
+  measurements: CtMeasurement[]
+): Map<string, CtMeasurement[]> {
+  const byRun = new Map<string, CtMeasurement[]>();
+
+  for (const m of measurements) {
+    const list = byRun.get(m.run) ?? [];
+    list.push(m);
+    byRun.set(m.run, list);
+  }
+
+  return byRun;
+}
+
+/**
+ * Build the key identifying a well across plates
+ * @param run Run ID (empty for single-run data)
+ * @param position Well position
+ * @returns Well key, e.g. "Plate 1:A1"
+ */
+export function getWellKey(run: string, position: string): string {
+  return run ? `${run}:${position}` : position;
+}
+
+/**
+ * Split a well key into run ID and position
+ * @param key Well key
+ * @returns Run ID and position
+ */
+export function parseWellKey(key: string): { run: string; position: string } {
+  const separator = key.lastIndexOf(":");
+  if (separator === -1) return { run: "", position: key };
+
+  return {
+    run: key.slice(0, separator),
+    position: key.slice(separator + 1),
+  };
+}
+
+/**
+ * Compare two well positions in row-major plate order
+ * @param a First position
+ * @param b Second position
+ * @returns Sort order
+ */
+export function compareWellPositions(a: string, b: string): number {
+  const ca = parseWellPosition(a);
+  const cb = parseWellPosition(b);
+
+  if (!ca || !cb) return a.localeCompare(b, undefined, { numeric: true });
+  return ca.row - cb.row || ca.column - cb.column;
+}
+
+/**
+ * Get the replica group label for a well assignment
+ * @param assignment Well assignment
+ * @returns Sample name, suffixed with the replicate group when set
+ */
+export function getAssignmentLabel(assignment: WellAssignment): string {
+  return assignment.replicateGroup
+    ? `${assignment.sample} (${assignment.replicateGroup})`
+    : assignment.sample;
+}
+
+/**
+ * Check whether any well has been assigned in the plate map
+ * @param assignments Well assignments keyed by position
+ * @returns Whether the plate map drives sample grouping
+ */
+export function hasWellAssignments(
+  assignments: Record<string, WellAssignment>
+): boolean {
+  return Object.keys(assignments).length > 0;
+}
+
+/**
+ * Derive the sample and control lists from plate map assignments
+ * @param assignments Well assignments keyed by well key
+ * @param runOrder Run IDs in plate order
+ * @returns Sample labels and control labels, in plate order
+ */
+export function deriveAssignedSamples(
+  assignments: Record<string, WellAssignment>,
+  runOrder: string[] = []
+): { samples: string[]; controls: string[] } {
+  const samples: string[] = [];
+  const controls: string[] = [];
+
+  const keys = Object.keys(assignments).sort((a, b) => {
+    const ka = parseWellKey(a);
+    const kb = parseWellKey(b);
+    return (
+      runOrder.indexOf(ka.run) - runOrder.indexOf(kb.run) ||
+      ka.run.localeCompare(kb.run) ||
+      compareWellPositions(ka.position, kb.position)
+    );
+  });
+
+  for (const key of keys) {
+    const assignment = assignments[key];
+    if (!assignment.sample) continue;
+
+    const label = getAssignmentLabel(assignment);
+    if (!samples.includes(label)) samples.push(label);
+    if (assignment.isControl && !controls.includes(label)) controls.push(label);
+  }
+
+  return { samples, controls };
+}
+
+/**
+ * Find plate map samples whose wells lie on more than one run
+ * @param assignments Well assignments keyed by well key
+ * @returns Sample label -> run IDs, for samples spanning several runs
+ */
+export function findSamplesAcrossRuns(
+  assignments: Record<string, WellAssignment>
+): Map<string, string[]> {
+  const runsBySample = new Map<string, string[]>();
+
+  for (const [key, assignment] of Object.entries(assignments)) {
+    if (!assignment.sample) continue;
+
+    const label = getAssignmentLabel(assignment);
+    const { run } = parseWellKey(key);
+    const runs = runsBySample.get(label) ?? [];
+    if (!runs.includes(run)) runs.push(run);
+    runsBySample.set(label, runs);
+  }
+
+  return new Map(
+    Array.from(runsBySample).filter(([, runs]) => runs.length > 1)
+  );
+}
+
+/**
+ * Seed plate map assignments from an instrument's own sample column
+ * @param data Parsed TSV data
+ * @returns Assignments keyed by well key (empty if any well lacks a sample)
+ */
+export function assignmentsFromSampleColumn(
+  data: ParsedTsvData
+): Record<string, WellAssignment> {
+  const assignments: Record<string, WellAssignment> = {};
+  const controls = data.metadata?.controlSamples ?? [];
+
+  for (const row of data.rows) {
+    const position = row[CANONICAL_COLUMNS.position]?.trim();
+    const sample = row[CANONICAL_COLUMNS.sample]?.trim();
+    if (!position || !sample) return {};
+
+    assignments[getWellKey(row[RUN_COLUMN] ?? "", position)] = {
+      sample,
+      replicateGroup: "",
+      isControl: controls.includes(sample),
+      excluded: false,
+    };
+  }
+
+  return assignments;
+}
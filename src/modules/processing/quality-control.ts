@@ -0,0 +1,51 @@
+/**
+ * Quality Control Module
+ * Collects the QC notes attached to wells into a summary
+ */
+
+import { GeneData, MeasurementFlagKind } from "../../types";
+import { getWellKey } from "./plate-layout";
+
+/**
+ * A QC note on one well, with the gene and sample it belongs to
+ */
+export interface QcIssue {
+  geneName: string;
+  sampleName: string; // Empty if the well is not part of any sample
+  well: string; // Well key (run + position)
+  kind: MeasurementFlagKind;
+  message: string;
+}
+
+/**
+ * Collect every well QC note across all genes
+ * @param geneDataMap Map of all gene data with replica groups
+ * @returns QC issues in gene and data order
+ */
+export function collectQcIssues(geneDataMap: Map<string, GeneData>): QcIssue[] {
+  const issues: QcIssue[] = [];
+
+  for (const geneData of geneDataMap.values()) {
+    // Look up the sample each well was grouped into
+    const sampleByRow = new Map<number, string>();
+    for (const group of geneData.replicaGroups) {
+      for (const m of group.measurements) {
+        sampleByRow.set(m.rowIndex, group.sampleName);
+      }
+    }
+
+    for (const m of geneData.measurements) {
+      for (const flag of m.flags) {
+        issues.push({
+          geneName: geneData.name,
+          sampleName: sampleByRow.get(m.rowIndex) ?? "",
+          well: getWellKey(m.run, m.position) || `Row ${m.rowIndex + 1}`,
+          kind: flag.kind,
+          message: flag.message,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,473 @@
+/**
+ * Reference Gene Stability Module
+ * Ranks candidate reference genes by expression stability across samples
+ */
+
+import { GeneData, ProcessingConfig } from "../../types";
+import { getAppliedEfficiency } from "./delta-calculator";
+import {
+  geometricMean,
+  mean,
+  pearsonCorrelation,
+  standardDeviation,
+} from "./statistics";
+
+/** geNorm M above which a gene is considered unstable (Vandesompele et al.) */
+export const GENORM_M_THRESHOLD = 1.5;
+
+/** Pairwise variation below which adding another reference gene is not needed */
+export const GENORM_V_THRESHOLD = 0.15;
+
+/** BestKeeper SD (cycles) above which a gene is inconsistent (Pfaffl et al.) */
+export const BESTKEEPER_SD_THRESHOLD = 1;
+
+/**
+ * Ranking offered for picking reference genes
+ * - overall: geometric mean of the ranks of the other methods
+ */
+export type StabilityMethod =
+  "genorm" | "normfinder" | "bestkeeper" | "overall";
+
+/**
+ * Log2 relative quantities of the candidate genes in the samples where
+ * every candidate has a value
+ */
+export interface CandidateMatrix {
+  genes: string[];
+  sampleNames: string[];
+  cqs: number[][]; // [gene][sample], mean Cq
+  log2Quantities: number[][]; // [gene][sample]
+}
+
+/**
+ * Stability value of one gene (lower is more stable)
+ */
+export interface GeneStability {
+  geneName: string;
+  value: number;
+}
+
+/**
+ * Pairwise variation between the normalisation factors of the n and n+1
+ * most stable genes
+ */
+export interface PairwiseVariation {
+  n: number;
+  value: number; // V n/n+1
+}
+
+/**
+ * geNorm analysis of a set of candidate genes
+ */
+export interface GeNormResult {
+  ranking: GeneStability[]; // Most stable first; M in the round the gene was excluded
+  rounds: GeneStability[][]; // M of the remaining genes in each exclusion round
+  pairwiseVariations: PairwiseVariation[];
+  recommendedCount: number; // Reference genes suggested by V n/n+1
+  sampleCount: number;
+}
+
+/**
+ * NormFinder analysis of a set of candidate genes
+ */
+export interface NormFinderResult {
+  ranking: GeneStability[]; // Most stable first (stability value ρ)
+  groups: string[]; // Sample groups with at least two samples
+  intergroupVariation: number; // γ², 0 with a single group
+}
+
+/**
+ * BestKeeper descriptive statistics of one gene
+ */
+export interface BestKeeperGene {
+  geneName: string;
+  geometricMeanCq: number;
+  minCq: number;
+  maxCq: number;
+  sd: number; // Mean absolute deviation of the Cq values
+  cv: number; // SD / mean Cq (%)
+  r: number; // Pearson correlation with the BestKeeper index
+}
+
+/**
+ * BestKeeper analysis of a set of candidate genes
+ */
+export interface BestKeeperResult {
+  genes: BestKeeperGene[]; // Best correlated with the index first
+  indexGenes: string[]; // Genes the index is built from (SD within the threshold)
+}
+
+/**
+ * Ranks of one candidate gene across the stability methods
+ */
+export interface StabilityComparisonRow {
+  geneName: string;
+  geNormRank: number;
+  normFinderRank: number | null; // Null when NormFinder could not run
+  bestKeeperRank: number;
+  overallScore: number; // Geometric mean of the method ranks
+  overallRank: number;
+}
+
+/**
+ * Stability analysis of a set of candidate genes by every method
+ */
+export interface ReferenceStabilityResult {
+  geNorm: GeNormResult;
+  normFinder: NormFinderResult | null; // Needs at least three genes
+  bestKeeper: BestKeeperResult;
+  comparison: StabilityComparisonRow[]; // Ordered by overall rank
+}
+
+/**
+ * Collect the log2 relative quantities of candidate genes. Each gene's
+ * quantities are relative to its lowest mean Cq, with the efficiency the
+ * processing uses.
+ * @param geneDataMap Map of gene data with replica groups
+ * @param genes Candidate gene names
+ * @param config Processing configuration
+ * @returns Candidate matrix over the samples every candidate was measured in
+ */
+export function buildCandidateMatrix(
+  geneDataMap: Map<string, GeneData>,
+  genes: string[],
+  config: ProcessingConfig
+): CandidateMatrix {
+  const candidates = genes.filter((g) => geneDataMap.has(g));
+
+  // Mean Cq per sample number, for samples with at least one value
+  const means = candidates.map((gene) => {
+    const bySample = new Map<number, { name: string; cq: number }>();
+    for (const group of geneDataMap.get(gene)!.replicaGroups) {
+      if (group.ctValues.length > 0) {
+        bySample.set(group.sampleNumber, {
+          name: group.sampleName,
+          cq: mean(group.ctValues),
+        });
+      }
+    }
+    return bySample;
+  });
+
+  const sampleNumbers =
+    means.length > 0
+      ? Array.from(means[0].keys()).filter((n) => means.every((m) => m.has(n)))
+      : [];
+
+  const log2Quantities = candidates.map((gene, i) => {
+    const cqs = sampleNumbers.map((n) => means[i].get(n)!.cq);
+    const minCq = Math.min(...cqs);
+    const log2Base = Math.log2(1 + getAppliedEfficiency(gene, config));
+    return cqs.map((cq) => (minCq - cq) * log2Base);
+  });
+
+  return {
+    genes: candidates,
+    sampleNames: sampleNumbers.map((n) => means[0].get(n)!.name),
+    cqs: candidates.map((_, i) =>
+      sampleNumbers.map((n) => means[i].get(n)!.cq)
+    ),
+    log2Quantities,
+  };
+}
+
+/**
+ * Calculate the geNorm M value of each gene: the mean standard deviation
+ * of its log2 ratios to every other gene
+ * @param log2Quantities Log2 relative quantities per gene
+ * @returns M value per gene, in input order
+ */
+export function geNormM(log2Quantities: number[][]): number[] {
+  return log2Quantities.map((own, j) => {
+    const variations = log2Quantities
+      .filter((_, k) => k !== j)
+      .map((other) => standardDeviation(own.map((q, s) => q - other[s])));
+    return mean(variations);
+  });
+}
+
+/**
+ * Run geNorm: rank genes by excluding the least stable one until two remain,
+ * then compute the pairwise variations V n/n+1
+ * @param matrix Candidate matrix
+ * @returns geNorm result, or null with fewer than two genes or samples
+ */
+export function analyzeGeNorm(matrix: CandidateMatrix): GeNormResult | null {
+  if (matrix.genes.length < 2 || matrix.sampleNames.length < 2) return null;
+
+  let remaining = matrix.genes.map((geneName, i) => ({
+    geneName,
+    quantities: matrix.log2Quantities[i],
+  }));
+  const rounds: GeneStability[][] = [];
+  const excluded: GeneStability[] = [];
+
+  for (;;) {
+    const m = geNormM(remaining.map((g) => g.quantities));
+    const round = remaining.map((g, i) => ({
+      geneName: g.geneName,
+      value: m[i],
+    }));
+    rounds.push(round);
+
+    if (remaining.length === 2) {
+      excluded.unshift(...round);
+      break;
+    }
+
+    const worst = m.indexOf(Math.max(...m));
+    excluded.unshift(round[worst]);
+    remaining = remaining.filter((_, i) => i !== worst);
+  }
+
+  // Normalisation factors (log2 geometric means) of the top n genes
+  const quantitiesOf = (geneName: string) =>
+    matrix.log2Quantities[matrix.genes.indexOf(geneName)];
+  const log2Factor = (n: number) =>
+    matrix.sampleNames.map((_, s) =>
+      mean(excluded.slice(0, n).map((g) => quantitiesOf(g.geneName)[s]))
+    );
+
+  const pairwiseVariations: PairwiseVariation[] = [];
+  for (let n = 2; n < excluded.length; n++) {
+    const current = log2Factor(n);
+    const next = log2Factor(n + 1);
+    pairwiseVariations.push({
+      n,
+      value: standardDeviation(current.map((f, s) => f - next[s])),
+    });
+  }
+
+  return {
+    ranking: excluded,
+    rounds,
+    pairwiseVariations,
+    recommendedCount: recommendReferenceCount(pairwiseVariations),
+    sampleCount: matrix.sampleNames.length,
+  };
+}
+
+/**
+ * Suggest the number of reference genes: the smallest n whose V n/n+1 is
+ * below the threshold, otherwise the n with the lowest variation
+ * @param variations Pairwise variations, by increasing n
+ * @returns Suggested number of reference genes (at least 2)
+ */
+function recommendReferenceCount(variations: PairwiseVariation[]): number {
+  const belowThreshold = variations.find((v) => v.value < GENORM_V_THRESHOLD);
+  if (belowThreshold) return belowThreshold.n;
+  if (variations.length === 0) return 2;
+
+  return variations.reduce((best, v) => (v.value < best.value ? v : best)).n;
+}
+
+/**
+ * Run NormFinder (Andersen et al. 2004) on log2 quantities: each gene's
+ * stability combines its intragroup variance with its shrunken intergroup
+ * variation. Groups with fewer than two samples are left out.
+ * @param matrix Candidate matrix
+ * @param sampleGroups Group of each sample, by sample name (default: one group)
+ * @returns NormFinder result, or null with fewer than three genes or no
+ *          group of two samples
+ */
+export function analyzeNormFinder(
+  matrix: CandidateMatrix,
+  sampleGroups: Record<string, string>
+): NormFinderResult | null {
+  const geneCount = matrix.genes.length;
+  if (geneCount < 3) return null;
+
+  const sampleIndices = new Map<string, number[]>();
+  matrix.sampleNames.forEach((name, s) => {
+    const group = sampleGroups[name] ?? "";
+    sampleIndices.set(group, [...(sampleIndices.get(group) ?? []), s]);
+  });
+  const groups = Array.from(sampleIndices.entries()).filter(
+    ([, indices]) => indices.length >= 2
+  );
+  if (groups.length === 0) return null;
+
+  const y = matrix.log2Quantities;
+  const geneMeans = y.map((values) =>
+    mean(groups.flatMap(([, indices]) => indices.map((s) => values[s])))
+  );
+  const grandMean = mean(geneMeans);
+
+  // Intragroup variance s² and group difference d per gene and group
+  const variances: number[][] = y.map(() => []);
+  const differences: number[][] = y.map(() => []);
+
+  for (const [, indices] of groups) {
+    const n = indices.length;
+    const geneGroupMeans = y.map((values) =>
+      mean(indices.map((s) => values[s]))
+    );
+    const sampleMeans = indices.map((s) => mean(y.map((values) => values[s])));
+    const groupMean = mean(geneGroupMeans);
+
+    const residualSums = y.map((values, i) =>
+      indices.reduce((sum, s, j) => {
+        const r = values[s] - geneGroupMeans[i] - sampleMeans[j] + groupMean;
+        return sum + r * r;
+      }, 0)
+    );
+    const totalResidual = residualSums.reduce((sum, v) => sum + v, 0);
+    const scale = (n - 1) * (1 - 2 / geneCount);
+
+    y.forEach((_, i) => {
+      const variance =
+        residualSums[i] / scale -
+        totalResidual / (geneCount * (geneCount - 1) * scale);
+      variances[i].push(Math.max(variance, 0));
+      differences[i].push(
+        geneGroupMeans[i] - geneMeans[i] - groupMean + grandMean
+      );
+    });
+  }
+
+  // Intergroup variation γ², shrinking each gene's group differences
+  const groupCount = groups.length;
+  const sizes = groups.map(([, indices]) => indices.length);
+  let gamma = 0;
+  if (groupCount > 1) {
+    const dSquares = differences.flat().reduce((sum, d) => sum + d * d, 0);
+    const meanVariance =
+      variances
+        .flatMap((v) => v.map((s2, g) => s2 / sizes[g]))
+        .reduce((sum, v) => sum + v, 0) /
+      (geneCount * groupCount);
+    gamma = Math.max(
+      dSquares / ((geneCount - 1) * (groupCount - 1)) - meanVariance,
+      0
+    );
+  }
+
+  const ranking = matrix.genes.map((geneName, i) => {
+    const perGroup = sizes.map((n, g) => {
+      const v = variances[i][g] / n;
+      const shrunk =
+        gamma + v > 0 ? (differences[i][g] * gamma) / (gamma + v) : 0;
+      const spread = gamma + v > 0 ? v + (gamma * v) / (gamma + v) : 0;
+      return Math.abs(shrunk) + Math.sqrt(spread);
+    });
+    return { geneName, value: mean(perGroup) };
+  });
+  ranking.sort((a, b) => a.value - b.value);
+
+  return {
+    ranking,
+    groups: groups.map(([group]) => group),
+    intergroupVariation: gamma,
+  };
+}
+
+/**
+ * Run BestKeeper (Pfaffl et al. 2004) on mean Cq values: descriptive
+ * statistics per gene and the correlation of each gene with the BestKeeper
+ * index, the geometric mean Cq of the consistent genes
+ * @param matrix Candidate matrix
+ * @returns BestKeeper result, genes ordered by correlation
+ */
+export function analyzeBestKeeper(matrix: CandidateMatrix): BestKeeperResult {
+  const stats = matrix.genes.map((geneName, i) => {
+    const cqs = matrix.cqs[i];
+    const average = mean(cqs);
+    const sd = mean(cqs.map((cq) => Math.abs(cq - average)));
+
+    return {
+      geneName,
+      geometricMeanCq: geometricMean(cqs),
+      minCq: Math.min(...cqs),
+      maxCq: Math.max(...cqs),
+      sd,
+      cv: (sd / average) * 100,
+      r: NaN,
+    };
+  });
+
+  // Inconsistent genes are left out of the index, unless fewer than two remain
+  const consistent = stats.filter((g) => g.sd <= BESTKEEPER_SD_THRESHOLD);
+  const indexGenes = (consistent.length >= 2 ? consistent : stats).map(
+    (g) => g.geneName
+  );
+  const index = matrix.sampleNames.map((_, s) =>
+    geometricMean(indexGenes.map((g) => matrix.cqs[matrix.genes.indexOf(g)][s]))
+  );
+
+  for (const [i, gene] of stats.entries()) {
+    gene.r = pearsonCorrelation(matrix.cqs[i], index);
+  }
+  stats.sort((a, b) => (isNaN(a.r) ? 1 : isNaN(b.r) ? -1 : b.r - a.r));
+
+  return { genes: stats, indexGenes };
+}
+
+/**
+ * Rank the candidate genes by every stability method and by the geometric
+ * mean of those ranks
+ * @param matrix Candidate matrix
+ * @param sampleGroups Group of each sample, by sample name (for NormFinder)
+ * @returns Stability analysis, or null with fewer than two genes or samples
+ */
+export function analyzeReferenceStability(
+  matrix: CandidateMatrix,
+  sampleGroups: Record<string, string>
+): ReferenceStabilityResult | null {
+  const geNorm = analyzeGeNorm(matrix);
+  if (!geNorm) return null;
+
+  const normFinder = analyzeNormFinder(matrix, sampleGroups);
+  const bestKeeper = analyzeBestKeeper(matrix);
+
+  const rankOf = (genes: { geneName: string }[], geneName: string) =>
+    genes.findIndex((g) => g.geneName === geneName) + 1;
+
+  const rows = matrix.genes.map((geneName) => {
+    const geNormRank = rankOf(geNorm.ranking, geneName);
+    const normFinderRank = normFinder
+      ? rankOf(normFinder.ranking, geneName)
+      : null;
+    const bestKeeperRank = rankOf(bestKeeper.genes, geneName);
+    const ranks = [geNormRank, normFinderRank ?? NaN, bestKeeperRank].filter(
+      (r) => !isNaN(r)
+    );
+
+    return {
+      geneName,
+      geNormRank,
+      normFinderRank,
+      bestKeeperRank,
+      overallScore: geometricMean(ranks),
+      overallRank: 0,
+    };
+  });
+
+  const comparison = [...rows].sort((a, b) => a.overallScore - b.overallScore);
+  comparison.forEach((row, i) => (row.overallRank = i + 1));
+
+  return { geNorm, normFinder, bestKeeper, comparison };
+}
+
+/**
+ * Get the genes of a stability ranking, most stable first
+ * @param result Stability analysis
+ * @param method Ranking to use (geNorm's when NormFinder could not run)
+ * @returns Gene names
+ */
+export function getStabilityRanking(
+  result: ReferenceStabilityResult,
+  method: StabilityMethod
+): string[] {
+  switch (method) {
+    case "normfinder":
+      return (result.normFinder?.ranking ?? result.geNorm.ranking).map(
+        (g) => g.geneName
+      );
+    case "bestkeeper":
+      return result.bestKeeper.genes.map((g) => g.geneName);
+    case "overall":
+      return result.comparison.map((row) => row.geneName);
+    default:
+      return result.geNorm.ranking.map((g) => g.geneName);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Row Diagnostics Module
+ * Checks every gene's well count against the sample list and layout
+ */
+
+import { GeneData, ProcessingConfig } from "../../types";
+import { getSampleReplicaCounts } from "./ct-calculator";
+import { hasWellAssignments } from "./plate-layout";
+
+/**
+ * A sample of one gene with fewer wells than expected
+ */
+export interface SampleShortfall {
+  sampleName: string;
+  sampleNumber: number;
+  found: number;
+  expected: number;
+  rowIndices: number[]; // Data rows of the wells that were found
+}
+
+/**
+ * Well count check of one gene
+ */
+export interface GeneRowDiagnostic {
+  geneName: string;
+  wellCount: number;
+  expectedWells: number;
+  incompleteSamples: SampleShortfall[];
+  unassignedRows: number[]; // Data rows not grouped into any sample
+}
+
+/**
+ * Check the well count of every gene against the samples it should cover.
+ * With a plate map the expected count of a sample is the most wells any
+ * gene has for it; otherwise it comes from the sample list.
+ * @param geneDataMap Map of all gene data with replica groups
+ * @param config Processing configuration
+ * @returns One diagnostic per gene, in gene order
+ */
+export function diagnoseGeneRows(
+  geneDataMap: Map<string, GeneData>,
+  config: ProcessingConfig
+): GeneRowDiagnostic[] {
+  const genes = Array.from(geneDataMap.values());
+  const usePlateMap = hasWellAssignments(config.wellAssignments);
+
+  // Sample names in order, with the largest replicate count across genes
+  const plateMapCounts = new Map<string, number>();
+  if (usePlateMap) {
+    for (const geneData of genes) {
+      for (const group of geneData.replicaGroups) {
+        plateMapCounts.set(
+          group.sampleName,
+          Math.max(
+            plateMapCounts.get(group.sampleName) ?? 0,
+            group.measurements.length
+          )
+        );
+      }
+    }
+  }
+
+  return genes.map((geneData) => {
+    const sampleNames = usePlateMap
+      ? Array.from(plateMapCounts.keys())
+      : config.samples;
+    const expectedCounts = usePlateMap
+      ? sampleNames.map((s) => plateMapCounts.get(s) ?? 0)
+      : getSampleReplicaCounts(config, geneData.name);
+
+    const groupsByName = new Map(
+      geneData.replicaGroups.map((g) => [g.sampleName, g])
+    );
+    const groupedRows = new Set(
+      geneData.replicaGroups.flatMap((g) =>
+        g.measurements.map((m) => m.rowIndex)
+      )
+    );
+
+    const incompleteSamples: SampleShortfall[] = [];
+    sampleNames.forEach((sampleName, i) => {
+      const measurements = groupsByName.get(sampleName)?.measurements ?? [];
+      if (measurements.length < expectedCounts[i]) {
+        incompleteSamples.push({
+          sampleName,
+          sampleNumber: i + 1,
+          found: measurements.length,
+          expected: expectedCounts[i],
+          rowIndices: measurements.map((m) => m.rowIndex),
+        });
+      }
+    });
+
+    return {
+      geneName: geneData.name,
+      wellCount: geneData.measurements.length,
+      expectedWells: expectedCounts.reduce((total, n) => total + n, 0),
+      incompleteSamples,
+      unassignedRows: geneData.measurements
+        .filter((m) => !groupedRows.has(m.rowIndex))
+        .map((m) => m.rowIndex),
+    };
+  });
+}
+
+/**
+ * Check whether a gene's wells do not line up with its samples
+ * @param diagnostic Diagnostic of one gene
+ * @returns True if any sample is incomplete or any well is left over
+ */
+export function hasRowMismatch(diagnostic: GeneRowDiagnostic): boolean {
+  return (
+    diagnostic.wellCount !== diagnostic.expectedWells ||
+    diagnostic.incompleteSamples.length > 0 ||
+    diagnostic.unassignedRows.length > 0
+  );
+}
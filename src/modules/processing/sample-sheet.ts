@@ -0,0 +1,109 @@
+/**
+ * Sample Sheet Module
+ * Derives conditions (groups of samples) from the experimental factors
+ * of the sample sheet
+ */
+
+import { ProcessingConfig, SampleSheet } from "../../types";
+
+/** Condition names used when no grouping factor is picked */
+export const CONTROL_CONDITION = "Controls";
+export const SAMPLE_CONDITION = "Samples";
+
+/**
+ * Samples sharing the same levels of the grouping factors
+ */
+export interface SampleCondition {
+  name: string;
+  sampleNames: string[];
+  isControl: boolean; // Every sample of the condition is a control
+}
+
+/**
+ * Get the distinct levels of a factor
+ * @param sheet Sample sheet
+ * @param factor Factor name
+ * @param samples Sample names
+ * @returns Non-empty levels in sample order
+ */
+export function getFactorLevels(
+  sheet: SampleSheet,
+  factor: string,
+  samples: string[]
+): string[] {
+  const levels: string[] = [];
+
+  for (const sample of samples) {
+    const level = sheet.levels[sample]?.[factor] ?? "";
+    if (level && !levels.includes(level)) levels.push(level);
+  }
+
+  return levels;
+}
+
+/**
+ * Get the condition of a sample: its levels of the grouping factors, or
+ * controls vs. samples without grouping factors
+ * @param sample Sample name
+ * @param config Processing configuration
+ * @returns Condition name
+ */
+export function getSampleCondition(
+  sample: string,
+  config: ProcessingConfig
+): string {
+  if (config.groupingFactors.length === 0) {
+    return config.controls.includes(sample)
+      ? CONTROL_CONDITION
+      : SAMPLE_CONDITION;
+  }
+
+  return config.groupingFactors
+    .map((factor) => config.sampleSheet.levels[sample]?.[factor] || "–")
+    .join(" / ");
+}
+
+/**
+ * Map every sample to its condition
+ * @param config Processing configuration
+ * @returns Condition name per sample name
+ */
+export function getSampleConditions(
+  config: ProcessingConfig
+): Record<string, string> {
+  return Object.fromEntries(
+    config.samples.map((s) => [s, getSampleCondition(s, config)])
+  );
+}
+
+/**
+ * Group the samples by condition, control conditions first, otherwise in
+ * the order the conditions first appear in the sample list. Standards of
+ * the dilution series belong to no condition.
+ * @param config Processing configuration
+ * @returns Conditions with their samples
+ */
+export function groupSamplesByCondition(
+  config: ProcessingConfig
+): SampleCondition[] {
+  const conditions: SampleCondition[] = [];
+
+  for (const sample of config.samples) {
+    if (config.standards[sample] !== undefined) continue;
+
+    const name = getSampleCondition(sample, config);
+    let condition = conditions.find((c) => c.name === name);
+    if (!condition) {
+      condition = { name, sampleNames: [], isControl: true };
+      conditions.push(condition);
+    }
+    condition.sampleNames.push(sample);
+    condition.isControl =
+      condition.isControl && config.controls.includes(sample);
+  }
+
+  return [
+    ...conditions.filter((c) => c.isControl),
+    ...conditions.filter((c) => !c.isControl),
+  ];
+}
@@ -0,0 +1,394 @@
+/**
+ * Significance Module
+ * Tests the ΔCT values (log scale) of the biological replicates of each
+ * condition against the controls: Welch's t-test, Mann-Whitney U, and
+ * one-way ANOVA with Tukey-Kramer or Dunnett post-hoc comparisons
+ */
+
+import {
+  AnovaSummary,
+  ConditionSummary,
+  GroupComparison,
+  ProcessingTableRow,
+  SignificanceResult,
+  SignificanceTest,
+} from "../../types";
+import {
+  dunnettCdf,
+  fDistributionUpperP,
+  normalCdf,
+  studentizedRangeCdf,
+  studentTTwoSidedP,
+} from "./distributions";
+import { mean, standardDeviation } from "./statistics";
+
+/** Largest total sample size for the exact Mann-Whitney distribution */
+const MAX_EXACT_MANN_WHITNEY = 40;
+
+/**
+ * ΔCT values of the biological replicates of a condition
+ */
+export interface TestGroup {
+  name: string;
+  values: number[];
+}
+
+/**
+ * Welch's t-test of one group against a reference
+ * @param group Tested group
+ * @param reference Reference group
+ * @returns Comparison with t, Welch-Satterthwaite df and Hedges' g
+ */
+export function welchTTest(
+  group: TestGroup,
+  reference: TestGroup
+): GroupComparison {
+  const n1 = group.values.length;
+  const n2 = reference.values.length;
+  const v1 = Math.pow(standardDeviation(group.values), 2);
+  const v2 = Math.pow(standardDeviation(reference.values), 2);
+  const difference = mean(group.values) - mean(reference.values);
+
+  const se = Math.sqrt(v1 / n1 + v2 / n2);
+  const t = se > 0 ? difference / se : NaN;
+  const df =
+    Math.pow(v1 / n1 + v2 / n2, 2) /
+    (Math.pow(v1 / n1, 2) / (n1 - 1) + Math.pow(v2 / n2, 2) / (n2 - 1));
+
+  // Hedges' g: Cohen's d on the pooled SD with small-sample correction
+  const pooledSd = Math.sqrt(((n1 - 1) * v1 + (n2 - 1) * v2) / (n1 + n2 - 2));
+  const correction = 1 - 3 / (4 * (n1 + n2) - 9);
+
+  return {
+    ...comparisonGroups(group, reference),
+    meanDifference: difference,
+    statistic: t,
+    df,
+    p: studentTTwoSidedP(t, df),
+    effectSize: pooledSd > 0 ? (difference / pooledSd) * correction : NaN,
+    q: null,
+  };
+}
+
+/**
+ * Mann-Whitney U test of one group against a reference. Exact without ties
+ * in small samples, otherwise the normal approximation with tie and
+ * continuity correction.
+ * @param group Tested group
+ * @param reference Reference group
+ * @returns Comparison with U of the tested group and the rank-biserial r
+ */
+export function mannWhitneyTest(
+  group: TestGroup,
+  reference: TestGroup
+): GroupComparison {
+  const n1 = group.values.length;
+  const n2 = reference.values.length;
+  const all = [...group.values, ...reference.values];
+  const ranks = midRanks(all);
+
+  const rankSum = ranks.slice(0, n1).reduce((sum, r) => sum + r, 0);
+  const u = rankSum - (n1 * (n1 + 1)) / 2;
+  const expected = (n1 * n2) / 2;
+
+  const tieGroups = countTies(all);
+  let p: number;
+  if (tieGroups.length === 0 && n1 + n2 <= MAX_EXACT_MANN_WHITNEY) {
+    p = exactMannWhitneyP(Math.min(u, n1 * n2 - u), n1, n2);
+  } else {
+    const n = n1 + n2;
+    const tieTerm = tieGroups.reduce((sum, t) => sum + (t * t * t - t), 0);
+    const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+    const z =
+      variance > 0
+        ? Math.max(0, Math.abs(u - expected) - 0.5) / Math.sqrt(variance)
+        : NaN;
+    p = isFinite(z) ? 2 * (1 - normalCdf(z)) : NaN;
+  }
+
+  return {
+    ...comparisonGroups(group, reference),
+    meanDifference: mean(group.values) - mean(reference.values),
+    statistic: u,
+    df: null,
+    p: Math.min(1, p),
+    effectSize: (2 * u) / (n1 * n2) - 1,
+    q: null,
+  };
+}
+
+/**
+ * Rank values, giving tied values the mean of their ranks
+ * @param values Values
+ * @returns Rank of each value (1-based), in value order
+ */
+function midRanks(values: number[]): number[] {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks = new Array<number>(values.length);
+
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) {
+      j++;
+    }
+    for (let k = i; k <= j; k++) ranks[order[k]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Count the sizes of groups of tied values
+ * @param values Values
+ * @returns Size of every group of two or more equal values
+ */
+function countTies(values: number[]): number[] {
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return Array.from(counts.values()).filter((c) => c > 1);
+}
+
+/**
+ * Exact two-sided p-value of the Mann-Whitney U statistic without ties
+ * @param u Smaller of the two U statistics
+ * @param n1 First sample size
+ * @param n2 Second sample size
+ * @returns P(U ≤ u) doubled, at most 1
+ */
+function exactMannWhitneyP(u: number, n1: number, n2: number): number {
+  // ways[k][s]: subsets of size k of the ranks seen so far with U-sum s
+  const maxU = n1 * n2;
+  let ways: number[][] = Array.from({ length: n1 + 1 }, () =>
+    new Array<number>(maxU + 1).fill(0)
+  );
+  ways[0][0] = 1;
+
+  // Adding the i-th smallest value to the first sample adds the number
+  // of second-sample values below it to U
+  for (let i = 0; i < n1 + n2; i++) {
+    const next = ways.map((row) => row.slice());
+    for (let k = 0; k < n1; k++) {
+      const below = i - k; // Second-sample values among the i smaller ones
+      if (below > n2) continue;
+      for (let s = 0; s + below <= maxU; s++) {
+        if (ways[k][s] > 0) next[k + 1][s + below] += ways[k][s];
+      }
+    }
+    ways = next;
+  }
+
+  const total = ways[n1].reduce((sum, w) => sum + w, 0);
+  let tail = 0;
+  for (let s = 0; s <= Math.floor(u); s++) tail += ways[n1][s];
+  return Math.min(1, (2 * tail) / total);
+}
+
+/**
+ * Group names and sizes of a comparison
+ * @param group Tested group
+ * @param reference Reference group
+ * @returns Comparison fields describing the groups
+ */
+function comparisonGroups(group: TestGroup, reference: TestGroup) {
+  return {
+    group: group.name,
+    reference: reference.name,
+    groupN: group.values.length,
+    referenceN: reference.values.length,
+  };
+}
+
+/**
+ * One-way ANOVA
+ * @param groups Groups with at least one value each
+ * @returns F test with η², and the pooled within-group variance (MSE)
+ */
+export function oneWayAnova(groups: TestGroup[]): {
+  anova: AnovaSummary;
+  mse: number;
+} {
+  const all = groups.flatMap((g) => g.values);
+  const grandMean = mean(all);
+
+  let ssBetween = 0;
+  let ssWithin = 0;
+  for (const group of groups) {
+    const groupMean = mean(group.values);
+    ssBetween += group.values.length * Math.pow(groupMean - grandMean, 2);
+    ssWithin += group.values.reduce(
+      (sum, v) => sum + Math.pow(v - groupMean, 2),
+      0
+    );
+  }
+
+  const dfBetween = groups.length - 1;
+  const dfWithin = all.length - groups.length;
+  const mse = ssWithin / dfWithin;
+  const f = mse > 0 ? ssBetween / dfBetween / mse : NaN;
+
+  return {
+    anova: {
+      f,
+      dfBetween,
+      dfWithin,
+      p: fDistributionUpperP(f, dfBetween, dfWithin),
+      etaSquared: ssBetween / (ssBetween + ssWithin),
+    },
+    mse,
+  };
+}
+
+/**
+ * Tukey-Kramer comparisons of every pair of groups
+ * @param groups Groups, controls first
+ * @param mse Pooled within-group variance
+ * @param df Within-group degrees of freedom
+ * @returns Comparison per pair with q and Cohen's d on the pooled SD
+ */
+export function tukeyComparisons(
+  groups: TestGroup[],
+  mse: number,
+  df: number
+): GroupComparison[] {
+  const comparisons: GroupComparison[] = [];
+
+  for (let j = 0; j < groups.length; j++) {
+    for (let i = j + 1; i < groups.length; i++) {
+      const difference = mean(groups[i].values) - mean(groups[j].values);
+      const se = Math.sqrt(
+        (mse / 2) * (1 / groups[i].values.length + 1 / groups[j].values.length)
+      );
+      const q = se > 0 ? Math.abs(difference) / se : NaN;
+
+      comparisons.push({
+        ...comparisonGroups(groups[i], groups[j]),
+        meanDifference: difference,
+        statistic: q,
+        df,
+        p: isFinite(q)
+          ? Math.max(0, 1 - studentizedRangeCdf(q, groups.length, df))
+          : NaN,
+        effectSize: mse > 0 ? difference / Math.sqrt(mse) : NaN,
+        q: null,
+      });
+    }
+  }
+
+  return comparisons;
+}
+
+/**
+ * Dunnett comparisons of every treatment group against the controls
+ * @param control Control group
+ * @param treatments Treatment groups
+ * @param mse Pooled within-group variance
+ * @param df Within-group degrees of freedom
+ * @returns Comparison per treatment with t and Cohen's d on the pooled SD
+ */
+export function dunnettComparisons(
+  control: TestGroup,
+  treatments: TestGroup[],
+  mse: number,
+  df: number
+): GroupComparison[] {
+  const sizes = treatments.map((t) => t.values.length);
+
+  return treatments.map((group) => {
+    const difference = mean(group.values) - mean(control.values);
+    const se = Math.sqrt(
+      mse * (1 / group.values.length + 1 / control.values.length)
+    );
+    const t = se > 0 ? difference / se : NaN;
+
+    return {
+      ...comparisonGroups(group, control),
+      meanDifference: difference,
+      statistic: t,
+      df,
+      p: isFinite(t)
+        ? Math.max(
+            0,
+            1 - dunnettCdf(Math.abs(t), sizes, control.values.length, df)
+          )
+        : NaN,
+      effectSize: mse > 0 ? difference / Math.sqrt(mse) : NaN,
+      q: null,
+    };
+  });
+}
+
+/**
+ * Test the conditions of a gene against its controls. The control
+ * conditions are pooled into one control group.
+ * @param rows Processing table rows of the gene
+ * @param conditions Condition summaries of the gene
+ * @param test Test to run
+ * @returns Test results, or null without a test, controls or another condition
+ */
+export function testConditions(
+  rows: ProcessingTableRow[],
+  conditions: ConditionSummary[],
+  test: SignificanceTest
+): SignificanceResult | null {
+  if (test === "none") return null;
+
+  const deltaCts = (condition: ConditionSummary) =>
+    rows
+      .filter((r) => !r.isReplicaRow)
+      .filter((r) => condition.sampleNames.includes(r.sampleName))
+      .map((r) => r.deltaCt);
+
+  const controls = conditions.filter((c) => c.isControl);
+  const control: TestGroup = {
+    name: controls.map((c) => c.condition).join(" + "),
+    values: controls.flatMap(deltaCts),
+  };
+  const treatments: TestGroup[] = conditions
+    .filter((c) => !c.isControl)
+    .map((c) => ({ name: c.condition, values: deltaCts(c) }));
+
+  if (control.values.length === 0 || treatments.length === 0) return null;
+
+  if (test === "welch" || test === "mann-whitney") {
+    const usable = treatments.filter((t) =>
+      test === "welch"
+        ? t.values.length >= 2 && control.values.length >= 2
+        : t.values.length >= 1
+    );
+    if (usable.length === 0) return null;
+
+    return test === "welch"
+      ? {
+          test,
+          statisticName: "t",
+          effectSizeName: "Hedges' g",
+          comparisons: usable.map((t) => welchTTest(t, control)),
+          anova: null,
+        }
+      : {
+          test,
+          statisticName: "U",
+          effectSizeName: "Rank-biserial r",
+          comparisons: usable.map((t) => mannWhitneyTest(t, control)),
+          anova: null,
+        };
+  }
+
+  const groups = [control, ...treatments];
+  const total = groups.reduce((sum, g) => sum + g.values.length, 0);
+  if (total <= groups.length) return null;
+
+  const { anova, mse } = oneWayAnova(groups);
+
+  return {
+    test,
+    statisticName: test === "anova-tukey" ? "q" : "t",
+    effectSizeName: "Cohen's d",
+    comparisons:
+      test === "anova-tukey"
+        ? tukeyComparisons(groups, mse, anova.dfWithin)
+        : dunnettComparisons(control, treatments, mse, anova.dfWithin),
+    anova,
+  };
+}
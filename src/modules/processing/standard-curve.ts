@@ -0,0 +1,166 @@
+/**
+ * Standard Curve Module
+ * Fits Cq against log10(quantity) of a dilution series to get the
+ * amplification efficiency and the linear dynamic range of an assay
+ */
+
+import { GeneData } from "../../types";
+import { linearRegression } from "./statistics";
+
+/** Smallest R² accepted for a dilution range to count as linear */
+export const MIN_LINEAR_R_SQUARED = 0.98;
+
+/** Fewest dilution levels a standard curve is fitted on */
+const MIN_LEVELS = 3;
+
+/**
+ * One replicate Cq of a standard
+ */
+export interface StandardPoint {
+  sampleName: string;
+  quantity: number;
+  cq: number;
+  inRange: boolean; // Inside the linear dynamic range used for the fit
+}
+
+/**
+ * Standard curve of one gene
+ */
+export interface StandardCurveResult {
+  geneName: string;
+  points: StandardPoint[];
+  slope: number;
+  intercept: number; // Cq at quantity 1
+  rSquared: number;
+  efficiency: number; // E = 10^(-1/slope) - 1 (1 = 100%)
+  rangeMin: number; // Lowest quantity of the linear dynamic range
+  rangeMax: number; // Highest quantity of the linear dynamic range
+  levels: number; // Dilution levels in the linear dynamic range
+  linear: boolean; // Whether the range reaches MIN_LINEAR_R_SQUARED
+}
+
+/**
+ * Get the amplification efficiency from a standard curve slope
+ * @param slope Slope of Cq against log10(quantity)
+ * @returns Efficiency (1 = 100%, doubling every cycle)
+ */
+export function efficiencyFromSlope(slope: number): number {
+  return Math.pow(10, -1 / slope) - 1;
+}
+
+/**
+ * Fit a straight line through the points of a range of dilution levels
+ * @param points Standard points
+ * @param quantities Quantities of the levels in the range
+ * @returns Regression result
+ */
+function fitLevels(points: StandardPoint[], quantities: number[]) {
+  const inRange = points.filter((p) => quantities.includes(p.quantity));
+  return linearRegression(
+    inRange.map((p) => Math.log10(p.quantity)),
+    inRange.map((p) => p.cq)
+  );
+}
+
+/**
+ * Find the widest run of consecutive dilution levels that is linear,
+ * preferring the best R² among equally wide runs
+ * @param points Standard points
+ * @param quantities Distinct quantities, ascending
+ * @returns Quantities of the linear range, or null if no range is linear
+ */
+function findLinearRange(
+  points: StandardPoint[],
+  quantities: number[]
+): number[] | null {
+  for (let size = quantities.length; size >= MIN_LEVELS; size--) {
+    let best: number[] | null = null;
+    let bestRSquared = MIN_LINEAR_R_SQUARED;
+
+    for (let start = 0; start + size <= quantities.length; start++) {
+      const window = quantities.slice(start, start + size);
+      const { rSquared } = fitLevels(points, window);
+      if (rSquared >= bestRSquared) {
+        best = window;
+        bestRSquared = rSquared;
+      }
+    }
+
+    if (best) return best;
+  }
+
+  return null;
+}
+
+/**
+ * Fit the standard curve of one gene
+ * @param geneData Gene data with replica groups
+ * @param standards Quantity per standard sample name
+ * @returns Standard curve, or null with fewer than three dilution levels
+ */
+export function fitStandardCurve(
+  geneData: GeneData,
+  standards: Record<string, number>
+): StandardCurveResult | null {
+  const points: StandardPoint[] = [];
+
+  for (const group of geneData.replicaGroups) {
+    const quantity = standards[group.sampleName];
+    if (quantity === undefined) continue;
+
+    for (const cq of group.ctValues) {
+      if (isFinite(cq)) {
+        points.push({
+          sampleName: group.sampleName,
+          quantity,
+          cq,
+          inRange: true,
+        });
+      }
+    }
+  }
+
+  const quantities = Array.from(new Set(points.map((p) => p.quantity))).sort(
+    (a, b) => a - b
+  );
+  if (quantities.length < MIN_LEVELS) return null;
+
+  const linearRange = findLinearRange(points, quantities);
+  const range = linearRange ?? quantities;
+  points.forEach((p) => (p.inRange = range.includes(p.quantity)));
+
+  const { slope, intercept, rSquared } = fitLevels(points, range);
+
+  return {
+    geneName: geneData.name,
+    points,
+    slope,
+    intercept,
+    rSquared,
+    efficiency: efficiencyFromSlope(slope),
+    rangeMin: range[0],
+    rangeMax: range[range.length - 1],
+    levels: range.length,
+    linear: linearRange !== null,
+  };
+}
+
+/**
+ * Fit standard curves for every gene that has enough standards
+ * @param geneDataMap Map of all gene data with replica groups
+ * @param standards Quantity per standard sample name
+ * @returns Standard curves in gene order
+ */
+export function fitStandardCurves(
+  geneDataMap: Map<string, GeneData>,
+  standards: Record<string, number>
+): StandardCurveResult[] {
+  if (Object.keys(standards).length === 0) return [];
+
+  const results: StandardCurveResult[] = [];
+  for (const geneData of geneDataMap.values()) {
+    const result = fitStandardCurve(geneData, standards);
+    if (result) results.push(result);
+  }
+  return results;
+}
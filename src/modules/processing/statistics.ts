@@ -80,6 +80,60 @@ export function foldChange(deltaDeltaCt: number): number {
   return Math.pow(2, -deltaDeltaCt);
 }
 
+/**
+ * Calculate the relative quantity of a gene from its ΔCT
+ * Formula: (1 + E)^ΔCT, with ΔCT = CT(reference sample) - CT(sample)
+ * @param efficiency Amplification efficiency (1 = 100%)
+ * @param deltaCt ΔCT against the reference sample
+ * @returns Relative quantity
+ */
+export function relativeQuantity(efficiency: number, deltaCt: number): number {
+  return Math.pow(1 + efficiency, deltaCt);
+}
+
+/**
+ * Calculate the geometric mean of positive values
+ * @param values Array of positive numbers
+ * @returns Geometric mean, or NaN for an empty array
+ */
+export function geometricMean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return Math.exp(mean(values.map((v) => Math.log(v))));
+}
+
+/**
+ * Calculate the standard deviation of the mean of independent values
+ * Formula: sqrt(sum(std²)) / n
+ * @param stds Standard deviations of the averaged values
+ * @returns Propagated standard deviation
+ */
+export function meanStandardDeviation(stds: number[]): number {
+  if (stds.length === 0) return 0;
+  return Math.sqrt(stds.reduce((sum, s) => sum + s * s, 0)) / stds.length;
+}
+
+/**
+ * Calculate the Pearson correlation coefficient of two series
+ * @param x First series
+ * @param y Second series (same length as x)
+ * @returns Correlation coefficient r (NaN if either series is constant)
+ */
+export function pearsonCorrelation(x: number[], y: number[]): number {
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  }
+
+  return sxx === 0 || syy === 0 ? NaN : sxy / Math.sqrt(sxx * syy);
+}
+
 /**
  * Round a number to a specified number of decimal places
  * @param value Value to round
@@ -91,6 +145,41 @@ export function roundTo(value: number, decimals: number = 2): number {
   return Math.round(value * factor) / factor;
 }
 
+/**
+ * Least-squares fit of a straight line y = slope * x + intercept
+ * @param x Independent values
+ * @param y Dependent values (same length as x)
+ * @returns Slope, intercept and coefficient of determination (NaN if fewer
+ *          than two distinct x values)
+ */
+export function linearRegression(
+  x: number[],
+  y: number[]
+): { slope: number; intercept: number; rSquared: number } {
+  const xMean = mean(x);
+  const yMean = mean(y);
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxx += (x[i] - xMean) ** 2;
+    sxy += (x[i] - xMean) * (y[i] - yMean);
+    syy += (y[i] - yMean) ** 2;
+  }
+
+  if (x.length < 2 || sxx === 0) {
+    return { slope: NaN, intercept: NaN, rSquared: NaN };
+  }
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: yMean - slope * xMean,
+    rSquared: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy),
+  };
+}
+
 /**
  * Format a number for display with fixed decimal places
  * @param value Value to format
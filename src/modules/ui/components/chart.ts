@@ -0,0 +1,266 @@
+/**
+ * Chart Component
+ * Renders simple SVG line, scatter and bar charts
+ */
+
+import { escapeHtml } from "./table";
+
+/**
+ * A point of a chart series
+ */
+export interface ChartPoint {
+  x: number;
+  y: number;
+  title?: string; // Tooltip
+}
+
+/**
+ * A line or set of points
+ */
+export interface ChartSeries {
+  label: string;
+  points: ChartPoint[];
+  mode: "line" | "points";
+  className?: string;
+}
+
+/**
+ * Horizontal reference line (e.g. a threshold)
+ */
+export interface ChartReferenceLine {
+  y: number;
+  label: string;
+  className?: string;
+}
+
+/**
+ * A bar of a bar chart
+ */
+export interface ChartBar {
+  label: string; // Category shown under the bar
+  value: number;
+  title?: string; // Tooltip
+  className?: string;
+}
+
+/**
+ * Bar chart configuration
+ */
+export interface BarChartOptions {
+  bars: ChartBar[];
+  yLabel: string;
+  referenceLines?: ChartReferenceLine[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Chart configuration
+ */
+export interface ChartOptions {
+  series: ChartSeries[];
+  xLabel: string;
+  yLabel: string;
+  referenceLines?: ChartReferenceLine[];
+  width?: number;
+  height?: number;
+}
+
+const MARGIN = { top: 12, right: 16, bottom: 40, left: 60 };
+
+/**
+ * Pick round tick values covering a range
+ * @param min Range minimum
+ * @param max Range maximum
+ * @param count Approximate number of ticks
+ * @returns Tick values
+ */
+function niceTicks(min: number, max: number, count: number = 5): number[] {
+  const span = max - min || Math.abs(max) || 1;
+  const rough = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step =
+    [1, 2, 5, 10].map((f) => f * magnitude).find((s) => s >= rough) ??
+    10 * magnitude;
+
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step / 1e6; t += step) {
+    ticks.push(Number(t.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Format a tick value compactly
+ * @param value Tick value
+ * @returns Label text
+ */
+function formatTick(value: number): string {
+  if (value !== 0 && (Math.abs(value) >= 1e5 || Math.abs(value) < 1e-3)) {
+    return value.toExponential(1);
+  }
+  return String(value);
+}
+
+/**
+ * Render a chart as inline SVG
+ * @param options Chart configuration
+ * @returns SVG markup (a placeholder message when there is nothing to plot)
+ */
+export function renderChart(options: ChartOptions): string {
+  const { series, xLabel, yLabel, referenceLines = [] } = options;
+  const width = options.width ?? 640;
+  const height = options.height ?? 360;
+
+  const points = series.flatMap((s) => s.points);
+  if (points.length === 0) {
+    return '<p class="text-center">No data to plot.</p>';
+  }
+
+  const xs = points.map((p) => p.x);
+  const ys = [...points.map((p) => p.y), ...referenceLines.map((l) => l.y)];
+  const xTicks = niceTicks(Math.min(...xs), Math.max(...xs));
+  const yTicks = niceTicks(Math.min(...ys), Math.max(...ys));
+  const xMin = Math.min(xTicks[0], ...xs);
+  const xMax = Math.max(xTicks[xTicks.length - 1], ...xs);
+  const yMin = Math.min(yTicks[0], ...ys);
+  const yMax = Math.max(yTicks[yTicks.length - 1], ...ys);
+
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const sx = (x: number) =>
+    MARGIN.left + ((x - xMin) / (xMax - xMin || 1)) * plotWidth;
+  const sy = (y: number) =>
+    MARGIN.top + plotHeight - ((y - yMin) / (yMax - yMin || 1)) * plotHeight;
+
+  let svg = `<svg class="chart" viewBox="0 0 ${width} ${height}" width="100%" role="img">`;
+
+  // Axes and grid
+  for (const t of yTicks) {
+    svg += `<line class="chart-grid" x1="${MARGIN.left}" x2="${
+      MARGIN.left + plotWidth
+    }" y1="${sy(t)}" y2="${sy(t)}" />`;
+    svg += `<text class="chart-tick" x="${MARGIN.left - 6}" y="${
+      sy(t) + 4
+    }" text-anchor="end">${formatTick(t)}</text>`;
+  }
+  for (const t of xTicks) {
+    svg += `<text class="chart-tick" x="${sx(t)}" y="${
+      MARGIN.top + plotHeight + 16
+    }" text-anchor="middle">${formatTick(t)}</text>`;
+  }
+  svg += `<rect class="chart-frame" x="${MARGIN.left}" y="${MARGIN.top}" width="${plotWidth}" height="${plotHeight}" />`;
+  svg += `<text class="chart-label" x="${MARGIN.left + plotWidth / 2}" y="${
+    height - 6
+  }" text-anchor="middle">${escapeHtml(xLabel)}</text>`;
+  svg += `<text class="chart-label" transform="rotate(-90)" x="${-(
+    MARGIN.top +
+    plotHeight / 2
+  )}" y="14" text-anchor="middle">${escapeHtml(yLabel)}</text>`;
+
+  for (const line of referenceLines) {
+    svg += `<line class="chart-reference ${line.className ?? ""}" x1="${
+      MARGIN.left
+    }" x2="${MARGIN.left + plotWidth}" y1="${sy(line.y)}" y2="${sy(
+      line.y
+    )}"><title>${escapeHtml(line.label)}</title></line>`;
+  }
+
+  for (const s of series) {
+    const className = `chart-series ${s.className ?? ""}`;
+
+    if (s.mode === "line") {
+      const path = s.points
+        .map((p, i) => `${i === 0 ? "M" : "L"}${sx(p.x)},${sy(p.y)}`)
+        .join(" ");
+      svg += `<path class="${className} chart-line" d="${path}"><title>${escapeHtml(
+        s.label
+      )}</title></path>`;
+    } else {
+      for (const p of s.points) {
+        svg += `<circle class="${className} chart-point" cx="${sx(
+          p.x
+        )}" cy="${sy(p.y)}" r="3.5"><title>${escapeHtml(
+          p.title ?? s.label
+        )}</title></circle>`;
+      }
+    }
+  }
+
+  svg += "</svg>";
+  return svg;
+}
+
+/**
+ * Render a bar chart (categories along x, starting at zero) as inline SVG
+ * @param options Bar chart configuration
+ * @returns SVG markup (a placeholder message when there is nothing to plot)
+ */
+export function renderBarChart(options: BarChartOptions): string {
+  const { bars, yLabel, referenceLines = [] } = options;
+  const width = options.width ?? 640;
+  const height = options.height ?? 300;
+
+  if (bars.length === 0) {
+    return '<p class="text-center">No data to plot.</p>';
+  }
+
+  const ys = [
+    0,
+    ...bars.map((b) => b.value),
+    ...referenceLines.map((l) => l.y),
+  ];
+  const yTicks = niceTicks(Math.min(...ys), Math.max(...ys));
+  const yMin = Math.min(yTicks[0], ...ys);
+  const yMax = Math.max(yTicks[yTicks.length - 1], ...ys);
+
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const slot = plotWidth / bars.length;
+  const sy = (y: number) =>
+    MARGIN.top + plotHeight - ((y - yMin) / (yMax - yMin || 1)) * plotHeight;
+
+  let svg = `<svg class="chart" viewBox="0 0 ${width} ${height}" width="100%" role="img">`;
+
+  for (const t of yTicks) {
+    svg += `<line class="chart-grid" x1="${MARGIN.left}" x2="${
+      MARGIN.left + plotWidth
+    }" y1="${sy(t)}" y2="${sy(t)}" />`;
+    svg += `<text class="chart-tick" x="${MARGIN.left - 6}" y="${
+      sy(t) + 4
+    }" text-anchor="end">${formatTick(t)}</text>`;
+  }
+  svg += `<rect class="chart-frame" x="${MARGIN.left}" y="${MARGIN.top}" width="${plotWidth}" height="${plotHeight}" />`;
+  svg += `<text class="chart-label" transform="rotate(-90)" x="${-(
+    MARGIN.top +
+    plotHeight / 2
+  )}" y="14" text-anchor="middle">${escapeHtml(yLabel)}</text>`;
+
+  bars.forEach((bar, i) => {
+    const x = MARGIN.left + i * slot + slot * 0.15;
+    const top = sy(Math.max(bar.value, 0));
+    const barHeight = Math.abs(sy(bar.value) - sy(0));
+
+    svg += `<rect class="chart-bar ${bar.className ?? ""}" x="${x}" y="${top}" width="${
+      slot * 0.7
+    }" height="${barHeight}"><title>${escapeHtml(
+      bar.title ?? `${bar.label}: ${bar.value}`
+    )}</title></rect>`;
+    svg += `<text class="chart-tick" x="${
+      MARGIN.left + (i + 0.5) * slot
+    }" y="${MARGIN.top + plotHeight + 16}" text-anchor="middle">${escapeHtml(
+      bar.label
+    )}</text>`;
+  });
+
+  for (const line of referenceLines) {
+    svg += `<line class="chart-reference ${line.className ?? ""}" x1="${
+      MARGIN.left
+    }" x2="${MARGIN.left + plotWidth}" y1="${sy(line.y)}" y2="${sy(
+      line.y
+    )}"><title>${escapeHtml(line.label)}</title></line>`;
+  }
+
+  svg += "</svg>";
+  return svg;
+}
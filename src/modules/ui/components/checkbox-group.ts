@@ -0,0 +1,77 @@
+/**
+ * Checkbox Group Component
+ * Reusable multi-select group, styled like the radio group
+ */
+
+import { RadioOption } from "./radio-group";
+
+/**
+ * Render a checkbox group
+ * @param options Checkbox options
+ * @param selectedValues Currently selected values
+ * @param name Group name for checkbox inputs
+ * @returns HTML string
+ */
+export function renderCheckboxGroup(
+  options: RadioOption[],
+  selectedValues: string[],
+  name: string
+): string {
+  return options
+    .map((option) => {
+      const isSelected = selectedValues.includes(option.value);
+      const selectedClass = isSelected ? " selected" : "";
+      const checkedAttr = isSelected ? " checked" : "";
+
+      return `
+      <label class="checkbox-option${selectedClass}">
+        <input type="checkbox" name="${name}" value="${option.value}"${checkedAttr}>
+        <span>${option.label}</span>
+      </label>
+    `;
+    })
+    .join("");
+}
+
+/**
+ * Setup checkbox group change handlers
+ * @param containerId Container element ID
+ * @param onChange Callback with the selected values, in option order
+ */
+export function setupCheckboxGroupHandlers(
+  containerId: string,
+  onChange: (values: string[]) => void
+): void {
+  const container = document.getElementById(containerId);
+
+  if (!container) return;
+
+  container.addEventListener("change", (event) => {
+    const target = event.target as HTMLInputElement;
+
+    if (target.type === "checkbox") {
+      target
+        .closest(".checkbox-option")
+        ?.classList.toggle("selected", target.checked);
+
+      onChange(getCheckboxGroupValues(containerId));
+    }
+  });
+}
+
+/**
+ * Get the checked values of a checkbox group
+ * @param containerId Container element ID
+ * @returns Selected values in option order
+ */
+export function getCheckboxGroupValues(containerId: string): string[] {
+  const container = document.getElementById(containerId);
+
+  if (!container) return [];
+
+  return Array.from(
+    container.querySelectorAll<HTMLInputElement>(
+      'input[type="checkbox"]:checked'
+    )
+  ).map((input) => input.value);
+}
@@ -3,6 +3,9 @@
  * Re-exports all UI component functionality
  */
 
+export * from "./chart";
+export * from "./checkbox-group";
+export * from "./plate-grid";
 export * from "./radio-group";
 export * from "./table";
 export * from "./tabs";
@@ -0,0 +1,162 @@
+/**
+ * Plate Grid Component
+ * Renders a 96/384-well plate and handles drag selection of wells
+ */
+
+import {
+  formatWellPosition,
+  getPlateDimensions,
+  parseWellPosition,
+  PlateSize,
+} from "../../processing/plate-layout";
+import { escapeHtml } from "./table";
+
+/**
+ * Display configuration for a single well
+ */
+export interface PlateWellCell {
+  label: string; // Main text (e.g. Cp value)
+  sublabel: string; // Secondary text (e.g. assigned sample)
+  title: string; // Tooltip
+  color: string | null; // Background colour
+  classNames: string[];
+}
+
+/**
+ * Render a plate grid
+ * @param size Plate format
+ * @param cells Well display configuration keyed by position
+ * @param selected Currently selected positions
+ * @returns HTML string
+ */
+export function renderPlateGrid(
+  size: PlateSize,
+  cells: Map<string, PlateWellCell>,
+  selected: Set<string>
+): string {
+  const { rows, columns } = getPlateDimensions(size);
+
+  let html = `<div class="plate-grid plate-${size}" style="grid-template-columns: auto repeat(${columns}, 1fr);">`;
+
+  // Column headers
+  html += '<div class="plate-corner"></div>';
+  for (let c = 0; c < columns; c++) {
+    html += `<div class="plate-col-header">${c + 1}</div>`;
+  }
+
+  for (let r = 0; r < rows; r++) {
+    html += `<div class="plate-row-header">${String.fromCharCode(65 + r)}</div>`;
+
+    for (let c = 0; c < columns; c++) {
+      const position = formatWellPosition(r, c);
+      const cell = cells.get(position);
+
+      const classes = ["plate-well"];
+      if (!cell) classes.push("empty");
+      if (cell) classes.push(...cell.classNames);
+      if (selected.has(position)) classes.push("selected");
+
+      const style = cell?.color
+        ? ` style="background-color: ${cell.color};"`
+        : "";
+      const title = escapeHtml(cell ? `${position}: ${cell.title}` : position);
+
+      html += `<div class="${classes.join(" ")}" data-position="${position}" title="${title}"${style}>`;
+      if (cell) {
+        html += `<span class="well-label">${escapeHtml(cell.label)}</span>`;
+        html += `<span class="well-sublabel">${escapeHtml(cell.sublabel)}</span>`;
+      }
+      html += "</div>";
+    }
+  }
+
+  html += "</div>";
+  return html;
+}
+
+/**
+ * Get all positions inside the rectangle spanned by two corner wells
+ * @param from First corner position
+ * @param to Opposite corner position
+ * @returns Positions in row-major order
+ */
+export function getWellRange(from: string, to: string): string[] {
+  const a = parseWellPosition(from);
+  const b = parseWellPosition(to);
+  if (!a || !b) return [];
+
+  const positions: string[] = [];
+
+  for (let r = Math.min(a.row, b.row); r <= Math.max(a.row, b.row); r++) {
+    for (
+      let c = Math.min(a.column, b.column);
+      c <= Math.max(a.column, b.column);
+      c++
+    ) {
+      positions.push(formatWellPosition(r, c));
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Setup drag selection on a plate grid container.
+ * Holding Ctrl/Cmd adds to the existing selection.
+ * @param containerId Container element ID
+ * @param onSelectionChange Callback with the selected positions and whether
+ *                          they extend the previous selection
+ */
+export function setupPlateGridSelection(
+  containerId: string,
+  onSelectionChange: (positions: string[], additive: boolean) => void
+): void {
+  const container = document.getElementById(containerId);
+  if (!container) return;
+
+  let anchor: string | null = null;
+  let additive = false;
+
+  const wellAt = (target: EventTarget | null): string | null => {
+    const well = (target as HTMLElement | null)?.closest?.(".plate-well");
+    return well instanceof HTMLElement ? (well.dataset.position ?? null) : null;
+  };
+
+  const highlight = (positions: string[]): void => {
+    const inRange = new Set(positions);
+    container.querySelectorAll<HTMLElement>(".plate-well").forEach((well) => {
+      well.classList.toggle(
+        "selecting",
+        inRange.has(well.dataset.position ?? "")
+      );
+    });
+  };
+
+  container.addEventListener("mousedown", (event) => {
+    const position = wellAt(event.target);
+    if (!position) return;
+
+    event.preventDefault();
+    anchor = position;
+    additive = event.ctrlKey || event.metaKey;
+    highlight([position]);
+  });
+
+  container.addEventListener("mouseover", (event) => {
+    if (!anchor) return;
+
+    const position = wellAt(event.target);
+    if (position) highlight(getWellRange(anchor, position));
+  });
+
+  document.addEventListener("mouseup", (event) => {
+    if (!anchor) return;
+
+    const position = wellAt(event.target) ?? anchor;
+    const positions = getWellRange(anchor, position);
+    anchor = null;
+
+    highlight([]);
+    onSelectionChange(positions, additive);
+  });
+}
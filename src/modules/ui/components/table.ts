@@ -14,6 +14,8 @@ export interface TableRenderOptions {
   className?: string;
   headerClassName?: string;
   cellRenderer?: (value: string, column: string, rowIndex: number) => string;
+  rowClassName?: (rowIndex: number) => string;
+  rowId?: (rowIndex: number) => string;
 }
 
 /**
@@ -28,6 +30,8 @@ export function renderTable(options: TableRenderOptions): string {
     className = "data-table",
     headerClassName = "",
     cellRenderer,
+    rowClassName,
+    rowId,
   } = options;
 
   let html = `<table class="${className}">`;
@@ -42,7 +46,11 @@ export function renderTable(options: TableRenderOptions): string {
   // Body rows
   html += "<tbody>";
   rows.forEach((row, rowIndex) => {
-    html += "<tr>";
+    const rowClass = rowClassName?.(rowIndex) ?? "";
+    const id = rowId?.(rowIndex) ?? "";
+    html += `<tr${id ? ` id="${id}"` : ""}${
+      rowClass ? ` class="${rowClass}"` : ""
+    }>`;
 
     if (Array.isArray(row)) {
       // String array format
@@ -0,0 +1,186 @@
+/**
+ * Amplification Renderer
+ * Handles the Cq calling settings and the amplification plot viewer
+ */
+
+import { CqMethod, ParsedTsvData } from "../../../types";
+import {
+  callCqValues,
+  CqCallingOptions,
+  DEFAULT_CQ_CALLING_OPTIONS,
+  GeneAmplification,
+} from "../../processing/amplification";
+import { formatNumber } from "../../processing/statistics";
+import { ChartPoint, ChartSeries, renderChart } from "../components/chart";
+import { escapeHtml } from "../components/table";
+
+/**
+ * Render the amplification section: hidden unless the data has raw curves
+ * @param data Parsed data
+ * @param options Cq calling settings
+ */
+export function renderAmplificationSection(
+  data: ParsedTsvData | null,
+  options: CqCallingOptions
+): void {
+  const section = document.getElementById("amplification-section");
+  const select = document.getElementById(
+    "amplification-gene"
+  ) as HTMLSelectElement | null;
+  const plot = document.getElementById("amplification-plot");
+  if (!section || !select || !plot) return;
+
+  const genes = data ? callCqValues(data, options) : new Map();
+  section.classList.toggle("hidden", genes.size === 0);
+  if (genes.size === 0) {
+    select.innerHTML = "";
+    plot.innerHTML = "";
+    return;
+  }
+
+  // Keep the selected gene if it is still there
+  const selected = genes.has(select.value)
+    ? select.value
+    : Array.from(genes.keys())[0];
+  select.innerHTML = Array.from(genes.keys())
+    .map(
+      (gene) =>
+        `<option value="${escapeHtml(gene)}"${
+          gene === selected ? " selected" : ""
+        }>${escapeHtml(gene)}</option>`
+    )
+    .join("");
+
+  plot.innerHTML = renderAmplificationPlot(genes.get(selected)!);
+}
+
+/**
+ * Render the baseline-corrected curves of one gene with their Cq values
+ * @param amplification Cq calling result of the gene
+ * @returns HTML string
+ */
+function renderAmplificationPlot(amplification: GeneAmplification): string {
+  const series: ChartSeries[] = amplification.curves.map((curve) => {
+    const sample = curve.sample ? ` (${curve.sample})` : "";
+    return {
+      label: `${curve.wellKey}${sample}: Cq ${
+        isNaN(curve.cq) ? "none" : formatNumber(curve.cq, 2)
+      }`,
+      points: curve.cycles.map((x, i) => ({ x, y: curve.corrected[i] })),
+      mode: "line",
+      className: isNaN(curve.cq)
+        ? "amplification-curve no-amplification"
+        : "amplification-curve",
+    };
+  });
+
+  const markers: ChartPoint[] = amplification.curves
+    .filter((curve) => !isNaN(curve.cq))
+    .map((curve) => ({
+      x: curve.cq,
+      y: interpolate(curve.cycles, curve.corrected, curve.cq),
+      title: `${curve.wellKey}: Cq ${formatNumber(curve.cq, 2)}`,
+    }));
+  series.push({
+    label: "Cq",
+    points: markers,
+    mode: "points",
+    className: "cq-marker",
+  });
+
+  const chart = renderChart({
+    series,
+    xLabel: "Cycle",
+    yLabel: "Fluorescence (baseline corrected)",
+    referenceLines: isNaN(amplification.threshold)
+      ? []
+      : [
+          {
+            y: amplification.threshold,
+            label: `Threshold ${formatNumber(amplification.threshold, 3)}`,
+            className: "threshold-line",
+          },
+        ],
+  });
+
+  const failed = amplification.curves.filter((c) => isNaN(c.cq)).length;
+  const summary = `${amplification.curves.length} well(s)${
+    failed > 0 ? `, ${failed} without amplification (dashed)` : ""
+  }${
+    isNaN(amplification.threshold)
+      ? ""
+      : `, threshold ${formatNumber(amplification.threshold, 3)}`
+  }`;
+
+  return `${chart}<p class="hint">${escapeHtml(summary)}</p>`;
+}
+
+/**
+ * Interpolate a curve linearly at a fractional cycle
+ * @param cycles Cycle numbers
+ * @param values Values per cycle
+ * @param cycle Cycle to read
+ * @returns Interpolated value
+ */
+function interpolate(
+  cycles: number[],
+  values: number[],
+  cycle: number
+): number {
+  const i = cycles.findIndex((c) => c >= cycle);
+  if (i <= 0) return values[Math.max(i, 0)];
+
+  const fraction = (cycle - cycles[i - 1]) / (cycles[i] - cycles[i - 1]);
+  return values[i - 1] + fraction * (values[i] - values[i - 1]);
+}
+
+/**
+ * Get the Cq calling settings from the amplification inputs
+ * @returns Cq calling settings
+ */
+export function getCqCallingOptions(): CqCallingOptions {
+  const method = document.getElementById("cq-method") as HTMLSelectElement;
+  const threshold = document.getElementById("cq-threshold") as HTMLInputElement;
+  const start = document.getElementById("baseline-start") as HTMLInputElement;
+  const end = document.getElementById("baseline-end") as HTMLInputElement;
+
+  const thresholdValue = parseFloat(threshold?.value ?? "");
+  const startValue = parseInt(start?.value ?? "", 10);
+  const endValue = parseInt(end?.value ?? "", 10);
+
+  return {
+    cqMethod:
+      (method?.value as CqMethod) || DEFAULT_CQ_CALLING_OPTIONS.cqMethod,
+    cqThreshold:
+      isNaN(thresholdValue) || thresholdValue <= 0 ? null : thresholdValue,
+    baselineStart: isNaN(startValue)
+      ? DEFAULT_CQ_CALLING_OPTIONS.baselineStart
+      : startValue,
+    baselineEnd: isNaN(endValue)
+      ? DEFAULT_CQ_CALLING_OPTIONS.baselineEnd
+      : endValue,
+  };
+}
+
+/**
+ * Setup handlers of the amplification section
+ * @param onOptionsChange Callback when a Cq calling setting changes
+ * @param onGeneChange Callback when another gene is picked for the plot
+ */
+export function setupAmplificationHandlers(
+  onOptionsChange: () => void,
+  onGeneChange: () => void
+): void {
+  for (const id of [
+    "cq-method",
+    "cq-threshold",
+    "baseline-start",
+    "baseline-end",
+  ]) {
+    document.getElementById(id)?.addEventListener("change", onOptionsChange);
+  }
+
+  document
+    .getElementById("amplification-gene")
+    ?.addEventListener("change", onGeneChange);
+}
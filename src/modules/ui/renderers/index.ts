@@ -3,6 +3,12 @@
  * Re-exports all renderer functionality
  */
 
+export * from "./amplification-renderer";
 export * from "./input-renderer";
+export * from "./melt-renderer";
 export * from "./output-renderer";
+export * from "./plate-map-renderer";
 export * from "./processing-renderer";
+export * from "./sample-sheet-renderer";
+export * from "./stability-renderer";
+export * from "./standard-curve-renderer";
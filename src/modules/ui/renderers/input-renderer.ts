@@ -3,72 +3,350 @@
  * Handles rendering of the input section UI
  */
 
-import { ParsedTsvData } from "../../../types";
+import {
+  MissingCqPolicy,
+  ParsedTsvData,
+  PlateRun,
+  ReplicateLayout,
+  StatusRule,
+  StatusRuleAction,
+} from "../../../types";
+import { RunOverlap } from "../../input/run-merger";
+import {
+  compileStatusPattern,
+  compileStatusRules,
+  StatusRuleMatcher,
+} from "../../input/status-rules";
 import {
   extractStatusWarnings,
   filterIgnoredRows,
   filterRowsByGene,
+  shouldIgnoreRow,
 } from "../../input/tsv-parser";
 import {
-  renderRadioGroup,
-  setupRadioGroupHandlers,
-} from "../components/radio-group";
+  renderCheckboxGroup,
+  setupCheckboxGroupHandlers,
+} from "../components/checkbox-group";
 import { escapeHtml, renderTable } from "../components/table";
 
+/**
+ * Status rule actions offered in the rule editor
+ */
+const STATUS_RULE_ACTIONS: { value: StatusRuleAction; label: string }[] = [
+  { value: "include", label: "Include" },
+  { value: "exclude", label: "Exclude well" },
+  { value: "warn", label: "Include with warning" },
+];
+
+/**
+ * Get the highlight class for a row matched by a status rule
+ * @param row Data row
+ * @param matchRule Compiled status rules
+ * @returns CSS class name (empty if no excluding or warning rule matches)
+ */
+function statusRowClass(
+  row: ParsedTsvData["rows"][number],
+  matchRule: StatusRuleMatcher
+): string {
+  const rule = matchRule(row);
+  if (rule?.action === "exclude") return "status-excluded-row";
+  if (rule?.action === "warn") return "status-warning-row";
+  return "";
+}
+
 /**
  * Render input data table (filters out "Sample X" rows)
  * @param data Parsed TSV data
+ * @param statusRules Status rules used to highlight affected wells
  */
-export function renderInputTable(data: ParsedTsvData): void {
+export function renderInputTable(
+  data: ParsedTsvData,
+  statusRules: StatusRule[] = []
+): void {
   const container = document.getElementById("input-table-container");
   if (!container) return;
 
-  // Filter out ignored rows for display
+  // Filter out ignored rows for display, keeping each row's data index
+  // so diagnostics can point at it
   const filteredData = filterIgnoredRows(data);
+  const dataIndices = data.rows
+    .map((row, index) => (shouldIgnoreRow(row) ? -1 : index))
+    .filter((index) => index >= 0);
 
+  const matchRule = compileStatusRules(statusRules);
   const tableHtml = renderTable({
     headers: filteredData.headers,
     rows: filteredData.rows,
     className: "data-table",
+    rowClassName: (rowIndex) =>
+      statusRowClass(filteredData.rows[rowIndex], matchRule),
+    rowId: (rowIndex) => `input-row-${dataIndices[rowIndex]}`,
   });
 
   container.innerHTML = tableHtml;
 }
 
+/**
+ * Highlight rows of the input table and scroll the first one into view
+ * @param rowIndices Data row indices to highlight
+ */
+export function highlightInputRows(rowIndices: number[]): void {
+  document
+    .querySelectorAll("#input-table-container .highlighted-row")
+    .forEach((row) => row.classList.remove("highlighted-row"));
+
+  const rows = rowIndices
+    .map((index) => document.getElementById(`input-row-${index}`))
+    .filter((row): row is HTMLElement => row !== null);
+
+  rows.forEach((row) => row.classList.add("highlighted-row"));
+  rows[0]?.scrollIntoView({ behavior: "smooth", block: "center" });
+}
+
 /**
  * Display loaded filename
  * @param filename Name of the loaded file
+ * @param formatLabel Detected instrument format
  */
-export function displayFilename(filename: string): void {
+export function displayFilename(filename: string, formatLabel?: string): void {
   const container = document.getElementById("loaded-filename");
   if (container) {
-    container.textContent = filename ? `Loaded: ${filename}` : "";
+    const format = formatLabel ? ` (${formatLabel})` : "";
+    container.textContent = filename ? `Loaded: ${filename}${format}` : "";
   }
 }
 
 /**
- * Render status warnings from the data
- * @param data Parsed TSV data (original, before filtering)
+ * Render status warnings, listed per plate when several are loaded
+ * @param runs Loaded runs (original data, before filtering)
  */
-export function renderStatusWarnings(data: ParsedTsvData): void {
+export function renderStatusWarnings(runs: PlateRun[]): void {
   const container = document.getElementById("status-warnings");
   if (!container) return;
 
-  const warnings = extractStatusWarnings(data);
+  let html = "";
+
+  for (const run of runs) {
+    const warnings = extractStatusWarnings(run.data);
+    if (warnings.length === 0) continue;
+
+    const header =
+      runs.length > 1
+        ? `Status Warnings (${escapeHtml(run.id)}):`
+        : "Status Warnings:";
+
+    html += `<div class="warnings-header">${header}</div>`;
+    html += '<ul class="warning-list">';
+
+    for (const warning of warnings) {
+      html += `<li class="warning-item">${escapeHtml(warning)}</li>`;
+    }
+
+    html += "</ul>";
+  }
+
+  container.innerHTML = html;
+}
+
+/**
+ * Render the status rule editor
+ * @param rules Current status rules
+ * @param statuses Status messages found in the data (offered as suggestions)
+ */
+export function renderStatusRuleEditor(
+  rules: StatusRule[],
+  statuses: string[]
+): void {
+  const container = document.getElementById("status-rules");
+  if (!container) return;
+
+  let html = '<datalist id="status-suggestions">';
+  for (const status of statuses) {
+    html += `<option value="${escapeHtml(status)}"></option>`;
+  }
+  html += "</datalist>";
+
+  rules.forEach((rule, index) => {
+    const invalid =
+      rule.pattern.trim() !== "" && !compileStatusPattern(rule.pattern);
+
+    html += `<div class="status-rule" data-index="${index}">`;
+    html += `<input type="text" class="input-text status-rule-pattern${
+      invalid ? " input-error" : ""
+    }" list="status-suggestions" placeholder="Status text or /regex/" value="${escapeHtml(
+      rule.pattern
+    )}">`;
+    html += '<select class="select-small status-rule-action">';
+    for (const action of STATUS_RULE_ACTIONS) {
+      const selected = action.value === rule.action ? " selected" : "";
+      html += `<option value="${action.value}"${selected}>${action.label}</option>`;
+    }
+    html += "</select>";
+    html +=
+      '<button class="btn btn-secondary btn-small remove-status-rule-btn">Remove</button>';
+    html += "</div>";
+  });
+
+  html +=
+    '<button id="add-status-rule-btn" class="btn btn-secondary btn-small">Add status rule</button>';
+
+  container.innerHTML = html;
+}
+
+/**
+ * Read the status rules from the editor
+ * @returns Status rules in editor order
+ */
+function readStatusRules(): StatusRule[] {
+  const container = document.getElementById("status-rules");
+  if (!container) return [];
+
+  return Array.from(container.querySelectorAll(".status-rule")).map((el) => ({
+    pattern:
+      (el.querySelector(".status-rule-pattern") as HTMLInputElement)?.value ??
+      "",
+    action: ((el.querySelector(".status-rule-action") as HTMLSelectElement)
+      ?.value ?? "include") as StatusRuleAction,
+  }));
+}
+
+/**
+ * Setup status rule editor handlers
+ * @param onChange Callback with the edited rules
+ */
+export function setupStatusRuleHandlers(
+  onChange: (rules: StatusRule[]) => void
+): void {
+  const container = document.getElementById("status-rules");
+  if (!container) return;
+
+  container.addEventListener("change", () => onChange(readStatusRules()));
+
+  container.addEventListener("click", (event) => {
+    const target = event.target as HTMLElement;
+
+    if (target.id === "add-status-rule-btn") {
+      onChange([...readStatusRules(), { pattern: "", action: "exclude" }]);
+      return;
+    }
+
+    const ruleElement = target.closest(".remove-status-rule-btn")
+      ? target.closest(".status-rule")
+      : null;
+    if (ruleElement) {
+      const index = parseInt((ruleElement as HTMLElement).dataset.index!, 10);
+      onChange(readStatusRules().filter((_, i) => i !== index));
+    }
+  });
+}
+
+/**
+ * Render the list of loaded plates with editable run IDs
+ * @param runs Loaded runs, in plate order
+ */
+export function renderPlateList(runs: PlateRun[]): void {
+  const container = document.getElementById("plate-list");
+  if (!container) return;
 
-  if (warnings.length === 0) {
+  if (runs.length < 2) {
     container.innerHTML = "";
     return;
   }
 
-  let html = '<div class="warnings-header">Status Warnings:</div>';
-  html += '<ul class="warning-list">';
+  let html = '<ul class="plate-list">';
+
+  for (const run of runs) {
+    const format = run.formatLabel ? ` (${escapeHtml(run.formatLabel)})` : "";
+
+    html += '<li class="plate-list-item">';
+    html += `<input type="text" class="input-text run-id-input" value="${escapeHtml(
+      run.id
+    )}" data-run="${escapeHtml(run.id)}" title="Plate / run ID">`;
+    html += `<span class="plate-title">${escapeHtml(run.data.title)}</span>`;
+    html += `<span class="plate-file">${escapeHtml(run.filename)}${format}</span>`;
+    html += `<button class="btn btn-secondary btn-small remove-run-btn" data-run="${escapeHtml(
+      run.id
+    )}">Remove</button>`;
+    html += "</li>";
+  }
+
+  html += "</ul>";
+  container.innerHTML = html;
+}
+
+/**
+ * Setup plate list handlers
+ * @param onRename Callback when a run ID is edited
+ * @param onRemove Callback when a plate is removed
+ */
+export function setupPlateListHandlers(
+  onRename: (runId: string, newId: string) => void,
+  onRemove: (runId: string) => void
+): void {
+  const container = document.getElementById("plate-list");
+  if (!container) return;
+
+  container.addEventListener("change", (event) => {
+    const input = event.target as HTMLInputElement;
+    if (!input.classList.contains("run-id-input")) return;
+
+    onRename(input.dataset.run ?? "", input.value.trim());
+  });
+
+  container.addEventListener("click", (event) => {
+    const button = (event.target as HTMLElement).closest(".remove-run-btn");
+    if (!button) return;
+
+    onRemove((button as HTMLElement).dataset.run ?? "");
+  });
+}
+
+/**
+ * Explain how genes and samples shared between plates are combined
+ * @param overlap Genes and instrument sample names found on several plates
+ * @param pooledSamples Plate map samples with wells on several plates
+ */
+export function renderRunOverlap(
+  overlap: RunOverlap,
+  pooledSamples: Map<string, string[]>
+): void {
+  const container = document.getElementById("run-overlap");
+  if (!container) return;
+
+  const notes: string[] = [];
+
+  overlap.genes.forEach((runIds, gene) => {
+    notes.push(
+      `${gene} is measured on ${runIds.join(", ")}; its wells are analysed together`
+    );
+  });
+
+  pooledSamples.forEach((runIds, sample) => {
+    notes.push(
+      `${sample} has wells on ${runIds.join(", ")}; its replicates are combined`
+    );
+  });
+
+  overlap.samples.forEach((runIds, sample) => {
+    if (!pooledSamples.has(sample)) {
+      notes.push(
+        `${sample} appears on ${runIds.join(", ")} but is not assigned in the plate map`
+      );
+    }
+  });
 
-  for (const warning of warnings) {
-    html += `<li class="warning-item">${escapeHtml(warning)}</li>`;
+  if (notes.length === 0) {
+    container.innerHTML = "";
+    return;
   }
 
+  let html = '<div class="warnings-header">Combined plates:</div>';
+  html += '<ul class="info-list">';
+  for (const note of notes) {
+    html += `<li>${escapeHtml(note)}</li>`;
+  }
   html += "</ul>";
+
   container.innerHTML = html;
 }
 
@@ -85,40 +363,46 @@ export function updatePageTitle(title: string): void {
 }
 
 /**
- * Render housekeeper gene picker
+ * Render housekeeper (reference gene) picker
  * @param genes Available gene names
- * @param selectedGene Currently selected housekeeper
+ * @param selectedGenes Currently selected housekeepers
  */
 export function renderHousekeeperPicker(
   genes: string[],
-  selectedGene: string
+  selectedGenes: string[]
 ): void {
   const container = document.getElementById("housekeeper-picker");
   if (!container) return;
 
   const options = genes.map((gene) => ({ value: gene, label: gene }));
-  container.innerHTML = renderRadioGroup(options, selectedGene, "housekeeper");
+  container.innerHTML = renderCheckboxGroup(
+    options,
+    selectedGenes,
+    "housekeeper"
+  );
 }
 
 /**
  * Render housekeeper data table
  * @param data Parsed TSV data
- * @param housekeeperName Selected housekeeper gene
+ * @param housekeeperNames Selected housekeeper genes
  */
 export function renderHousekeeperTable(
   data: ParsedTsvData,
-  housekeeperName: string
+  housekeeperNames: string[]
 ): void {
   const container = document.getElementById("housekeeper-table-container");
   if (!container) return;
 
-  if (!housekeeperName) {
+  if (housekeeperNames.length === 0) {
     container.innerHTML =
-      '<p class="text-center">Select a housekeeper gene to view its data</p>';
+      '<p class="text-center">Select one or more housekeeper genes to view their data</p>';
     return;
   }
 
-  const filteredRows = filterRowsByGene(data, housekeeperName);
+  const filteredRows = housekeeperNames.flatMap((gene) =>
+    filterRowsByGene(data, gene)
+  );
 
   const tableHtml = renderTable({
     headers: data.headers,
@@ -131,12 +415,12 @@ export function renderHousekeeperTable(
 
 /**
  * Setup housekeeper picker handlers
- * @param onHousekeeperChange Callback when housekeeper changes
+ * @param onHousekeepersChange Callback with the selected housekeepers
  */
 export function setupHousekeeperPickerHandlers(
-  onHousekeeperChange: (geneName: string) => void
+  onHousekeepersChange: (geneNames: string[]) => void
 ): void {
-  setupRadioGroupHandlers("housekeeper-picker", onHousekeeperChange);
+  setupCheckboxGroupHandlers("housekeeper-picker", onHousekeepersChange);
 }
 
 /**
@@ -152,6 +436,47 @@ export function populateSampleList(sampleNames: string[]): void {
   }
 }
 
+/**
+ * Populate control list textarea
+ * @param controlNames Control sample names to populate
+ */
+export function populateControlList(controlNames: string[]): void {
+  const textarea = document.getElementById(
+    "control-list"
+  ) as HTMLTextAreaElement;
+  if (textarea) {
+    textarea.value = controlNames.join("\n");
+  }
+}
+
+/**
+ * Lock or unlock the sample and control textareas
+ * @param readOnly Whether the lists are driven by the plate map
+ */
+export function setSampleListsReadOnly(readOnly: boolean): void {
+  for (const id of ["sample-list", "control-list"]) {
+    const textarea = document.getElementById(id) as HTMLTextAreaElement;
+    if (textarea) {
+      textarea.readOnly = readOnly;
+      textarea.title = readOnly ? "Defined by the plate map" : "";
+    }
+  }
+}
+
+/**
+ * Lock the control list while the controls come from the sample sheet
+ * @param fromSheet Whether a factor level of the sample sheet marks the controls
+ */
+export function setControlListFromSheet(fromSheet: boolean): void {
+  const textarea = document.getElementById(
+    "control-list"
+  ) as HTMLTextAreaElement;
+  if (textarea) {
+    textarea.readOnly = fromSheet;
+    textarea.title = fromSheet ? "Defined by the sample sheet" : "";
+  }
+}
+
 /**
  * Get sample list from textarea
  * @returns Array of sample names
@@ -186,6 +511,69 @@ export function getControlList(): string[] {
     .filter((line) => line.length > 0);
 }
 
+/**
+ * Warn when calibrators are set but cannot correct some genes
+ * @param genes Genes on several runs without a calibrator on all of them
+ */
+export function renderCalibratorWarning(genes: string[]): void {
+  const warning = document.getElementById("calibrator-list-warning");
+  if (!warning) return;
+
+  warning.textContent =
+    genes.length > 0
+      ? `No calibrator is measured on every run of ${genes.join(
+          ", "
+        )}; these genes are not calibrated.`
+      : "";
+}
+
+/**
+ * Get inter-run calibrator list from textarea
+ * @returns Array of calibrator sample names
+ */
+export function getCalibratorList(): string[] {
+  const textarea = document.getElementById(
+    "calibrator-list"
+  ) as HTMLTextAreaElement;
+  if (!textarea) return [];
+
+  return textarea.value
+    .trimEnd()
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Get standard list lines from textarea
+ * @returns Array of "Name | quantity" lines
+ */
+export function getStandardList(): string[] {
+  const textarea = document.getElementById(
+    "standard-list"
+  ) as HTMLTextAreaElement;
+  if (!textarea) return [];
+
+  return textarea.value
+    .trimEnd()
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Fill the standard list textarea
+ * @param lines Standard list lines
+ */
+export function populateStandardList(lines: string[]): void {
+  const textarea = document.getElementById(
+    "standard-list"
+  ) as HTMLTextAreaElement;
+  if (textarea) {
+    textarea.value = lines.join("\n");
+  }
+}
+
 /**
  * Get replica count from input
  * @returns Replica count number
@@ -197,6 +585,43 @@ export function getReplicaCount(): number {
   return parseInt(input.value, 10) || 3;
 }
 
+/**
+ * Get replicate layout from select
+ * @returns Selected replicate layout
+ */
+export function getReplicateLayout(): ReplicateLayout {
+  const select = document.getElementById(
+    "replicate-layout"
+  ) as HTMLSelectElement;
+  if (!select) return "row-order";
+
+  return (select.value as ReplicateLayout) || "row-order";
+}
+
+/**
+ * Get missing Cq policy from select
+ * @returns Selected policy
+ */
+export function getMissingCqPolicy(): MissingCqPolicy {
+  const select = document.getElementById(
+    "missing-cq-policy"
+  ) as HTMLSelectElement;
+  if (!select) return "exclude";
+
+  return (select.value as MissingCqPolicy) || "exclude";
+}
+
+/**
+ * Get the max cycle number substituted for missing Cq values
+ * @returns Max cycle number
+ */
+export function getMaxCycle(): number {
+  const input = document.getElementById("max-cycle") as HTMLInputElement;
+  if (!input) return 40;
+
+  return parseFloat(input.value) || 40;
+}
+
 /**
  * Show validation error
  * @param elementId Error element ID
@@ -232,6 +657,10 @@ export function displayValidationErrors(errors: Map<string, string>): void {
   clearError("housekeeper-error");
   clearError("sample-list-error");
   clearError("control-list-error");
+  clearError("calibrator-list-error");
+  clearError("standard-list-error");
+  clearError("efficiency-list-error");
+  clearError("sample-sheet-error");
 
   // Display new errors
   errors.forEach((message, field) => {
@@ -251,6 +680,18 @@ export function displayValidationErrors(errors: Map<string, string>): void {
       case "controlList":
         showError("control-list-error", message);
         break;
+      case "calibratorList":
+        showError("calibrator-list-error", message);
+        break;
+      case "standardList":
+        showError("standard-list-error", message);
+        break;
+      case "efficiencyList":
+        showError("efficiency-list-error", message);
+        break;
+      case "sampleSheet":
+        showError("sample-sheet-error", message);
+        break;
     }
   });
 }
@@ -0,0 +1,107 @@
+/**
+ * Melt Curve Renderer
+ * Handles the melt curve viewer and the per-well Tm table
+ */
+
+import { ParsedTsvData } from "../../../types";
+import { analyzeMeltCurves, GeneMelt } from "../../processing/melt-curve";
+import { formatNumber } from "../../processing/statistics";
+import { ChartSeries, renderChart } from "../components/chart";
+import { escapeHtml } from "../components/table";
+
+/**
+ * Render the melt curve section: hidden unless the data has melt curves
+ * @param data Parsed data
+ */
+export function renderMeltSection(data: ParsedTsvData | null): void {
+  const section = document.getElementById("melt-section");
+  const select = document.getElementById(
+    "melt-gene"
+  ) as HTMLSelectElement | null;
+  const plot = document.getElementById("melt-plot");
+  if (!section || !select || !plot) return;
+
+  const genes = data ? analyzeMeltCurves(data) : new Map<string, GeneMelt>();
+  section.classList.toggle("hidden", genes.size === 0);
+  if (genes.size === 0) {
+    select.innerHTML = "";
+    plot.innerHTML = "";
+    return;
+  }
+
+  // Keep the selected gene if it is still there
+  const selected = genes.has(select.value)
+    ? select.value
+    : Array.from(genes.keys())[0];
+  select.innerHTML = Array.from(genes.keys())
+    .map(
+      (gene) =>
+        `<option value="${escapeHtml(gene)}"${
+          gene === selected ? " selected" : ""
+        }>${escapeHtml(gene)}</option>`
+    )
+    .join("");
+
+  plot.innerHTML = renderMeltGene(genes.get(selected)!);
+}
+
+/**
+ * Render the -dF/dT curves and Tm table of one gene
+ * @param melt Melt analysis of the gene
+ * @returns HTML string
+ */
+function renderMeltGene(melt: GeneMelt): string {
+  const series: ChartSeries[] = melt.wells.map((well) => ({
+    label: `${well.wellKey}: Tm ${
+      isNaN(well.tm) ? "none" : `${formatNumber(well.tm, 1)} °C`
+    }`,
+    points: well.temperatures.map((x, i) => ({ x, y: well.derivative[i] })),
+    mode: "line",
+    className: well.deviation ? "melt-curve melt-deviation" : "melt-curve",
+  }));
+
+  const chart = renderChart({
+    series,
+    xLabel: "Temperature (°C)",
+    yLabel: "-dF/dT",
+  });
+
+  const flagged = melt.wells.filter((w) => w.deviation).length;
+  let html = chart;
+  html += `<p class="hint">${melt.wells.length} well(s), consensus ${
+    melt.consensusPeakCount
+  } peak(s) at ${formatNumber(melt.consensusTm, 1)} °C${
+    flagged > 0 ? `; ${flagged} deviating well(s) in red` : ""
+  }</p>`;
+
+  html += '<table class="data-table melt-table">';
+  html +=
+    '<thead><tr><th>Well</th><th>Sample</th><th class="numeric">Peaks</th><th class="numeric">Tm (°C)</th><th>Note</th></tr></thead><tbody>';
+  for (const well of melt.wells) {
+    const peakList = well.peaks
+      .map((p) => formatNumber(p.temperature, 1))
+      .join(", ");
+    html += `<tr${well.deviation ? ' class="status-warning-row"' : ""}>`;
+    html += `<td>${escapeHtml(well.wellKey)}</td>`;
+    html += `<td>${escapeHtml(well.sample)}</td>`;
+    html += `<td class="numeric" title="${escapeHtml(peakList)}">${
+      well.peaks.length
+    }</td>`;
+    html += `<td class="numeric">${formatNumber(well.tm, 1)}</td>`;
+    html += `<td>${escapeHtml(well.deviation)}</td>`;
+    html += "</tr>";
+  }
+  html += "</tbody></table>";
+
+  return html;
+}
+
+/**
+ * Setup handlers of the melt curve section
+ * @param onGeneChange Callback when another gene is picked for the plot
+ */
+export function setupMeltHandlers(onGeneChange: () => void): void {
+  document
+    .getElementById("melt-gene")
+    ?.addEventListener("change", onGeneChange);
+}
@@ -3,8 +3,19 @@
  * Handles rendering of the normalized output tables
  */
 
-import { GeneOutputResult } from "../../../types";
+import {
+  GeneOutputResult,
+  MultipleTestingCorrection,
+  SignificanceResult,
+  SignificanceSortKey,
+  SignificanceSummaryRow,
+  SignificanceTest,
+} from "../../../types";
 import { copyGeneOutputToClipboard } from "../../output/exporter";
+import {
+  AbsoluteQuantificationResult,
+  STANDARD_RANGE_LABELS,
+} from "../../processing/absolute-quantification";
 import { formatNumber } from "../../processing/statistics";
 import { escapeHtml } from "../components/table";
 
@@ -58,6 +69,21 @@ export function renderGeneOutputColumn(result: GeneOutputResult): string {
   // Table 2: Normalized values
   html += renderNormalizedTable(result);
 
+  // Significance tests on ΔCT, next to the normalized values
+  if (result.significance) {
+    html += renderSignificanceTable(result.significance);
+  }
+
+  // Table 3: Normalized values by condition (with grouping factors only)
+  if (result.conditionColumns.length > 0) {
+    html += renderConditionTable(result);
+  }
+
+  // Table 4: Biological replicates rolled up per condition
+  if (result.conditions.length > 0) {
+    html += renderGroupSummaryTable(result);
+  }
+
   // Copy button with counter
   const copyCount = copyCounts.get(result.geneName) || 0;
   html += `
@@ -162,6 +188,238 @@ function renderNormalizedTable(result: GeneOutputResult): string {
   return html;
 }
 
+/**
+ * Render normalized values with one column per condition (Table 3)
+ * @param result Gene output result
+ * @returns HTML string
+ */
+function renderConditionTable(result: GeneOutputResult): string {
+  const columns = result.conditionColumns;
+  const rowCount = Math.max(...columns.map((c) => c.sampleNames.length));
+
+  let html = '<div class="output-table-section">';
+  html += "<h4>Normalized 2⁻ΔΔCT by condition</h4>";
+  html += '<table class="data-table output-table">';
+  html += `<thead><tr>${columns
+    .map((c) => `<th>${escapeHtml(c.condition)}</th>`)
+    .join("")}</tr></thead><tbody>`;
+
+  for (let i = 0; i < rowCount; i++) {
+    html += "<tr>";
+    for (const column of columns) {
+      const name = column.sampleNames[i];
+      html +=
+        name === undefined
+          ? "<td></td>"
+          : `<td class="numeric" title="${escapeHtml(name)}">${formatNumber(
+              column.normalizedValues[i],
+              4
+            )}</td>`;
+    }
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  html += "</div>";
+
+  return html;
+}
+
+/**
+ * Display names of the significance tests
+ */
+const TEST_LABELS: Record<SignificanceTest, string> = {
+  none: "",
+  welch: "Welch's t-test vs. controls",
+  "mann-whitney": "Mann-Whitney U vs. controls",
+  "anova-tukey": "One-way ANOVA, Tukey-Kramer",
+  "anova-dunnett": "One-way ANOVA, Dunnett vs. controls",
+};
+
+/**
+ * Format a p-value with two significant digits
+ * @param p p-value
+ * @returns Formatted string
+ */
+function formatPValue(p: number): string {
+  if (!isFinite(p)) return "-";
+  return p < 0.0001 ? "<0.0001" : String(Number(p.toPrecision(2)));
+}
+
+/**
+ * Render the significance tests of a gene
+ * @param result Significance tests
+ * @returns HTML string
+ */
+function renderSignificanceTable(result: SignificanceResult): string {
+  let html = '<div class="output-table-section">';
+  html += `<h4>Significance on ΔCT (${TEST_LABELS[result.test]})</h4>`;
+
+  if (result.anova) {
+    const a = result.anova;
+    html += `<p class="hint">F(${a.dfBetween}, ${a.dfWithin}) = ${formatNumber(
+      a.f,
+      3
+    )}, p = ${formatPValue(a.p)}, η² = ${formatNumber(a.etaSquared, 3)}</p>`;
+  }
+
+  html += '<table class="data-table output-table">';
+  html += `<thead><tr><th>Comparison</th><th class="numeric">n</th><th class="numeric">ΔΔCT</th><th class="numeric">${escapeHtml(
+    result.statisticName
+  )}</th><th class="numeric">df</th><th class="numeric">p</th><th class="numeric">q</th><th class="numeric">${escapeHtml(
+    result.effectSizeName
+  )}</th></tr></thead><tbody>`;
+
+  for (const c of result.comparisons) {
+    html += `<tr${c.p < 0.05 ? ' class="significant-row"' : ""}>`;
+    html += `<td>${escapeHtml(c.group)} vs ${escapeHtml(c.reference)}</td>`;
+    html += `<td class="numeric">${c.groupN} / ${c.referenceN}</td>`;
+    html += `<td class="numeric">${formatNumber(c.meanDifference, 3)}</td>`;
+    html += `<td class="numeric">${formatNumber(c.statistic, 3)}</td>`;
+    html += `<td class="numeric">${
+      c.df === null ? "-" : formatNumber(c.df, Number.isInteger(c.df) ? 0 : 1)
+    }</td>`;
+    html += `<td class="numeric">${formatPValue(c.p)}</td>`;
+    html += `<td class="numeric">${formatPValue(c.q ?? NaN)}</td>`;
+    html += `<td class="numeric">${formatNumber(c.effectSize, 2)}</td>`;
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  html += "</div>";
+
+  return html;
+}
+
+/**
+ * Render the cross-gene summary of the group comparisons: hidden without
+ * comparisons
+ * @param rows Summary rows, in display order
+ */
+export function renderSignificanceSummary(
+  rows: SignificanceSummaryRow[]
+): void {
+  const section = document.getElementById("significance-summary-section");
+  const container = document.getElementById("significance-summary-container");
+  if (!section || !container) return;
+
+  section.classList.toggle("hidden", rows.length === 0);
+
+  let html = '<table class="data-table output-table">';
+  html +=
+    '<thead><tr><th>Gene</th><th>Comparison</th><th class="numeric">Fold change</th><th class="numeric">log2 FC</th><th class="numeric">p</th><th class="numeric">q</th></tr></thead><tbody>';
+
+  for (const row of rows) {
+    html += `<tr${row.q < 0.05 ? ' class="significant-row"' : ""}>`;
+    html += `<td>${escapeHtml(row.geneName)}</td>`;
+    html += `<td>${escapeHtml(row.group)} vs ${escapeHtml(row.reference)}</td>`;
+    html += `<td class="numeric">${formatNumber(row.foldChange, 3)}</td>`;
+    html += `<td class="numeric">${formatNumber(row.log2FoldChange, 2)}</td>`;
+    html += `<td class="numeric">${formatPValue(row.p)}</td>`;
+    html += `<td class="numeric">${formatPValue(row.q)}</td>`;
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  container.innerHTML = html;
+}
+
+/**
+ * Get the correction picked for the p-values across genes
+ * @returns Correction method
+ */
+export function getMultipleTestingCorrection(): MultipleTestingCorrection {
+  const select = document.getElementById(
+    "multiple-testing-correction"
+  ) as HTMLSelectElement | null;
+  return (select?.value as MultipleTestingCorrection) || "benjamini-hochberg";
+}
+
+/**
+ * Get the order picked for the cross-gene summary
+ * @returns Sort key
+ */
+export function getSignificanceSortKey(): SignificanceSortKey {
+  const select = document.getElementById(
+    "significance-sort"
+  ) as HTMLSelectElement | null;
+  return (select?.value as SignificanceSortKey) || "significance";
+}
+
+/**
+ * Setup handlers of the cross-gene summary
+ * @param onCorrectionChange Callback when the correction changes
+ * @param onSortChange Callback when the order changes
+ */
+export function setupSignificanceSummaryHandlers(
+  onCorrectionChange: () => void,
+  onSortChange: () => void
+): void {
+  document
+    .getElementById("multiple-testing-correction")
+    ?.addEventListener("change", onCorrectionChange);
+  document
+    .getElementById("significance-sort")
+    ?.addEventListener("change", onSortChange);
+}
+
+/**
+ * Get the test picked for the conditions
+ * @returns Significance test
+ */
+export function getSignificanceTest(): SignificanceTest {
+  const select = document.getElementById(
+    "significance-test"
+  ) as HTMLSelectElement | null;
+  return (select?.value as SignificanceTest) || "none";
+}
+
+/**
+ * Render the group-level summary of the biological replicates (Table 4)
+ * @param result Gene output result
+ * @returns HTML string
+ */
+function renderGroupSummaryTable(result: GeneOutputResult): string {
+  const vsControl = result.conditions.some(
+    (c) => c.foldChangeVsControl !== null
+  );
+
+  let html = '<div class="output-table-section">';
+  html += "<h4>Group summary (biological replicates)</h4>";
+  html += '<table class="data-table output-table">';
+  html += `<thead><tr><th>Condition</th><th class="numeric">n</th><th class="numeric">Mean ΔCT</th><th class="numeric">SD</th><th class="numeric">SEM</th><th class="numeric">Fold change</th>${
+    vsControl ? '<th class="numeric">vs control</th>' : ""
+  }</tr></thead><tbody>`;
+
+  for (const group of result.conditions) {
+    html += "<tr>";
+    html += `<td title="${escapeHtml(group.sampleNames.join(", "))}"${
+      group.isControl ? ' class="bold"' : ""
+    }>${escapeHtml(group.condition)}</td>`;
+    html += `<td class="numeric">${group.n}</td>`;
+    html += `<td class="numeric">${formatNumber(group.meanDeltaCt, 3)}</td>`;
+    html += `<td class="numeric">${
+      group.n > 1 ? formatNumber(group.sdDeltaCt, 3) : "-"
+    }</td>`;
+    html += `<td class="numeric">${
+      group.n > 1 ? formatNumber(group.semDeltaCt, 3) : "-"
+    }</td>`;
+    html += `<td class="numeric">${formatNumber(group.foldChange, 4)}</td>`;
+    if (vsControl) {
+      html += `<td class="numeric">${formatNumber(
+        group.foldChangeVsControl ?? NaN,
+        4
+      )}</td>`;
+    }
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  html += "</div>";
+
+  return html;
+}
+
 /**
  * Setup copy button click handlers
  * @param results Map of gene output results
@@ -227,6 +485,7 @@ export function clearOutputSection(): void {
   }
   copyCounts.clear();
   clearIgnoredGenes();
+  renderSignificanceSummary([]);
 }
 
 /**
@@ -263,3 +522,102 @@ export function clearIgnoredGenes(): void {
     container.innerHTML = "";
   }
 }
+
+/**
+ * Format a copy number for display (scientific notation above 10⁴)
+ * @param copies Copy number
+ * @returns Formatted string
+ */
+function formatCopies(copies: number): string {
+  if (!isFinite(copies)) return "-";
+  return copies >= 1e4 ? copies.toExponential(2) : copies.toPrecision(3);
+}
+
+/**
+ * Render the absolute quantification tables: hidden without standard curves
+ * @param results Absolute quantification of every gene with a standard curve
+ */
+export function renderAbsoluteQuantification(
+  results: AbsoluteQuantificationResult[]
+): void {
+  const section = document.getElementById("absolute-output-section");
+  const container = document.getElementById("absolute-output-container");
+  if (!section || !container) return;
+
+  section.classList.toggle("hidden", results.length === 0);
+  container.innerHTML = results.map(renderAbsoluteGeneColumn).join("");
+}
+
+/**
+ * Render the copy numbers of one gene
+ * @param result Absolute quantification of the gene
+ * @returns HTML string
+ */
+function renderAbsoluteGeneColumn(
+  result: AbsoluteQuantificationResult
+): string {
+  const { curve } = result;
+  const perUl = result.rows.some((row) => row.copiesPerUl !== null);
+
+  let html = `<div class="output-gene-column" data-gene="${escapeHtml(
+    result.geneName
+  )}">`;
+  html += `<h3>${escapeHtml(result.geneName)}</h3>`;
+  html += `<p class="hint">Standards ${formatCopies(
+    curve.rangeMin
+  )} – ${formatCopies(curve.rangeMax)} copies, E ${formatNumber(
+    curve.efficiency * 100,
+    1
+  )}%${curve.linear ? "" : " (not linear)"}</p>`;
+
+  html += '<table class="data-table output-table">';
+  html += `<thead><tr><th>Sample</th><th class="numeric">Mean Cq</th><th class="numeric">n</th><th class="numeric">Copies/reaction</th>${
+    perUl ? '<th class="numeric">Copies/µl</th>' : ""
+  }<th>Flag</th></tr></thead><tbody>`;
+
+  for (const row of result.rows) {
+    html += `<tr${row.flag === "in-range" ? "" : ' class="status-warning-row"'}>`;
+    html += `<td>${escapeHtml(row.sampleName)}</td>`;
+    html += `<td class="numeric">${formatNumber(row.cqMean, 2)}</td>`;
+    html += `<td class="numeric">${row.replicateCount}</td>`;
+    html += `<td class="numeric">${formatCopies(row.copies)}</td>`;
+    if (perUl) {
+      html += `<td class="numeric">${formatCopies(row.copiesPerUl ?? NaN)}</td>`;
+    }
+    html += `<td>${STANDARD_RANGE_LABELS[row.flag]}</td>`;
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  html += "</div>";
+  return html;
+}
+
+/**
+ * Get the input volume per reaction used to scale copy numbers
+ * @returns Volume in µl, or null when empty or not positive
+ */
+export function getTemplateVolume(): number | null {
+  const input = document.getElementById(
+    "template-volume"
+  ) as HTMLInputElement | null;
+  const volume = parseFloat(input?.value ?? "");
+  return volume > 0 ? volume : null;
+}
+
+/**
+ * Setup handlers of the absolute quantification section
+ * @param onVolumeChange Callback when the template volume changes
+ * @param onExport Callback to export the copy numbers
+ */
+export function setupAbsoluteQuantificationHandlers(
+  onVolumeChange: () => void,
+  onExport: () => void
+): void {
+  document
+    .getElementById("template-volume")
+    ?.addEventListener("input", onVolumeChange);
+  document
+    .getElementById("export-absolute-btn")
+    ?.addEventListener("click", onExport);
+}
@@ -0,0 +1,315 @@
+/**
+ * Plate Map Renderer
+ * Handles rendering of the plate map editor in the input section
+ */
+
+import { ParsedTsvData, PlateRun, WellAssignment } from "../../../types";
+import { CANONICAL_COLUMNS } from "../../input/importers/common";
+import { RUN_COLUMN } from "../../input/run-merger";
+import { detectCtColumn, shouldIgnoreRow } from "../../input/tsv-parser";
+import {
+  detectPlateSize,
+  getAssignmentLabel,
+  getWellKey,
+  PlateSize,
+} from "../../processing/plate-layout";
+import { formatNumber } from "../../processing/statistics";
+import {
+  PlateWellCell,
+  renderPlateGrid,
+  setupPlateGridSelection,
+} from "../components/plate-grid";
+import { escapeHtml } from "../components/table";
+
+/**
+ * Colours used to tell genes apart on the plate
+ */
+const GENE_COLORS = [
+  "#bfdbfe",
+  "#bbf7d0",
+  "#fde68a",
+  "#fbcfe8",
+  "#ddd6fe",
+  "#fed7aa",
+  "#a5f3fc",
+  "#d9f99d",
+  "#fecaca",
+  "#e2e8f0",
+];
+
+/**
+ * Currently selected wells
+ */
+const selectedWells = new Set<string>();
+
+/**
+ * Last rendered plate inputs, kept so selection changes can re-render
+ */
+let lastRender: {
+  data: ParsedTsvData;
+  genes: string[];
+  assignments: Record<string, WellAssignment>;
+  run: string;
+} | null = null;
+
+/**
+ * Get the colour for a gene
+ * @param geneName Gene name
+ * @param genes All gene names
+ * @returns CSS colour
+ */
+export function getGeneColor(geneName: string, genes: string[]): string {
+  const index = genes.indexOf(geneName);
+  return GENE_COLORS[(index === -1 ? 0 : index) % GENE_COLORS.length];
+}
+
+/**
+ * Pick and show the plate format that fits the loaded data
+ * @param data Parsed TSV data
+ */
+export function selectPlateSizeForData(data: ParsedTsvData): void {
+  const select = document.getElementById("plate-size") as HTMLSelectElement;
+  if (!select) return;
+
+  const positions = data.rows.map((r) => r[CANONICAL_COLUMNS.position] ?? "");
+  select.value = String(detectPlateSize(positions));
+}
+
+/**
+ * Get the selected plate format
+ * @returns Plate format
+ */
+export function getPlateSize(): PlateSize {
+  const select = document.getElementById("plate-size") as HTMLSelectElement;
+  return select?.value === "384" ? 384 : 96;
+}
+
+/**
+ * Populate the plate picker with the loaded runs
+ * @param runs Loaded runs, in plate order
+ */
+export function renderPlateRunPicker(runs: PlateRun[]): void {
+  const select = document.getElementById("plate-map-run") as HTMLSelectElement;
+  if (!select) return;
+
+  const current = select.value;
+  select.innerHTML = runs
+    .map(
+      (run) =>
+        `<option value="${escapeHtml(run.id)}">${escapeHtml(run.id)}</option>`
+    )
+    .join("");
+
+  if (runs.some((r) => r.id === current)) select.value = current;
+  select.classList.toggle("hidden", runs.length < 2);
+}
+
+/**
+ * Get the run shown in the plate map
+ * @returns Selected run ID (empty if none)
+ */
+export function getPlateRun(): string {
+  const select = document.getElementById("plate-map-run") as HTMLSelectElement;
+  return select?.value ?? "";
+}
+
+/**
+ * Render the plate map
+ * @param data Parsed TSV data
+ * @param genes Available gene names (for colouring)
+ * @param assignments Well assignments keyed by well key
+ * @param run Run (plate) to show
+ */
+export function renderPlateMap(
+  data: ParsedTsvData,
+  genes: string[],
+  assignments: Record<string, WellAssignment>,
+  run: string
+): void {
+  const container = document.getElementById("plate-map");
+  if (!container) return;
+
+  lastRender = { data, genes, assignments, run };
+
+  const ctColumn = detectCtColumn(data);
+  const cells = new Map<string, PlateWellCell>();
+
+  for (const row of data.rows) {
+    if (shouldIgnoreRow(row) || (row[RUN_COLUMN] ?? "") !== run) continue;
+
+    const position = row[CANONICAL_COLUMNS.position]?.trim();
+    const geneName = row["Name"];
+    if (!position || !geneName) continue;
+
+    const cp = ctColumn ? parseFloat(row[ctColumn]) : NaN;
+    const existing = cells.get(position);
+
+    // Multiplexed wells list every target in the tooltip
+    if (existing) {
+      existing.title += `, ${geneName} ${formatNumber(cp, 2)}`;
+      continue;
+    }
+
+    const assignment = assignments[getWellKey(run, position)];
+    const classNames: string[] = [];
+    if (assignment?.isControl) classNames.push("control");
+    if (assignment?.excluded) classNames.push("excluded");
+
+    cells.set(position, {
+      label: formatNumber(cp, 1),
+      sublabel: assignment ? getAssignmentLabel(assignment) : "",
+      title: `${geneName} ${formatNumber(cp, 2)}`,
+      color: getGeneColor(geneName, genes),
+      classNames,
+    });
+  }
+
+  container.innerHTML = renderPlateGrid(getPlateSize(), cells, selectedWells);
+  renderPlateLegend(genes);
+  updateSelectionSummary();
+}
+
+/**
+ * Render gene colour legend
+ * @param genes Available gene names
+ */
+function renderPlateLegend(genes: string[]): void {
+  const container = document.getElementById("plate-map-legend");
+  if (!container) return;
+
+  container.innerHTML = genes
+    .map(
+      (gene) =>
+        `<span class="legend-item"><span class="legend-swatch" style="background-color: ${getGeneColor(
+          gene,
+          genes
+        )};"></span>${escapeHtml(gene)}</span>`
+    )
+    .join("");
+}
+
+/**
+ * Show how many wells are selected
+ */
+function updateSelectionSummary(): void {
+  const summary = document.getElementById("plate-selection");
+  if (summary) {
+    summary.textContent =
+      selectedWells.size > 0 ? `${selectedWells.size} well(s) selected` : "";
+  }
+}
+
+/**
+ * Read the assignment form
+ * @returns Well assignment from the form fields
+ */
+function readAssignmentForm(): WellAssignment {
+  const value = (id: string) =>
+    (document.getElementById(id) as HTMLInputElement | null)?.value.trim() ??
+    "";
+  const checked = (id: string) =>
+    (document.getElementById(id) as HTMLInputElement | null)?.checked ?? false;
+
+  return {
+    sample: value("well-sample"),
+    replicateGroup: value("well-replicate"),
+    isControl: checked("well-control"),
+    excluded: checked("well-excluded"),
+  };
+}
+
+/**
+ * Clear the current well selection
+ */
+export function clearPlateSelection(): void {
+  selectedWells.clear();
+  rerenderPlateMap();
+}
+
+/**
+ * Re-render the plate map with the last inputs
+ */
+function rerenderPlateMap(): void {
+  if (lastRender) {
+    renderPlateMap(
+      lastRender.data,
+      lastRender.genes,
+      lastRender.assignments,
+      lastRender.run
+    );
+  }
+}
+
+/**
+ * Take the selected wells as well keys and clear the selection
+ * @returns Well keys of the selected wells on the shown plate
+ */
+function takeSelectedWellKeys(): string[] {
+  const run = lastRender?.run ?? "";
+  const keys = Array.from(selectedWells).map((p) => getWellKey(run, p));
+  selectedWells.clear();
+  return keys;
+}
+
+/**
+ * Setup plate map selection and assignment handlers
+ * @param onAssign Callback with selected well keys and the assignment to
+ *                 apply (null clears their assignment)
+ * @param onReset Callback to remove every assignment
+ * @param onViewChange Callback when the plate format or shown plate changes
+ */
+export function setupPlateMapHandlers(
+  onAssign: (wellKeys: string[], assignment: WellAssignment | null) => void,
+  onReset: () => void,
+  onViewChange: () => void
+): void {
+  setupPlateGridSelection("plate-map", (positions, additive) => {
+    if (!additive) selectedWells.clear();
+    positions.forEach((p) => selectedWells.add(p));
+    rerenderPlateMap();
+  });
+
+  const errorElement = document.getElementById("plate-map-error");
+
+  document.getElementById("assign-wells-btn")?.addEventListener("click", () => {
+    const assignment = readAssignmentForm();
+
+    if (selectedWells.size === 0) {
+      if (errorElement)
+        errorElement.textContent = "Select wells on the plate first";
+      return;
+    }
+    if (!assignment.sample && !assignment.excluded) {
+      if (errorElement) {
+        errorElement.textContent =
+          "Enter a sample name or mark the wells as excluded";
+      }
+      return;
+    }
+
+    if (errorElement) errorElement.textContent = "";
+    onAssign(takeSelectedWellKeys(), assignment);
+  });
+
+  document.getElementById("clear-wells-btn")?.addEventListener("click", () => {
+    if (errorElement) errorElement.textContent = "";
+    onAssign(takeSelectedWellKeys(), null);
+  });
+
+  document
+    .getElementById("reset-plate-map-btn")
+    ?.addEventListener("click", () => {
+      if (errorElement) errorElement.textContent = "";
+      selectedWells.clear();
+      onReset();
+    });
+
+  document
+    .getElementById("plate-size")
+    ?.addEventListener("change", onViewChange);
+
+  document.getElementById("plate-map-run")?.addEventListener("change", () => {
+    selectedWells.clear();
+    onViewChange();
+  });
+}
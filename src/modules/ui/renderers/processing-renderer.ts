@@ -3,7 +3,24 @@
  * Handles rendering of the processing tables
  */
 
-import { GeneProcessingResult, ProcessingTableRow } from "../../../types";
+import {
+  AppliedCalibrator,
+  CtMeasurement,
+  DeltaCtCalibrator,
+  GeneEfficiency,
+  GeneProcessingResult,
+  OutlierMethod,
+  ProcessingTableRow,
+  QuantificationMethod,
+  QuantificationSummary,
+  ReplicateLayout,
+  RunCalibration,
+} from "../../../types";
+import { QcIssue } from "../../processing/quality-control";
+import {
+  GeneRowDiagnostic,
+  hasRowMismatch,
+} from "../../processing/row-diagnostics";
 import { formatNumber } from "../../processing/statistics";
 import { escapeHtml } from "../components/table";
 import { renderTabs, setupTabHandlers, TabConfig } from "../components/tabs";
@@ -45,52 +62,53 @@ export function renderProcessingSection(
  * @returns HTML string
  */
 export function renderProcessingTable(result: GeneProcessingResult): string {
-  const headers = [
-    "SAMPLE NR",
-    "SAMPLE",
-    "CT",
-    "STD",
-    "[CT]",
-    "",
-    "H CT",
-    "H STD",
-    "H [CT]",
-    "",
-    "ΔCT",
-    "ΔΔCT",
-    "Combined STD",
-    "",
-    "2⁻ΔΔCT",
-    "SEM",
+  const columns: { header: string; className: string }[] = [
+    { header: "SAMPLE NR", className: "sample-header" },
+    { header: "SAMPLE", className: "sample-header" },
+    { header: "CT", className: "sample-header" },
+    { header: "STD", className: "sample-header" },
+    { header: "[CT]", className: "sample-header" },
+    { header: "", className: "" },
   ];
 
-  const headerClasses = [
-    "sample-header",
-    "sample-header",
-    "sample-header",
-    "sample-header",
-    "sample-header",
-    "",
-    "housekeeper-header",
-    "housekeeper-header",
-    "housekeeper-header",
-    "",
-    "calc-header",
-    "calc-header",
-    "calc-header",
-    "",
-    "result-header",
-    "result-header",
-  ];
+  // One group of columns per housekeeper
+  for (const reference of result.quantification.references) {
+    const prefix = `H ${reference.geneName}`;
+    columns.push(
+      { header: `${prefix} CT`, className: "housekeeper-header" },
+      { header: `${prefix} STD`, className: "housekeeper-header" },
+      { header: `${prefix} [CT]`, className: "housekeeper-header" },
+      { header: "", className: "" }
+    );
+  }
 
-  let html =
-    '<div class="table-container scrollable" style="max-height: 500px;">';
+  columns.push(
+    { header: "ΔCT", className: "calc-header" },
+    {
+      header: `ΔΔCT vs ${calibratorHeader(result.calibrator)}`,
+      className: "calc-header",
+    },
+    { header: "Combined STD", className: "calc-header" },
+    { header: "NF", className: "calc-header" },
+    { header: "", className: "" },
+    {
+      header:
+        result.quantification.method === "pfaffl" ? "Ratio (Pfaffl)" : "2⁻ΔΔCT",
+      className: "result-header",
+    },
+    { header: "SEM", className: "result-header" }
+  );
+
+  let html = renderQuantificationSummary(result.quantification);
+  html += renderCalibratorSummary(result.calibrator);
+  html += renderCalibrationSummary(result.calibration);
+  html += '<div class="table-container scrollable" style="max-height: 500px;">';
   html += '<table class="data-table processing-table">';
 
   // Header
   html += "<thead><tr>";
-  headers.forEach((header, i) => {
-    html += `<th class="${headerClasses[i]}">${escapeHtml(header)}</th>`;
+  columns.forEach((column) => {
+    html += `<th class="${column.className}">${escapeHtml(column.header)}</th>`;
   });
   html += "</tr></thead>";
 
@@ -114,17 +132,26 @@ export function renderProcessingTable(result: GeneProcessingResult): string {
 function renderProcessingRow(row: ProcessingTableRow): string {
   if (row.isReplicaRow) {
     // Replica sub-row - only show CT values
+    const referenceCells = row.references
+      .map(
+        (r) =>
+          `${renderWellCell(
+            r.ctValues[0],
+            r.rawCtValues[0],
+            r.measurement
+          )}<td></td><td></td><td></td>`
+      )
+      .join("");
+
     return `
       <tr class="replica-row">
         <td></td>
         <td></td>
-        <td class="numeric">${formatNumber(row.ctValues[0], 2)}</td>
+        ${renderWellCell(row.ctValues[0], row.rawCtValues[0], row.measurement)}
         <td></td>
         <td></td>
         <td></td>
-        <td class="numeric">${formatNumber(row.hkCtValues[0], 2)}</td>
-        <td></td>
-        <td></td>
+        ${referenceCells}
         <td></td>
         <td></td>
         <td></td>
@@ -136,22 +163,35 @@ function renderProcessingRow(row: ProcessingTableRow): string {
     `;
   }
 
+  const referenceCells = row.references
+    .map(
+      (r) => `
+      <td class="numeric">${renderCq(r.ctValues[0], r.rawCtValues[0])}</td>
+      <td class="numeric">${formatNumber(r.ctStd, 2)}</td>
+      <td class="numeric">${formatNumber(r.ctMean, 2)}</td>
+      <td></td>`
+    )
+    .join("");
+
   // Main sample row
   return `
     <tr class="sample-row">
       <td class="numeric bold">${row.sampleNumber}</td>
-      <td class="bold">${escapeHtml(row.sampleName)}</td>
-      <td class="numeric">${formatNumber(row.ctValues[0], 2)}</td>
+      <td class="bold">${escapeHtml(row.sampleName)}${renderReplicateCount(
+        row
+      )}${renderWarnings(row.warnings)}</td>
+      <td class="numeric">${renderCq(row.ctValues[0], row.rawCtValues[0])}</td>
       <td class="numeric">${formatNumber(row.ctStd, 2)}</td>
       <td class="numeric">${formatNumber(row.ctMean, 2)}</td>
       <td></td>
-      <td class="numeric">${formatNumber(row.hkCtValues[0], 2)}</td>
-      <td class="numeric">${formatNumber(row.hkCtStd, 2)}</td>
-      <td class="numeric">${formatNumber(row.hkCtMean, 2)}</td>
-      <td></td>
-      <td class="numeric">${formatNumber(row.deltaCt, 2)}</td>
+      ${referenceCells}
+      <td class="numeric" title="Housekeeper [CT] ${formatNumber(
+        row.hkCtMean,
+        2
+      )} ± ${formatNumber(row.hkCtStd, 2)}">${formatNumber(row.deltaCt, 2)}</td>
       <td class="numeric">${formatNumber(row.deltaDeltaCt, 2)}</td>
       <td class="numeric">${formatNumber(row.combinedStd, 2)}</td>
+      <td class="numeric">${formatNumber(row.normalizationFactor, 3)}</td>
       <td></td>
       <td class="numeric">${formatNumber(row.foldChange, 2)}</td>
       <td class="numeric">${formatNumber(row.sem, 2)}</td>
@@ -159,6 +199,326 @@ function renderProcessingRow(row: ProcessingTableRow): string {
   `;
 }
 
+/**
+ * Render a Cq cell, showing the measured value under a calibrated one
+ * @param value Cq used in calculations
+ * @param rawValue Cq as measured
+ * @returns HTML string
+ */
+function renderCq(value: number, rawValue: number): string {
+  const html = formatNumber(value, 2);
+  if (isNaN(rawValue) || Math.abs(value - rawValue) < 1e-9) return html;
+
+  return `${html}<span class="raw-cq" title="Measured Cq before inter-run calibration">raw ${formatNumber(
+    rawValue,
+    2
+  )}</span>`;
+}
+
+/**
+ * Render a replica well cell with its QC markers
+ * @param value Cq used in calculations
+ * @param rawValue Cq as measured
+ * @param measurement Well behind the cell, if any
+ * @returns HTML string
+ */
+function renderWellCell(
+  value: number,
+  rawValue: number,
+  measurement?: CtMeasurement
+): string {
+  if (!measurement) return "<td></td>";
+
+  // Wells excluded for another reason cannot be unmasked by hand
+  const isManual = measurement.flags.some((f) => f.kind === "manual");
+  const canToggle = !measurement.excluded || isManual;
+
+  const classNames = ["numeric"];
+  if (measurement.excluded) classNames.push("excluded-well");
+  if (measurement.flags.length > 0) classNames.push("flagged-well");
+  if (canToggle) classNames.push("toggle-well");
+
+  const messages = measurement.flags.map((f) => f.message);
+  if (canToggle) {
+    messages.push(isManual ? "Click to include" : "Click to exclude");
+  }
+
+  const hasMeltFlag = measurement.flags.some((f) => f.kind === "melt");
+  const marker = hasMeltFlag
+    ? '<span class="qc-marker melt-marker">Tm</span>'
+    : measurement.flags.length > 0
+      ? '<span class="qc-marker">*</span>'
+      : "";
+  const dataAttribute = canToggle
+    ? ` data-measurement="${escapeHtml(measurement.id)}"`
+    : "";
+
+  return `<td class="${classNames.join(" ")}" title="${escapeHtml(
+    messages.join("; ")
+  )}"${dataAttribute}>${renderCq(value, rawValue)}${marker}</td>`;
+}
+
+/**
+ * Render a warning marker for sample-level QC warnings
+ * @param warnings Warning messages
+ * @returns HTML string (empty without warnings)
+ */
+function renderWarnings(warnings: string[]): string {
+  if (warnings.length === 0) return "";
+
+  return ` <span class="qc-warning" title="${escapeHtml(
+    warnings.join("; ")
+  )}">⚠</span>`;
+}
+
+/**
+ * Render the number of replicates that went into a row's means
+ * @param row Main row of a sample
+ * @returns HTML string
+ */
+function renderReplicateCount(row: ProcessingTableRow): string {
+  const counts = [row.ctValues, ...row.references.map((r) => r.ctValues)].map(
+    (values) => values.length
+  );
+  return ` <span class="replicate-count" title="Replicates used (target / housekeepers)">n = ${counts.join(
+    " / "
+  )}</span>`;
+}
+
+/**
+ * Render the quantification method and the efficiencies behind the fold changes
+ * @param quantification Method and efficiencies of target and housekeepers
+ * @returns HTML string
+ */
+function renderQuantificationSummary(
+  quantification: QuantificationSummary
+): string {
+  const efficiency = (gene: GeneEfficiency) =>
+    `${escapeHtml(gene.geneName)} ${formatNumber(gene.efficiency * 100, 1)}%${
+      gene.assumed ? " (assumed)" : ""
+    }`;
+  const references = quantification.references;
+  const normalization =
+    references.length > 1
+      ? ` NF = geometric mean of ${references.length} housekeepers (${references
+          .map((r) => escapeHtml(r.geneName))
+          .join(", ")}).`
+      : "";
+
+  if (quantification.method === "delta-delta-ct") {
+    return `<div class="quantification-summary"><strong>2⁻ΔΔCT</strong> (100% efficiency assumed for target and housekeepers).${normalization}</div>`;
+  }
+
+  return `<div class="quantification-summary"><strong>Pfaffl ratio</strong> E<sub>target</sub><sup>ΔCT target</sup> / NF, efficiencies: ${efficiency(
+    quantification.target
+  )} (target), ${references
+    .map(efficiency)
+    .join(", ")} (housekeepers).${normalization}</div>`;
+}
+
+/**
+ * Short name of a calibrator for the ΔΔCT column header
+ * @param calibrator Applied calibrator
+ * @returns Header text
+ */
+function calibratorHeader(calibrator: AppliedCalibrator): string {
+  if (calibrator.mode === "sample" || calibrator.fallback) {
+    return calibrator.sampleNames[0] ?? "-";
+  }
+  return calibrator.mode === "control-mean" ? "control mean" : "sample mean";
+}
+
+/**
+ * Render which ΔCT the ΔΔCT values are taken against
+ * @param calibrator Applied calibrator
+ * @returns HTML string
+ */
+function renderCalibratorSummary(calibrator: AppliedCalibrator): string {
+  const names = calibrator.sampleNames.map((n) => escapeHtml(n));
+  let description: string;
+
+  if (calibrator.fallback) {
+    description = `first sample ${names[0]} (${
+      calibrator.mode === "sample"
+        ? "the picked sample has"
+        : "the controls have"
+    } no values for this gene)`;
+  } else if (calibrator.mode === "sample") {
+    description = `sample ${names[0] ?? "-"}`;
+  } else {
+    description = `mean ΔCT of ${names.length} ${
+      calibrator.mode === "control-mean" ? "control samples" : "samples"
+    } (${names.join(", ")})`;
+  }
+
+  return `<div class="quantification-summary${
+    calibrator.fallback ? " calibrator-fallback" : ""
+  }"><strong>Calibrator</strong> ${description}, ΔCT ${formatNumber(
+    calibrator.deltaCt,
+    3
+  )}.</div>`;
+}
+
+/**
+ * Render the inter-run correction factors applied to a gene
+ * @param calibration Per-run calibration of target and housekeeper
+ * @returns HTML string (empty when no calibration was applied)
+ */
+function renderCalibrationSummary(calibration: RunCalibration[]): string {
+  if (calibration.length === 0) return "";
+
+  const genes = Array.from(new Set(calibration.map((c) => c.geneName)));
+
+  let html = '<div class="calibration-summary">';
+  html +=
+    "<strong>Inter-run calibration</strong> (run shift subtracted from each Cq):";
+  html += "<ul>";
+
+  for (const gene of genes) {
+    const factors = calibration.filter((c) => c.geneName === gene);
+    const parts = factors.map(
+      (c) =>
+        `${escapeHtml(c.run)} ${c.factor >= 0 ? "+" : "−"}${formatNumber(
+          Math.abs(c.factor),
+          3
+        )}`
+    );
+
+    html += `<li>${escapeHtml(gene)}: ${parts.join(", ")} (${
+      factors[0].calibratorCount
+    } calibrator(s))</li>`;
+  }
+
+  html += "</ul></div>";
+  return html;
+}
+
+/**
+ * Render the QC summary of all wells with missing or substituted values
+ * @param issues QC issues across all genes
+ */
+export function renderQcSummary(issues: QcIssue[]): void {
+  const container = document.getElementById("qc-summary");
+  if (!container) return;
+
+  if (issues.length === 0) {
+    container.innerHTML = "";
+    return;
+  }
+
+  let html = `<div class="warnings-header">QC summary (${issues.length} well note(s)):</div>`;
+  html += '<ul class="warning-list">';
+
+  for (const issue of issues) {
+    const sample = issue.sampleName ? ` · ${escapeHtml(issue.sampleName)}` : "";
+    html += `<li class="warning-item">${escapeHtml(issue.geneName)} · ${escapeHtml(
+      issue.well
+    )}${sample}: ${escapeHtml(issue.message)}</li>`;
+  }
+
+  html += "</ul>";
+  container.innerHTML = html;
+}
+
+/**
+ * Render the per-gene well count diagnostics. Hidden while every gene
+ * lines up with the sample list.
+ * @param diagnostics Diagnostics of all genes
+ * @param layout Replicate layout used to group the wells
+ */
+export function renderRowDiagnostics(
+  diagnostics: GeneRowDiagnostic[],
+  layout: ReplicateLayout
+): void {
+  const container = document.getElementById("row-diagnostics");
+  if (!container) return;
+
+  if (!diagnostics.some(hasRowMismatch)) {
+    container.innerHTML = "";
+    return;
+  }
+
+  let html =
+    '<div class="warnings-header">Well counts do not match the sample list:</div>';
+  html += '<table class="data-table diagnostics-table">';
+  html +=
+    "<thead><tr><th>Gene</th><th>Wells</th><th>Expected</th><th>Problems</th></tr></thead><tbody>";
+
+  for (const diagnostic of diagnostics) {
+    const mismatch = hasRowMismatch(diagnostic);
+    const problems: string[] = [];
+
+    for (const sample of diagnostic.incompleteSamples) {
+      problems.push(
+        renderRowLink(
+          `${escapeHtml(sample.sampleName)}: ${sample.found} of ${
+            sample.expected
+          } wells`,
+          sample.rowIndices
+        )
+      );
+    }
+    if (diagnostic.unassignedRows.length > 0) {
+      problems.push(
+        renderRowLink(
+          `${diagnostic.unassignedRows.length} well(s) not in any sample`,
+          diagnostic.unassignedRows
+        )
+      );
+    }
+
+    html += `<tr${mismatch ? ' class="status-warning-row"' : ""}>`;
+    html += `<td class="bold">${escapeHtml(diagnostic.geneName)}</td>`;
+    html += `<td class="numeric">${diagnostic.wellCount}</td>`;
+    html += `<td class="numeric">${diagnostic.expectedWells}</td>`;
+    html += `<td>${problems.length > 0 ? problems.join("; ") : "OK"}</td>`;
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+
+  if (layout === "row-order") {
+    html +=
+      '<p class="hint">In row order a missing well shifts every following sample; check the highlighted rows or use a position-based layout or the plate map.</p>';
+  }
+
+  container.innerHTML = html;
+}
+
+/**
+ * Render a link that highlights data rows in the input table
+ * @param label Link text (already escaped)
+ * @param rowIndices Data row indices
+ * @returns HTML string (plain text when there are no rows)
+ */
+function renderRowLink(label: string, rowIndices: number[]): string {
+  if (rowIndices.length === 0) return label;
+
+  const rows = rowIndices.map((i) => `Row ${i + 1}`).join(", ");
+  return `<a href="#input-table-container" class="row-link" data-rows="${rowIndices.join(
+    ","
+  )}" title="${rows}">${label}</a>`;
+}
+
+/**
+ * Setup handlers for the diagnostics links to input table rows
+ * @param onShowRows Callback with the data row indices of a clicked link
+ */
+export function setupRowDiagnosticsHandlers(
+  onShowRows: (rowIndices: number[]) => void
+): void {
+  const container = document.getElementById("row-diagnostics");
+  if (!container) return;
+
+  container.addEventListener("click", (e) => {
+    const link = (e.target as HTMLElement).closest<HTMLElement>(".row-link");
+    if (!link) return;
+
+    e.preventDefault();
+    onShowRows((link.dataset.rows ?? "").split(",").map(Number));
+  });
+}
+
 /**
  * Setup processing tab handlers
  * @param onTabChange Callback when tab changes
@@ -169,6 +529,158 @@ export function setupProcessingTabHandlers(
   setupTabHandlers("gene-tabs", "processing-content", onTabChange);
 }
 
+/**
+ * Setup click handlers that mask or unmask single replicates
+ * @param onToggle Callback with the clicked measurement ID
+ */
+export function setupReplicateExclusionHandlers(
+  onToggle: (measurementId: string) => void
+): void {
+  const content = document.getElementById("processing-content");
+  if (!content) return;
+
+  content.addEventListener("click", (event) => {
+    const cell = (event.target as HTMLElement).closest("td[data-measurement]");
+    if (cell) {
+      onToggle((cell as HTMLElement).dataset.measurement ?? "");
+    }
+  });
+}
+
+/**
+ * Read the outlier detection settings
+ * @returns Outlier method, SD threshold and auto-exclusion flag
+ */
+export function getOutlierOptions(): {
+  method: OutlierMethod;
+  sdThreshold: number;
+  autoExclude: boolean;
+} {
+  const method = document.getElementById("outlier-method") as HTMLSelectElement;
+  const threshold = document.getElementById(
+    "outlier-sd-threshold"
+  ) as HTMLInputElement;
+  const autoExclude = document.getElementById(
+    "outlier-auto-exclude"
+  ) as HTMLInputElement;
+
+  const sdThreshold = parseFloat(threshold?.value ?? "");
+
+  return {
+    method: (method?.value as OutlierMethod) || "none",
+    sdThreshold: isNaN(sdThreshold) ? 0.3 : sdThreshold,
+    autoExclude: autoExclude?.checked ?? false,
+  };
+}
+
+/**
+ * Read the quantification settings
+ * @returns Quantification method and efficiency list lines
+ */
+export function getQuantificationOptions(): {
+  method: QuantificationMethod;
+  efficiencyLines: string[];
+} {
+  const method = document.getElementById(
+    "quantification-method"
+  ) as HTMLSelectElement;
+  const textarea = document.getElementById(
+    "efficiency-list"
+  ) as HTMLTextAreaElement;
+
+  return {
+    method: (method?.value as QuantificationMethod) || "delta-delta-ct",
+    efficiencyLines: (textarea?.value ?? "")
+      .trimEnd()
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0),
+  };
+}
+
+/**
+ * Render the calibrator choices: the group means and every sample
+ * @param samples Sample names
+ * @param calibrator Current calibrator setting
+ */
+export function renderCalibratorOptions(
+  samples: string[],
+  calibrator: DeltaCtCalibrator
+): void {
+  const select = document.getElementById(
+    "deltact-calibrator"
+  ) as HTMLSelectElement | null;
+  if (!select) return;
+
+  const selected = calibratorValue(calibrator);
+  const option = (value: string, label: string) =>
+    `<option value="${escapeHtml(value)}"${
+      value === selected ? " selected" : ""
+    }>${escapeHtml(label)}</option>`;
+
+  const sampleOptions = samples.map((s) => option(`sample:${s}`, s));
+  if (calibrator.sampleName && !samples.includes(calibrator.sampleName)) {
+    sampleOptions.push(
+      option(selected, `${calibrator.sampleName} (not in sample list)`)
+    );
+  }
+
+  select.innerHTML =
+    option("sample:", "First sample") +
+    option("control-mean", "Mean ΔCT of controls") +
+    option("all-mean", "Mean ΔCT of all samples (qbase)") +
+    `<optgroup label="Sample">${sampleOptions.join("")}</optgroup>`;
+}
+
+/**
+ * Encode a calibrator setting as a select value
+ * @param calibrator Calibrator setting
+ * @returns Option value
+ */
+function calibratorValue(calibrator: DeltaCtCalibrator): string {
+  return calibrator.mode === "sample"
+    ? `sample:${calibrator.sampleName ?? ""}`
+    : calibrator.mode;
+}
+
+/**
+ * Read the calibrator setting
+ * @returns Calibrator setting
+ */
+export function getDeltaCtCalibrator(): DeltaCtCalibrator {
+  const select = document.getElementById(
+    "deltact-calibrator"
+  ) as HTMLSelectElement | null;
+  const value = select?.value ?? "sample:";
+
+  if (value === "control-mean" || value === "all-mean") {
+    return { mode: value, sampleName: null };
+  }
+  return { mode: "sample", sampleName: value.slice("sample:".length) || null };
+}
+
+/**
+ * Fill the efficiency list textarea
+ * @param lines Efficiency list lines
+ */
+export function populateEfficiencyList(lines: string[]): void {
+  const textarea = document.getElementById(
+    "efficiency-list"
+  ) as HTMLTextAreaElement;
+  if (textarea) {
+    textarea.value = lines.join("\n");
+  }
+}
+
+/**
+ * Get the reason entered for manual exclusions
+ * @returns Exclusion reason
+ */
+export function getExclusionReason(): string {
+  const input = document.getElementById("exclusion-reason") as HTMLInputElement;
+  return input?.value.trim() ?? "";
+}
+
 /**
  * Clear processing section
  */
@@ -177,6 +689,8 @@ export function clearProcessingSection(): void {
   const content = document.getElementById("processing-content");
 
   if (headers) headers.innerHTML = "";
+  renderQcSummary([]);
+  renderRowDiagnostics([], "row-order");
   if (content) {
     content.innerHTML =
       '<p class="text-center">Configure input settings and select a housekeeper gene to see processing results.</p>';
@@ -0,0 +1,203 @@
+/**
+ * Sample Sheet Renderer
+ * Handles the sample sheet editor with one factor column per experimental
+ * factor, and the grouping and control pickers driven by it
+ */
+
+import { ControlCondition, SampleSheet } from "../../../types";
+import { getFactorLevels } from "../../processing/sample-sheet";
+import {
+  getCheckboxGroupValues,
+  renderCheckboxGroup,
+  setupCheckboxGroupHandlers,
+} from "../components/checkbox-group";
+import { escapeHtml } from "../components/table";
+
+/**
+ * Render the sample sheet editor: one row per sample, one column per factor
+ * @param samples Sample names
+ * @param sheet Sample sheet
+ */
+export function renderSampleSheet(samples: string[], sheet: SampleSheet): void {
+  const container = document.getElementById("sample-sheet");
+  if (!container) return;
+
+  if (samples.length === 0) {
+    container.innerHTML =
+      '<p class="hint">Enter the sample list to describe the samples.</p>';
+    return;
+  }
+
+  let html = '<table class="data-table sample-sheet-table"><thead><tr>';
+  html += "<th>Sample</th>";
+  sheet.factors.forEach((factor, f) => {
+    html += `<th><input type="text" class="input-text factor-name" data-row="0" data-factor="${f}" value="${escapeHtml(
+      factor
+    )}" placeholder="Factor name">`;
+    html += `<button class="btn btn-secondary btn-small remove-factor-btn" data-factor="${f}" title="Remove factor">×</button></th>`;
+  });
+  html += "</tr></thead><tbody>";
+
+  samples.forEach((sample, row) => {
+    html += "<tr>";
+    html += `<td><input type="text" class="input-text sheet-sample" data-row="${row}" data-factor="0" value="${escapeHtml(
+      sample
+    )}" readonly></td>`;
+    sheet.factors.forEach((factor, f) => {
+      html += `<td><input type="text" class="input-text factor-level" data-row="${row}" data-factor="${f}" value="${escapeHtml(
+        sheet.levels[sample]?.[factor] ?? ""
+      )}"></td>`;
+    });
+    html += "</tr>";
+  });
+
+  html += "</tbody></table>";
+  container.innerHTML = html;
+}
+
+/**
+ * Read the sample sheet from the editor. Levels of samples that are not
+ * in the editor (e.g. removed from the sample list for now) are kept.
+ * @param previous Sample sheet the editor was rendered from
+ * @returns Sample sheet with the factor names as entered
+ */
+export function getSampleSheet(previous: SampleSheet): SampleSheet {
+  const container = document.getElementById("sample-sheet");
+  if (!container) return previous;
+
+  const factors = Array.from(
+    container.querySelectorAll<HTMLInputElement>(".factor-name")
+  ).map((input) => input.value.trim());
+  const levels: Record<string, Record<string, string>> = {
+    ...previous.levels,
+  };
+
+  for (const rowInput of container.querySelectorAll<HTMLInputElement>(
+    ".sheet-sample"
+  )) {
+    const row = rowInput.dataset.row;
+    const values: Record<string, string> = {};
+
+    for (const input of container.querySelectorAll<HTMLInputElement>(
+      `.factor-level[data-row="${row}"]`
+    )) {
+      const factor = factors[parseInt(input.dataset.factor!, 10)];
+      if (factor) values[factor] = input.value.trim();
+    }
+
+    levels[rowInput.value] = values;
+  }
+
+  return { factors, levels };
+}
+
+/**
+ * Render the grouping factor checkboxes and the control condition choices
+ * @param sheet Sample sheet
+ * @param samples Sample names
+ * @param groupingFactors Factors that define the conditions
+ * @param controlCondition Factor level of the controls, or null
+ */
+export function renderSampleSheetOptions(
+  sheet: SampleSheet,
+  samples: string[],
+  groupingFactors: string[],
+  controlCondition: ControlCondition | null
+): void {
+  const grouping = document.getElementById("grouping-factors");
+  const select = document.getElementById(
+    "control-condition"
+  ) as HTMLSelectElement | null;
+  if (!grouping || !select) return;
+
+  const factors = sheet.factors.filter((f) => f.length > 0);
+  grouping.innerHTML =
+    factors.length > 0
+      ? renderCheckboxGroup(
+          factors.map((f) => ({ value: escapeHtml(f), label: escapeHtml(f) })),
+          groupingFactors.map((f) => escapeHtml(f)),
+          "grouping-factor"
+        )
+      : '<span class="hint">Add factors to group by (controls vs. samples until then)</span>';
+
+  const selected = controlCondition ? JSON.stringify(controlCondition) : "";
+  let html = `<option value="">From the control list</option>`;
+  for (const factor of factors) {
+    html += `<optgroup label="${escapeHtml(factor)}">`;
+    for (const level of getFactorLevels(sheet, factor, samples)) {
+      const value = JSON.stringify({ factor, level });
+      html += `<option value="${escapeHtml(value)}"${
+        value === selected ? " selected" : ""
+      }>${escapeHtml(factor)} = ${escapeHtml(level)}</option>`;
+    }
+    html += "</optgroup>";
+  }
+  select.innerHTML = html;
+}
+
+/**
+ * Get the factors picked to define the conditions
+ * @returns Factor names
+ */
+export function getGroupingFactors(): string[] {
+  return getCheckboxGroupValues("grouping-factors");
+}
+
+/**
+ * Get the factor level picked to mark the controls
+ * @returns Control condition, or null for the control list
+ */
+export function getControlCondition(): ControlCondition | null {
+  const select = document.getElementById(
+    "control-condition"
+  ) as HTMLSelectElement | null;
+  return select?.value ? (JSON.parse(select.value) as ControlCondition) : null;
+}
+
+/**
+ * Setup sample sheet handlers. A block of several cells pasted into the
+ * sheet is handed over instead of being pasted into the one input.
+ * @param onEdit Callback when a cell, the grouping or the controls change
+ * @param onAddFactor Callback to add a factor column
+ * @param onRemoveFactor Callback with the index of the factor to remove
+ * @param onPaste Callback with the pasted text and the cell it was pasted into
+ */
+export function setupSampleSheetHandlers(
+  onEdit: () => void,
+  onAddFactor: () => void,
+  onRemoveFactor: (index: number) => void,
+  onPaste: (text: string, row: number, factor: number) => void
+): void {
+  const container = document.getElementById("sample-sheet");
+  if (container) {
+    container.addEventListener("input", onEdit);
+
+    container.addEventListener("click", (event) => {
+      const button = (event.target as HTMLElement).closest(
+        ".remove-factor-btn"
+      ) as HTMLElement | null;
+      if (button) onRemoveFactor(parseInt(button.dataset.factor!, 10));
+    });
+
+    container.addEventListener("paste", (event) => {
+      const target = event.target as HTMLInputElement;
+      const text = event.clipboardData?.getData("text/plain") ?? "";
+      if (!target.dataset.row || !/[\t\n]/.test(text.trim())) return;
+
+      event.preventDefault();
+      onPaste(
+        text,
+        parseInt(target.dataset.row, 10),
+        parseInt(target.dataset.factor!, 10)
+      );
+    });
+  }
+
+  document
+    .getElementById("add-factor-btn")
+    ?.addEventListener("click", onAddFactor);
+  setupCheckboxGroupHandlers("grouping-factors", onEdit);
+  document
+    .getElementById("control-condition")
+    ?.addEventListener("change", onEdit);
+}
@@ -0,0 +1,248 @@
+/**
+ * Reference Gene Stability Renderer
+ * Handles the candidate picker, the ranking comparison of geNorm,
+ * NormFinder and BestKeeper, and the geNorm bar charts
+ */
+
+import {
+  BESTKEEPER_SD_THRESHOLD,
+  BestKeeperResult,
+  GENORM_M_THRESHOLD,
+  GENORM_V_THRESHOLD,
+  GeNormResult,
+  ReferenceStabilityResult,
+  StabilityMethod,
+} from "../../processing/reference-stability";
+import { formatNumber } from "../../processing/statistics";
+import {
+  getCheckboxGroupValues,
+  renderCheckboxGroup,
+  setupCheckboxGroupHandlers,
+} from "../components/checkbox-group";
+import { renderBarChart } from "../components/chart";
+import { escapeHtml } from "../components/table";
+
+/**
+ * Render the candidate gene picker: hidden without genes. Candidates
+ * checked before stay checked; with none of them left, all genes are.
+ * @param genes Available gene names
+ */
+export function renderStabilityCandidates(genes: string[]): void {
+  const section = document.getElementById("stability-section");
+  const container = document.getElementById("stability-candidates");
+  if (!section || !container) return;
+
+  section.classList.toggle("hidden", genes.length === 0);
+
+  const checked = getCheckboxGroupValues("stability-candidates").filter((g) =>
+    genes.includes(g)
+  );
+  const options = genes.map((gene) => ({ value: gene, label: gene }));
+  container.innerHTML = renderCheckboxGroup(
+    options,
+    checked.length > 0 ? checked : genes,
+    "stability-candidate"
+  );
+}
+
+/**
+ * Get the checked candidate genes
+ * @returns Candidate gene names
+ */
+export function getStabilityCandidates(): string[] {
+  return getCheckboxGroupValues("stability-candidates");
+}
+
+/**
+ * Render the stability results of all methods
+ * @param result Stability analysis, or null when the candidates cannot be ranked
+ */
+export function renderReferenceStability(
+  result: ReferenceStabilityResult | null
+): void {
+  const container = document.getElementById("stability-results");
+  const topInput = document.getElementById(
+    "stability-top-n"
+  ) as HTMLInputElement | null;
+  if (!container) return;
+
+  if (!result) {
+    container.innerHTML =
+      '<p class="hint">Select at least two candidate genes measured in two or more samples.</p>';
+    return;
+  }
+
+  const { geNorm, normFinder } = result;
+  if (topInput) {
+    topInput.max = String(geNorm.ranking.length);
+    topInput.value = String(geNorm.recommendedCount);
+  }
+
+  const groupNote = normFinder
+    ? normFinder.groups.length > 1
+      ? `NormFinder groups: ${normFinder.groups
+          .map((g) => escapeHtml(g))
+          .join(", ")}.`
+      : "NormFinder used a single sample group (intragroup variation only)."
+    : "NormFinder needs at least three candidate genes.";
+
+  container.innerHTML =
+    renderComparisonTable(result) +
+    `<p class="hint">${geNorm.sampleCount} samples. geNorm suggests ${
+      geNorm.recommendedCount
+    } reference genes (V n/n+1 below ${GENORM_V_THRESHOLD}${
+      geNorm.pairwiseVariations.some((v) => v.value < GENORM_V_THRESHOLD)
+        ? ""
+        : " not reached; lowest variation used"
+    }). ${groupNote}</p>` +
+    renderGeNormCharts(geNorm) +
+    renderBestKeeperTable(result.bestKeeper);
+}
+
+/**
+ * Render the ranks of every method side by side
+ * @param result Stability analysis
+ * @returns HTML string
+ */
+function renderComparisonTable(result: ReferenceStabilityResult): string {
+  const value = (genes: { geneName: string; value: number }[], gene: string) =>
+    formatNumber(genes.find((g) => g.geneName === gene)?.value ?? NaN, 3);
+
+  let html = '<table class="data-table stability-table">';
+  html +=
+    '<thead><tr><th class="numeric">Overall</th><th>Gene</th><th class="numeric">geNorm M</th><th class="numeric">NormFinder ρ</th><th class="numeric">BestKeeper r</th><th class="numeric">Mean rank</th></tr></thead><tbody>';
+
+  for (const row of result.comparison) {
+    const m = value(result.geNorm.ranking, row.geneName);
+    const rho = result.normFinder
+      ? `${value(result.normFinder.ranking, row.geneName)} (${
+          row.normFinderRank
+        })`
+      : "–";
+    const r = formatNumber(
+      result.bestKeeper.genes.find((g) => g.geneName === row.geneName)?.r ??
+        NaN,
+      3
+    );
+
+    html += "<tr>";
+    html += `<td class="numeric">${row.overallRank}</td>`;
+    html += `<td class="bold">${escapeHtml(row.geneName)}</td>`;
+    html += `<td class="numeric">${m} (${row.geNormRank})</td>`;
+    html += `<td class="numeric">${rho}</td>`;
+    html += `<td class="numeric">${r} (${row.bestKeeperRank})</td>`;
+    html += `<td class="numeric">${formatNumber(row.overallScore, 2)}</td>`;
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  return html;
+}
+
+/**
+ * Render the BestKeeper descriptive statistics
+ * @param result BestKeeper result
+ * @returns HTML string
+ */
+function renderBestKeeperTable(result: BestKeeperResult): string {
+  let html = "<h4>BestKeeper</h4>";
+  html += '<table class="data-table stability-table">';
+  html +=
+    '<thead><tr><th>Gene</th><th class="numeric">Geo mean Cq</th><th class="numeric">Min</th><th class="numeric">Max</th><th class="numeric">SD (±Cq)</th><th class="numeric">CV (%)</th><th class="numeric">r</th></tr></thead><tbody>';
+
+  for (const gene of result.genes) {
+    const inconsistent = gene.sd > BESTKEEPER_SD_THRESHOLD;
+    html += `<tr${inconsistent ? ' class="status-warning-row"' : ""}>`;
+    html += `<td class="bold">${escapeHtml(gene.geneName)}${
+      result.indexGenes.includes(gene.geneName) ? "" : " (not in index)"
+    }</td>`;
+    html += `<td class="numeric">${formatNumber(gene.geometricMeanCq, 2)}</td>`;
+    html += `<td class="numeric">${formatNumber(gene.minCq, 2)}</td>`;
+    html += `<td class="numeric">${formatNumber(gene.maxCq, 2)}</td>`;
+    html += `<td class="numeric">${formatNumber(gene.sd, 2)}</td>`;
+    html += `<td class="numeric">${formatNumber(gene.cv, 2)}</td>`;
+    html += `<td class="numeric">${formatNumber(gene.r, 3)}</td>`;
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  return html;
+}
+
+/**
+ * Render the M values (least stable on the left, as geNorm plots them) and
+ * the pairwise variations as bar charts
+ * @param result geNorm result
+ * @returns HTML string
+ */
+function renderGeNormCharts(result: GeNormResult): string {
+  const mChart = renderBarChart({
+    bars: [...result.ranking].reverse().map((gene) => ({
+      label: gene.geneName,
+      value: gene.value,
+      title: `${gene.geneName}: M ${formatNumber(gene.value, 3)}`,
+    })),
+    yLabel: "Average expression stability M",
+    referenceLines: [
+      { y: GENORM_M_THRESHOLD, label: `M = ${GENORM_M_THRESHOLD}` },
+    ],
+    height: 240,
+  });
+
+  if (result.pairwiseVariations.length === 0) {
+    return `<div class="chart-container">${mChart}</div>`;
+  }
+
+  const vChart = renderBarChart({
+    bars: result.pairwiseVariations.map((v) => ({
+      label: `V${v.n}/${v.n + 1}`,
+      value: v.value,
+      title: `V${v.n}/${v.n + 1}: ${formatNumber(v.value, 3)}`,
+      className: v.n === result.recommendedCount ? "recommended-bar" : "",
+    })),
+    yLabel: "Pairwise variation V",
+    referenceLines: [
+      { y: GENORM_V_THRESHOLD, label: `V = ${GENORM_V_THRESHOLD}` },
+    ],
+    height: 240,
+  });
+
+  return `<div class="chart-container">${mChart}</div><div class="chart-container">${vChart}</div>`;
+}
+
+/**
+ * Get the ranking the top reference genes are taken from
+ * @returns Stability method
+ */
+export function getStabilityMethod(): StabilityMethod {
+  const select = document.getElementById(
+    "stability-method"
+  ) as HTMLSelectElement | null;
+  return (select?.value as StabilityMethod) || "genorm";
+}
+
+/**
+ * Get the number of top-ranked genes to use as references
+ * @returns Gene count (at least 1)
+ */
+export function getStabilityTopCount(): number {
+  const input = document.getElementById(
+    "stability-top-n"
+  ) as HTMLInputElement | null;
+  return Math.max(1, parseInt(input?.value ?? "", 10) || 1);
+}
+
+/**
+ * Setup handlers of the stability section
+ * @param onCandidatesChange Callback when the candidate genes change
+ * @param onUseTop Callback to use the top-ranked genes as references
+ */
+export function setupStabilityHandlers(
+  onCandidatesChange: () => void,
+  onUseTop: () => void
+): void {
+  setupCheckboxGroupHandlers("stability-candidates", onCandidatesChange);
+  document
+    .getElementById("use-top-references-btn")
+    ?.addEventListener("click", onUseTop);
+}
@@ -0,0 +1,153 @@
+/**
+ * Standard Curve Renderer
+ * Handles the standard curve summary table and the per-gene scatter plot
+ */
+
+import {
+  MIN_LINEAR_R_SQUARED,
+  StandardCurveResult,
+} from "../../processing/standard-curve";
+import { formatNumber } from "../../processing/statistics";
+import { ChartSeries, renderChart } from "../components/chart";
+import { escapeHtml } from "../components/table";
+
+/**
+ * Format a quantity compactly (scientific notation for large or small values)
+ * @param quantity Quantity
+ * @returns Formatted string
+ */
+function formatQuantity(quantity: number): string {
+  return quantity >= 1e4 || quantity < 1e-2
+    ? quantity.toExponential(1)
+    : String(Number(quantity.toPrecision(3)));
+}
+
+/**
+ * Render the standard curve section: hidden without standard curves
+ * @param results Standard curves of all genes
+ */
+export function renderStandardCurves(results: StandardCurveResult[]): void {
+  const section = document.getElementById("standard-curve-section");
+  const summary = document.getElementById("standard-curve-summary");
+  const select = document.getElementById(
+    "standard-curve-gene"
+  ) as HTMLSelectElement | null;
+  const plot = document.getElementById("standard-curve-plot");
+  if (!section || !summary || !select || !plot) return;
+
+  section.classList.toggle("hidden", results.length === 0);
+  if (results.length === 0) {
+    summary.innerHTML = "";
+    select.innerHTML = "";
+    plot.innerHTML = "";
+    return;
+  }
+
+  summary.innerHTML = renderStandardCurveTable(results);
+
+  // Keep the selected gene if it is still there
+  const selected =
+    results.find((r) => r.geneName === select.value) ?? results[0];
+  select.innerHTML = results
+    .map(
+      (r) =>
+        `<option value="${escapeHtml(r.geneName)}"${
+          r === selected ? " selected" : ""
+        }>${escapeHtml(r.geneName)}</option>`
+    )
+    .join("");
+
+  plot.innerHTML = renderStandardCurvePlot(selected);
+}
+
+/**
+ * Render the fit parameters of all genes
+ * @param results Standard curves
+ * @returns HTML string
+ */
+function renderStandardCurveTable(results: StandardCurveResult[]): string {
+  let html = '<table class="data-table">';
+  html +=
+    '<thead><tr><th>Gene</th><th class="numeric">Slope</th><th class="numeric">Intercept</th><th class="numeric">R²</th><th class="numeric">Efficiency</th><th>Linear dynamic range</th></tr></thead><tbody>';
+
+  for (const r of results) {
+    const decades = Math.log10(r.rangeMax / r.rangeMin);
+    const range = `${formatQuantity(r.rangeMin)} – ${formatQuantity(
+      r.rangeMax
+    )} (${formatNumber(decades, 1)} log, ${r.levels} levels)`;
+
+    html += `<tr${r.linear ? "" : ' class="status-warning-row"'}>`;
+    html += `<td class="bold">${escapeHtml(r.geneName)}</td>`;
+    html += `<td class="numeric">${formatNumber(r.slope, 3)}</td>`;
+    html += `<td class="numeric">${formatNumber(r.intercept, 2)}</td>`;
+    html += `<td class="numeric">${formatNumber(r.rSquared, 4)}</td>`;
+    html += `<td class="numeric">${formatNumber(r.efficiency * 100, 1)}%</td>`;
+    html += `<td>${
+      r.linear
+        ? range
+        : `Not linear (R² below ${MIN_LINEAR_R_SQUARED} on every range)`
+    }</td>`;
+    html += "</tr>";
+  }
+
+  html += "</tbody></table>";
+  return html;
+}
+
+/**
+ * Render Cq against log10(quantity) with the regression line
+ * @param result Standard curve of one gene
+ * @returns HTML string
+ */
+function renderStandardCurvePlot(result: StandardCurveResult): string {
+  const pointSeries = (inRange: boolean): ChartSeries => ({
+    label: inRange ? "Standards" : "Outside linear range",
+    points: result.points
+      .filter((p) => p.inRange === inRange)
+      .map((p) => ({
+        x: Math.log10(p.quantity),
+        y: p.cq,
+        title: `${p.sampleName} (${formatQuantity(
+          p.quantity
+        )}): Cq ${formatNumber(p.cq, 2)}`,
+      })),
+    mode: "points",
+    className: inRange ? "standard-point" : "standard-point outside-range",
+  });
+
+  const xMin = Math.log10(result.rangeMin);
+  const xMax = Math.log10(result.rangeMax);
+  const regression: ChartSeries = {
+    label: `Cq = ${formatNumber(result.slope, 3)} · log10(q) + ${formatNumber(
+      result.intercept,
+      2
+    )}`,
+    points: [
+      { x: xMin, y: result.slope * xMin + result.intercept },
+      { x: xMax, y: result.slope * xMax + result.intercept },
+    ],
+    mode: "line",
+    className: "regression-line",
+  };
+
+  const chart = renderChart({
+    series: [regression, pointSeries(true), pointSeries(false)],
+    xLabel: "log10(quantity)",
+    yLabel: "Cq",
+  });
+
+  return `${chart}<p class="hint">${escapeHtml(regression.label)}, R² ${formatNumber(
+    result.rSquared,
+    4
+  )}, E ${formatNumber(result.efficiency * 100, 1)}%</p>`;
+}
+
+/**
+ * Setup handlers of the standard curve section
+ * @param onGeneChange Callback when another gene is picked for the plot
+ */
+export function setupStandardCurveHandlers(onGeneChange: () => void): void {
+  document
+    .getElementById("standard-curve-gene")
+    ?.addEventListener("change", onGeneChange);
+}
@@ -5,13 +5,28 @@
 
 import {
   AppState,
+  ControlCondition,
+  CqMethod,
+  DeltaCtCalibrator,
   GeneData,
   GeneOutputResult,
   GeneProcessingResult,
+  ManualExclusion,
+  OutlierMethod,
+  MissingCqPolicy,
+  MultipleTestingCorrection,
   ParsedTsvData,
+  PlateRun,
+  QuantificationMethod,
+  ReplicateLayout,
+  SampleReplicates,
+  SampleSheet,
+  SignificanceTest,
   StateChangeEvent,
+  StatusRule,
   StateSubscriber,
   ValidationError,
+  WellAssignment,
 } from "../../types";
 
 /**
@@ -19,12 +34,38 @@ import {
  */
 function createInitialState(): AppState {
   return {
+    runs: [],
     rawData: null,
     config: {
       replicaCount: 3,
-      housekeeper: "",
+      sampleReplicates: {},
+      replicateLayout: "row-order",
+      housekeepers: [],
       samples: [],
       controls: [],
+      sampleSheet: { factors: [], levels: {} },
+      groupingFactors: [],
+      controlCondition: null,
+      significanceTest: "welch",
+      multipleTestingCorrection: "benjamini-hochberg",
+      wellAssignments: {},
+      calibrators: [],
+      standards: {},
+      templateVolume: null,
+      quantificationMethod: "delta-delta-ct",
+      efficiencies: {},
+      deltaCtCalibrator: { mode: "sample", sampleName: null },
+      missingCqPolicy: "exclude",
+      maxCycle: 40,
+      statusRules: [],
+      manualExclusions: {},
+      outlierMethod: "none",
+      outlierSdThreshold: 0.3,
+      outlierAutoExclude: false,
+      cqMethod: "second-derivative",
+      cqThreshold: null,
+      baselineStart: 3,
+      baselineEnd: 15,
     },
     availableGenes: [],
     geneDataMap: new Map(),
@@ -79,11 +120,20 @@ class StateManager {
   }
 
   /**
-   * Set raw data from file upload
+   * Set the loaded runs and their merged data
    */
-  setRawData(data: ParsedTsvData, genes: string[]): void {
+  setRuns(
+    runs: PlateRun[],
+    data: ParsedTsvData,
+    genes: string[],
+    assignments: Record<string, WellAssignment> = {},
+    exclusions: Record<string, ManualExclusion> = {}
+  ): void {
+    this.state.runs = runs;
     this.state.rawData = data;
     this.state.availableGenes = genes;
+    this.state.config.wellAssignments = { ...assignments };
+    this.state.config.manualExclusions = { ...exclusions };
     this.state.geneDataMap.clear();
     this.state.processingResults.clear();
     this.state.outputResults.clear();
@@ -101,21 +151,127 @@ class StateManager {
   }
 
   /**
-   * Set housekeeper gene
+   * Update replicate layout
    */
-  setHousekeeper(geneName: string): void {
-    this.state.config.housekeeper = geneName;
+  setReplicateLayout(layout: ReplicateLayout): void {
+    this.state.config.replicateLayout = layout;
     this.state.processingResults.clear();
     this.state.outputResults.clear();
 
-    this.notify({ type: "housekeeper-changed", payload: geneName });
+    this.notify({ type: "layout-changed", payload: layout });
   }
 
   /**
-   * Set sample names
+   * Update how missing Cq values are handled
    */
-  setSamples(samples: string[]): void {
+  setMissingCqPolicy(policy: MissingCqPolicy, maxCycle: number): void {
+    this.state.config.missingCqPolicy = policy;
+    this.state.config.maxCycle = maxCycle;
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({
+      type: "missing-cq-changed",
+      payload: { policy, maxCycle },
+    });
+  }
+
+  /**
+   * Replace the status rules
+   */
+  setStatusRules(rules: StatusRule[]): void {
+    this.state.config.statusRules = rules.map((r) => ({ ...r }));
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({ type: "status-rules-changed", payload: rules });
+  }
+
+  /**
+   * Mask a single replicate, or unmask it if it is already masked
+   */
+  toggleManualExclusion(measurementId: string, reason: string): void {
+    const exclusions = { ...this.state.config.manualExclusions };
+
+    if (exclusions[measurementId]) {
+      delete exclusions[measurementId];
+    } else {
+      exclusions[measurementId] = { reason };
+    }
+
+    this.state.config.manualExclusions = exclusions;
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({ type: "exclusions-changed", payload: exclusions });
+  }
+
+  /**
+   * Update outlier detection settings
+   */
+  setOutlierOptions(
+    method: OutlierMethod,
+    sdThreshold: number,
+    autoExclude: boolean
+  ): void {
+    this.state.config.outlierMethod = method;
+    this.state.config.outlierSdThreshold = sdThreshold;
+    this.state.config.outlierAutoExclude = autoExclude;
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({
+      type: "outliers-changed",
+      payload: { method, sdThreshold, autoExclude },
+    });
+  }
+
+  /**
+   * Update how Cq values are called from raw amplification curves
+   * @param data Data with the Cq values called with the new settings
+   */
+  setCqCalling(
+    method: CqMethod,
+    threshold: number | null,
+    baselineStart: number,
+    baselineEnd: number,
+    data: ParsedTsvData
+  ): void {
+    this.state.config.cqMethod = method;
+    this.state.config.cqThreshold = threshold;
+    this.state.config.baselineStart = baselineStart;
+    this.state.config.baselineEnd = baselineEnd;
+    this.state.rawData = data;
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({
+      type: "cq-calling-changed",
+      payload: { method, threshold, baselineStart, baselineEnd },
+    });
+  }
+
+  /**
+   * Set housekeeper (reference) genes
+   */
+  setHousekeepers(geneNames: string[]): void {
+    this.state.config.housekeepers = [...geneNames];
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({ type: "housekeeper-changed", payload: geneNames });
+  }
+
+  /**
+   * Set sample names, with replicate counts that differ from the default
+   */
+  setSamples(
+    samples: string[],
+    sampleReplicates: Record<string, SampleReplicates> = {}
+  ): void {
     this.state.config.samples = samples;
+    this.state.config.sampleReplicates = sampleReplicates;
+    this.applyControlCondition();
     this.state.processingResults.clear();
     this.state.outputResults.clear();
 
@@ -132,6 +288,162 @@ class StateManager {
     this.notify({ type: "samples-changed", payload: controls });
   }
 
+  /**
+   * Set the sample sheet with the factors that define conditions and controls
+   */
+  setSampleSheet(
+    sheet: SampleSheet,
+    groupingFactors: string[],
+    controlCondition: ControlCondition | null
+  ): void {
+    this.state.config.sampleSheet = sheet;
+    this.state.config.groupingFactors = groupingFactors;
+    this.state.config.controlCondition = controlCondition;
+    this.applyControlCondition();
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({ type: "sample-sheet-changed", payload: sheet });
+  }
+
+  /**
+   * Set the test run between the conditions in the output
+   */
+  setSignificanceTest(test: SignificanceTest): void {
+    this.state.config.significanceTest = test;
+    this.state.outputResults.clear();
+
+    this.notify({ type: "significance-changed", payload: test });
+  }
+
+  /**
+   * Set the correction of the p-values across genes
+   */
+  setMultipleTestingCorrection(correction: MultipleTestingCorrection): void {
+    this.state.config.multipleTestingCorrection = correction;
+    this.state.outputResults.clear();
+
+    this.notify({ type: "correction-changed", payload: correction });
+  }
+
+  /**
+   * Take the controls from the control condition, if one is set
+   */
+  private applyControlCondition(): void {
+    const { controlCondition, sampleSheet, samples } = this.state.config;
+    if (!controlCondition) return;
+
+    this.state.config.controls = samples.filter(
+      (s) =>
+        sampleSheet.levels[s]?.[controlCondition.factor] ===
+        controlCondition.level
+    );
+  }
+
+  /**
+   * Set the dilution series used for standard curves
+   */
+  setStandards(standards: Record<string, number>): void {
+    this.state.config.standards = standards;
+    this.notify({ type: "standards-changed", payload: standards });
+  }
+
+  /**
+   * Set the input volume per reaction used to scale copy numbers
+   */
+  setTemplateVolume(templateVolume: number | null): void {
+    this.state.config.templateVolume = templateVolume;
+    this.notify({ type: "standards-changed", payload: templateVolume });
+  }
+
+  /**
+   * Set the quantification method and the per-gene efficiencies it uses
+   */
+  setQuantification(
+    method: QuantificationMethod,
+    efficiencies: Record<string, number>
+  ): void {
+    this.state.config.quantificationMethod = method;
+    this.state.config.efficiencies = efficiencies;
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({
+      type: "quantification-changed",
+      payload: { method, efficiencies },
+    });
+  }
+
+  /**
+   * Set the calibrator ΔΔCT values are taken against
+   */
+  setDeltaCtCalibrator(calibrator: DeltaCtCalibrator): void {
+    this.state.config.deltaCtCalibrator = calibrator;
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({ type: "calibrator-changed", payload: calibrator });
+  }
+
+  /**
+   * Set inter-run calibrator samples
+   */
+  setCalibrators(calibrators: string[]): void {
+    this.state.config.calibrators = calibrators;
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({ type: "samples-changed", payload: calibrators });
+  }
+
+  /**
+   * Set sample and control names together (e.g. derived from the plate map)
+   */
+  setSamplesAndControls(samples: string[], controls: string[]): void {
+    this.state.config.samples = samples;
+    this.state.config.sampleReplicates = {};
+    this.state.config.controls = controls;
+    this.applyControlCondition();
+    this.state.processingResults.clear();
+    this.state.outputResults.clear();
+
+    this.notify({ type: "samples-changed", payload: samples });
+  }
+
+  /**
+   * Assign wells in the plate map, or clear them when assignment is null
+   */
+  assignWells(wellKeys: string[], assignment: WellAssignment | null): void {
+    const assignments = { ...this.state.config.wellAssignments };
+
+    for (const key of wellKeys) {
+      if (assignment) {
+        assignments[key] = { ...assignment };
+      } else {
+        delete assignments[key];
+      }
+    }
+
+    this.state.config.wellAssignments = assignments;
+    this.notify({ type: "plate-map-changed", payload: assignments });
+  }
+
+  /**
+   * Replace all plate map assignments
+   */
+  setWellAssignments(assignments: Record<string, WellAssignment>): void {
+    this.state.config.wellAssignments = { ...assignments };
+    this.notify({ type: "plate-map-changed", payload: assignments });
+  }
+
+  /**
+   * Remove all plate map assignments
+   */
+  resetWellAssignments(): void {
+    this.state.config.wellAssignments = {};
+    this.notify({ type: "plate-map-changed", payload: {} });
+  }
+
   /**
    * Update gene data map
    */
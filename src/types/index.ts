@@ -20,28 +20,255 @@ export interface ParsedTsvData {
   title: string;
   headers: string[];
   rows: RawDataRow[];
+  format: string; // Id of the importer that produced this data
+  metadata?: DatasetMetadata;
+  amplification?: Record<string, AmplificationCurve>; // Well key -> raw curve
+  melt?: Record<string, MeltCurve>; // Well key -> melt (dissociation) curve
+}
+
+/**
+ * Raw fluorescence of one well over the amplification cycles
+ */
+export interface AmplificationCurve {
+  cycles: number[];
+  fluorescence: number[];
+}
+
+/**
+ * Fluorescence of one well over the melt temperature ramp
+ */
+export interface MeltCurve {
+  temperatures: number[]; // °C, ascending
+  fluorescence: number[];
+}
+
+/**
+ * How Cq values are called from raw amplification curves
+ * - threshold: cycle where the baseline-corrected curve crosses a threshold
+ * - second-derivative: cycle of the second derivative maximum
+ */
+export type CqMethod = "threshold" | "second-derivative";
+
+/**
+ * A loaded run file (plate) within a multi-plate session
+ */
+export interface PlateRun {
+  id: string; // Plate / run ID, also written to the merged data's "Run" column
+  filename: string;
+  formatLabel: string;
+  data: ParsedTsvData;
+}
+
+/**
+ * Experiment annotations carried by richer formats such as RDML
+ */
+export interface DatasetMetadata {
+  referenceGenes: string[]; // Targets marked as reference genes
+  controlSamples: string[]; // Samples marked as controls
+}
+
+/**
+ * Instrument-independent description of a single well
+ */
+export interface WellRecord {
+  position: string; // Well position (A1..P24), or the instrument's own well number
+  name: string; // Gene / target name
+  sample: string; // Sample name, if the instrument exports one
+  cq: string; // Cq value as exported (may be non-numeric)
+  status: string; // Instrument status or flag message
+}
+
+/**
+ * How technical replicates are arranged on the plate
+ * - row-order: consecutive rows in the file (legacy behaviour)
+ * - horizontal: adjacent wells along a plate row (A1, A2, A3)
+ * - vertical: adjacent wells down a plate column (A1, B1)
+ * - column: one sample per plate column, shared by all genes
+ */
+export type ReplicateLayout =
+  "row-order" | "horizontal" | "vertical" | "column";
+
+/**
+ * Sample assignment for a single well, made in the plate map editor
+ */
+export interface WellAssignment {
+  sample: string; // Sample name, empty for an excluded-only well
+  replicateGroup: string; // Optional label splitting one sample into several groups
+  isControl: boolean;
+  excluded: boolean;
+}
+
+/**
+ * How wells without a usable Cq ("Undetermined", "N/A", blank, ">40") are handled
+ * - exclude: leave the well out of the sample's statistics
+ * - max-cycle: use the max cycle number as its Cq
+ * - flag-sample: leave the well out and flag the whole sample
+ */
+export type MissingCqPolicy = "exclude" | "max-cycle" | "flag-sample";
+
+/**
+ * What to do with a well whose instrument status matches a rule
+ */
+export type StatusRuleAction = "include" | "exclude" | "warn";
+
+/**
+ * Maps instrument status messages to an action. The pattern matches as a
+ * case-insensitive substring, or as a regular expression when written /like this/.
+ */
+export interface StatusRule {
+  pattern: string;
+  action: StatusRuleAction;
+}
+
+/**
+ * Replicate counts of one sample that differ from the global replica count
+ */
+export interface SampleReplicates {
+  count?: number; // Replicas for every gene
+  geneCounts: Record<string, number>; // Replicas for specific genes
+}
+
+/**
+ * Test used to find outliers among technical replicates
+ */
+export type OutlierMethod = "none" | "sd" | "grubbs" | "dixon";
+
+/**
+ * How relative expression is calculated
+ * - delta-delta-ct: 2^-ΔΔCT (every gene assumed to double each cycle)
+ * - pfaffl: efficiency-corrected ratio E_target^ΔCT_target / E_ref^ΔCT_ref
+ */
+export type QuantificationMethod = "delta-delta-ct" | "pfaffl";
+
+/**
+ * Which ΔCT every sample's ΔΔCT is taken against
+ * - sample: one sample's ΔCT (the first sample with values when none is picked)
+ * - control-mean: mean ΔCT of the control samples
+ * - all-mean: mean ΔCT of all samples (qbase-style)
+ */
+export type CalibratorMode = "sample" | "control-mean" | "all-mean";
+
+/**
+ * ΔΔCT calibrator setting (unrelated to the inter-run calibrator samples)
+ */
+export interface DeltaCtCalibrator {
+  mode: CalibratorMode;
+  sampleName: string | null; // "sample" mode only; null = first sample with values
+}
+
+/**
+ * Test comparing the ΔCT values of the conditions
+ * - welch: Welch's t-test, each condition against the controls
+ * - mann-whitney: Mann-Whitney U test, each condition against the controls
+ * - anova-tukey: one-way ANOVA with Tukey-Kramer comparisons of all pairs
+ * - anova-dunnett: one-way ANOVA with Dunnett's comparisons against the controls
+ */
+export type SignificanceTest =
+  "none" | "welch" | "mann-whitney" | "anova-tukey" | "anova-dunnett";
+
+/**
+ * Correction of the p-values for testing many genes at once
+ * - benjamini-hochberg: false discovery rate (q-values)
+ * - bonferroni: family-wise error rate, p × number of tests
+ * - holm: family-wise error rate, step-down Bonferroni
+ */
+export type MultipleTestingCorrection =
+  "benjamini-hochberg" | "bonferroni" | "holm";
+
+/**
+ * Experimental factors of the samples (treatment, time point, donor, ...)
+ */
+export interface SampleSheet {
+  factors: string[]; // Factor names in column order
+  levels: Record<string, Record<string, string>>; // Sample -> factor -> level
+}
+
+/**
+ * Factor level that marks the control samples
+ */
+export interface ControlCondition {
+  factor: string;
+  level: string;
+}
+
+/**
+ * A replicate masked by hand in the processing table
+ */
+export interface ManualExclusion {
+  reason: string;
 }
 
 /**
  * Configuration for data processing
  */
 export interface ProcessingConfig {
-  replicaCount: number;
-  housekeeper: string;
+  replicaCount: number; // Default replicas per sample
+  sampleReplicates: Record<string, SampleReplicates>; // Per-sample overrides from the sample list
+  replicateLayout: ReplicateLayout;
+  housekeepers: string[]; // Reference genes; targets are normalised to their geometric mean
   samples: string[];
-  controls: string[];
+  controls: string[]; // Derived from controlCondition when one is set
+  sampleSheet: SampleSheet;
+  groupingFactors: string[]; // Factors whose level combinations are the conditions; empty = controls vs. samples
+  controlCondition: ControlCondition | null; // null = controls from the control list or plate map
+  significanceTest: SignificanceTest;
+  multipleTestingCorrection: MultipleTestingCorrection;
+  wellAssignments: Record<string, WellAssignment>; // Keyed by well key (run + position)
+  calibrators: string[]; // Inter-run calibrator samples present on every plate
+  standards: Record<string, number>; // Standard sample name -> quantity (dilution series)
+  templateVolume: number | null; // µl of input per reaction for copies per µl; null = per reaction only
+  quantificationMethod: QuantificationMethod;
+  efficiencies: Record<string, number>; // Gene -> amplification efficiency (1 = 100%)
+  deltaCtCalibrator: DeltaCtCalibrator;
+  missingCqPolicy: MissingCqPolicy;
+  maxCycle: number; // Cq substituted by the "max-cycle" policy
+  statusRules: StatusRule[]; // First matching rule applies
+  manualExclusions: Record<string, ManualExclusion>; // Keyed by measurement ID
+  outlierMethod: OutlierMethod;
+  outlierSdThreshold: number; // Replicate SD (cycles) above which the "sd" method flags
+  outlierAutoExclude: boolean; // Leave suspected outliers out of mean and STD
+  cqMethod: CqMethod; // Used for wells imported as raw amplification curves
+  cqThreshold: number | null; // Fluorescence threshold; null = automatic per gene
+  baselineStart: number; // First baseline cycle
+  baselineEnd: number; // Last baseline cycle
 }
 
 // ============================================================================
 // Gene Expression Data Types
 // ============================================================================
 
+/**
+ * Kind of QC note attached to a well
+ */
+export type MeasurementFlagKind =
+  | "missing" // No usable Cq; the well is excluded
+  | "substituted" // No usable Cq; the max cycle number is used instead
+  | "status-excluded" // Excluded by a status rule
+  | "status-warning" // Included, with a warning from a status rule
+  | "manual" // Excluded by hand
+  | "outlier" // Suspected outlier among the replicates
+  | "melt"; // Melt peaks or Tm differ from the gene's consensus
+
+/**
+ * QC note attached to a well
+ */
+export interface MeasurementFlag {
+  kind: MeasurementFlagKind;
+  message: string;
+}
+
 /**
  * A single CT value measurement
  */
 export interface CtMeasurement {
-  value: number;
+  id: string; // Gene and well, e.g. "TNF@Plate 1:A1" (stable across re-grouping)
+  value: number; // Cq used in calculations (after inter-run calibration), NaN if missing
+  rawValue: number; // Cq as measured
   rowIndex: number;
+  position: string; // Well position as exported, empty if unknown
+  run: string; // Plate / run ID the well belongs to
+  excluded: boolean; // Left out of the replicate statistics
+  flags: MeasurementFlag[];
 }
 
 /**
@@ -50,7 +277,8 @@ export interface CtMeasurement {
 export interface ReplicaGroup {
   sampleName: string;
   sampleNumber: number;
-  ctValues: number[];
+  ctValues: number[]; // CT values of the wells that are not excluded
+  measurements: CtMeasurement[]; // All wells of the sample, including excluded ones
 }
 
 /**
@@ -60,6 +288,17 @@ export interface GeneData {
   name: string;
   measurements: CtMeasurement[];
   replicaGroups: ReplicaGroup[];
+  calibration?: RunCalibration[]; // Set once inter-run calibration is applied
+}
+
+/**
+ * Inter-run calibration of one gene on one run (plate)
+ */
+export interface RunCalibration {
+  geneName: string;
+  run: string;
+  factor: number; // Subtracted from every Cq of the gene on this run
+  calibratorCount: number; // Calibrator samples the factor is based on
 }
 
 // ============================================================================
@@ -81,18 +320,34 @@ export interface ProcessingTableRow {
   sampleNumber: number;
   sampleName: string;
   ctValues: number[]; // Individual CT values
+  rawCtValues: number[]; // Individual CT values before inter-run calibration
   ctStd: number; // STD
   ctMean: number; // [CT]
-  hkCtValues: number[]; // Housekeeper CT values
-  hkCtStd: number; // H STD
-  hkCtMean: number; // H [CT]
+  references: ReferenceCq[]; // CT values of each housekeeper
+  hkCtStd: number; // H STD, propagated over all housekeepers
+  hkCtMean: number; // H [CT], mean of the housekeepers' [CT]
   deltaCt: number; // ΔCT
   deltaDeltaCt: number; // ΔΔCT
   combinedStd: number; // Combined STD
-  foldChange: number; // 2^-ΔΔCT
+  normalizationFactor: number; // NF, geometric mean of the housekeepers' relative quantities
+  foldChange: number; // 2^-ΔΔCT, or the Pfaffl ratio
   sem: number; // SEM
   isReplicaRow: boolean; // Whether this is a sub-row showing individual replica
   replicaIndex?: number; // Index within replica group (0, 1, 2...)
+  measurement?: CtMeasurement; // Target well shown by a replica row
+  warnings: string[]; // Sample-level QC warnings (main rows)
+}
+
+/**
+ * CT values of one housekeeper in a processing table row
+ */
+export interface ReferenceCq {
+  geneName: string;
+  ctValues: number[];
+  rawCtValues: number[]; // CT values before inter-run calibration
+  ctStd: number;
+  ctMean: number;
+  measurement?: CtMeasurement; // Well shown by a replica row
 }
 
 /**
@@ -101,7 +356,54 @@ export interface ProcessingTableRow {
 export interface GeneProcessingResult {
   geneName: string;
   rows: ProcessingTableRow[];
-  firstDeltaCt: number; // Reference ΔCT for ΔΔCT calculation
+  calibrator: AppliedCalibrator; // ΔCT the ΔΔCT values are taken against
+  conditions: ConditionSummary[]; // Biological replicates rolled up per condition
+  calibration: RunCalibration[]; // Per-run corrections of target and housekeeper
+  quantification: QuantificationSummary;
+}
+
+/**
+ * Biological replicates (samples, each the mean of its technical
+ * replicates) of one condition rolled up into a group
+ */
+export interface ConditionSummary {
+  condition: string;
+  isControl: boolean;
+  sampleNames: string[]; // Biological replicates with a result
+  n: number; // Number of biological replicates
+  meanDeltaCt: number;
+  sdDeltaCt: number; // SD of the biological replicates' ΔCT
+  semDeltaCt: number; // SD / √n
+  foldChange: number; // Geometric mean of the replicates' fold changes
+  foldChangeVsControl: number | null; // Relative to the control conditions; null without controls
+}
+
+/**
+ * Calibrator a gene's ΔΔCT values were calculated with
+ */
+export interface AppliedCalibrator {
+  mode: CalibratorMode;
+  sampleNames: string[]; // Samples averaged into the calibrator
+  deltaCt: number; // Mean ΔCT of those samples, subtracted from every ΔCT
+  fallback: boolean; // Picked sample or controls had no values; first sample used
+}
+
+/**
+ * Amplification efficiency used for one gene
+ */
+export interface GeneEfficiency {
+  geneName: string;
+  efficiency: number; // 1 = 100% (doubling every cycle)
+  assumed: boolean; // No efficiency entered, 100% used
+}
+
+/**
+ * Method and efficiencies behind a gene's fold changes
+ */
+export interface QuantificationSummary {
+  method: QuantificationMethod;
+  target: GeneEfficiency;
+  references: GeneEfficiency[]; // One per housekeeper
 }
 
 // ============================================================================
@@ -128,6 +430,53 @@ export interface NormalizedTableRow {
   normalizedObserved: number;
 }
 
+/**
+ * Normalized values of the samples of one condition
+ */
+export interface ConditionColumn {
+  condition: string;
+  sampleNames: string[];
+  normalizedValues: number[];
+}
+
+/**
+ * Test of one condition against another on ΔCT
+ */
+export interface GroupComparison {
+  group: string;
+  reference: string; // The controls, or the other condition of a Tukey pair
+  groupN: number;
+  referenceN: number;
+  meanDifference: number; // Mean ΔCT of group minus reference (ΔΔCT)
+  statistic: number;
+  df: number | null; // null for rank tests
+  p: number;
+  effectSize: number;
+  q: number | null; // p adjusted across all genes; null until corrected
+}
+
+/**
+ * One-way ANOVA over all conditions
+ */
+export interface AnovaSummary {
+  f: number;
+  dfBetween: number;
+  dfWithin: number;
+  p: number;
+  etaSquared: number;
+}
+
+/**
+ * Significance tests of a gene
+ */
+export interface SignificanceResult {
+  test: SignificanceTest;
+  statisticName: string;
+  effectSizeName: string;
+  comparisons: GroupComparison[];
+  anova: AnovaSummary | null;
+}
+
 /**
  * Complete output for a gene
  */
@@ -136,8 +485,31 @@ export interface GeneOutputResult {
   foldChangeRows: FoldChangeTableRow[];
   controlAverage: number;
   normalizedRows: NormalizedTableRow[];
+  conditionColumns: ConditionColumn[]; // One per condition; empty without grouping factors
+  conditions: ConditionSummary[]; // Group-level summary of the processing result
+  significance: SignificanceResult | null; // null without a test or enough groups
 }
 
+/**
+ * One group comparison of one gene in the cross-gene summary
+ */
+export interface SignificanceSummaryRow {
+  geneName: string;
+  group: string;
+  reference: string;
+  foldChange: number; // Geometric mean fold change of group over reference
+  log2FoldChange: number;
+  p: number;
+  q: number;
+}
+
+/**
+ * Order of the cross-gene summary
+ * - significance: smallest q first
+ * - fold-change: largest change first, up or down (|log2 fold change|)
+ */
+export type SignificanceSortKey = "significance" | "fold-change";
+
 // ============================================================================
 // Validation Types
 // ============================================================================
@@ -167,7 +539,8 @@ export interface ValidationResult {
  */
 export interface AppState {
   // Input data
-  rawData: ParsedTsvData | null;
+  runs: PlateRun[];
+  rawData: ParsedTsvData | null; // All runs merged into one table
   config: ProcessingConfig;
 
   // Derived data
@@ -192,7 +565,20 @@ export type StateChangeType =
   | "data-loaded"
   | "config-changed"
   | "housekeeper-changed"
+  | "layout-changed"
+  | "missing-cq-changed"
+  | "status-rules-changed"
+  | "exclusions-changed"
+  | "outliers-changed"
+  | "cq-calling-changed"
+  | "standards-changed"
+  | "quantification-changed"
+  | "calibrator-changed"
+  | "plate-map-changed"
   | "samples-changed"
+  | "sample-sheet-changed"
+  | "significance-changed"
+  | "correction-changed"
   | "processing-complete"
   | "output-complete"
   | "validation-error"